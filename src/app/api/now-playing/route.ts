@@ -0,0 +1,123 @@
+/**
+ * Now Playing Route Handler
+ *
+ * GET /api/now-playing?url=<stream url>
+ *
+ * Connects to a station stream with `Icy-MetaData: 1`, reads the in-band
+ * ICY metadata and forwards every StreamTitle change to the client as
+ * Server-Sent Events:
+ *
+ * - `metadata`: JSON TrackMetadata for the current song
+ * - `unsupported`: the station does not send ICY metadata; the stream ends
+ */
+
+import {
+  fetchUpstream,
+  parseUpstreamUrl,
+  UpstreamBlockedError,
+  UPSTREAM_USER_AGENT,
+} from "~/lib/server/upstream";
+import { IcyMetadataParser, parseStreamTitle, splitStreamTitle } from "~/lib/utils/icy-metadata";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+
+function formatEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+export async function GET(request: Request) {
+  const streamUrl = parseUpstreamUrl(new URL(request.url).searchParams.get("url"));
+  if (!streamUrl) {
+    return Response.json({ message: "A valid public stream URL is required" }, { status: 400 });
+  }
+
+  const upstreamAbort = new AbortController();
+  request.signal.addEventListener("abort", () => upstreamAbort.abort());
+
+  let upstream: Response;
+  try {
+    upstream = await fetchUpstream(streamUrl, {
+      headers: {
+        "Icy-MetaData": "1",
+        "User-Agent": UPSTREAM_USER_AGENT,
+      },
+      signal: upstreamAbort.signal,
+    });
+  } catch (error) {
+    if (error instanceof UpstreamBlockedError) {
+      return Response.json({ message: error.message }, { status: 400 });
+    }
+    return Response.json({ message: "Could not connect to the stream" }, { status: 502 });
+  }
+
+  if (!upstream.ok || !upstream.body) {
+    upstreamAbort.abort();
+    return Response.json(
+      { message: `Stream responded with status ${upstream.status}` },
+      { status: 502 },
+    );
+  }
+
+  const metaInt = parseInt(upstream.headers.get("icy-metaint") ?? "", 10);
+  const encoder = new TextEncoder();
+  const reader = upstream.body.getReader();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      if (!Number.isFinite(metaInt) || metaInt <= 0) {
+        upstreamAbort.abort();
+        controller.enqueue(encoder.encode(formatEvent("unsupported", {})));
+        controller.close();
+        return;
+      }
+
+      const parser = new IcyMetadataParser(metaInt);
+      let lastTitle: string | null = null;
+
+      // Comment lines keep idle proxies from closing the connection
+      const heartbeat = setInterval(() => {
+        controller.enqueue(encoder.encode(": keep-alive\n\n"));
+      }, HEARTBEAT_INTERVAL_MS);
+
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+
+          for (const block of parser.push(value)) {
+            const title = parseStreamTitle(block);
+            if (title && title !== lastTitle) {
+              lastTitle = title;
+              controller.enqueue(encoder.encode(formatEvent("metadata", splitStreamTitle(title))));
+            }
+          }
+        }
+        controller.close();
+      } catch {
+        // Client went away or the stream dropped; EventSource reconnects if needed
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      } finally {
+        clearInterval(heartbeat);
+        upstreamAbort.abort();
+      }
+    },
+    cancel() {
+      upstreamAbort.abort();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
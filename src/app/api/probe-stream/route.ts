@@ -0,0 +1,182 @@
+/**
+ * Probe Stream Route Handler
+ *
+ * GET /api/probe-stream?url=<stream url>
+ *
+ * Connects to a station stream, listens for a few seconds and reports
+ * its health as JSON StreamProbeResult: HTTP status, Content-Type,
+ * time to the first byte and the bitrate, both announced and measured.
+ * The stream only counts as working when it sends audio or a playlist;
+ * an error page served with status 200 does not.
+ * An unreachable or failing station is still a 200 with `ok: false`,
+ * so the client can remember the result.
+ */
+
+import {
+  fetchUpstream,
+  parseUpstreamUrl,
+  UpstreamBlockedError,
+  UPSTREAM_USER_AGENT,
+} from "~/lib/server/upstream";
+import { detectPlaylistFormat } from "~/lib/utils/playlist-parser";
+import type { StreamProbeResult } from "~/lib/types/stream.types";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+const CONNECT_TIMEOUT_MS = 8 * 1000;
+const SAMPLE_MS = 4 * 1000;
+const MAX_SAMPLE_BYTES = 512 * 1024;
+const SNIFF_BYTES = 512;
+
+/**
+ * Servers send a burst of buffered audio on connect; bytes in this
+ * window after the first one are left out of the measured bitrate
+ */
+const BURST_SKIP_MS = 1000;
+
+function getMediaType(contentType: string | null): string {
+  return contentType?.split(";")[0]?.trim().toLowerCase() ?? "";
+}
+
+function isAudioContentType(contentType: string | null): boolean {
+  const type = getMediaType(contentType);
+  return (type.startsWith("audio/") && !type.includes("mpegurl")) || type === "application/ogg";
+}
+
+/**
+ * Whether the first bytes of an untyped response look like audio:
+ * an ID3 tag, an Ogg or FLAC header, or an MPEG/AAC frame sync
+ */
+function looksLikeAudio(bytes: Uint8Array): boolean {
+  const header = String.fromCharCode(...bytes.subarray(0, 4));
+  if (header.startsWith("ID3") || header === "OggS" || header === "fLaC") return true;
+  return bytes.length >= 2 && bytes[0] === 0xff && (bytes[1]! & 0xe0) === 0xe0;
+}
+
+/**
+ * Whether the response is something a player can use: audio, or a
+ * playlist (including HLS) that leads to it
+ */
+function isPlayableResponse(contentType: string | null, firstBytes: Uint8Array): boolean {
+  if (isAudioContentType(contentType)) return true;
+
+  const type = getMediaType(contentType);
+  if (type === "text/html" || type === "application/xhtml+xml" || type === "application/json") {
+    return false;
+  }
+  if (detectPlaylistFormat(new TextDecoder().decode(firstBytes), contentType)) return true;
+  return (!type || type === "application/octet-stream") && looksLikeAudio(firstBytes);
+}
+
+export async function GET(request: Request) {
+  const streamUrl = parseUpstreamUrl(new URL(request.url).searchParams.get("url"));
+  if (!streamUrl) {
+    return Response.json({ message: "A valid public stream URL is required" }, { status: 400 });
+  }
+
+  const result: StreamProbeResult = {
+    ok: false,
+    status: null,
+    contentType: null,
+    declaredKbps: null,
+    measuredKbps: null,
+    ttfbMs: null,
+    error: null,
+    checkedAt: Date.now(),
+  };
+
+  const controller = new AbortController();
+  request.signal.addEventListener("abort", () => controller.abort());
+  const connectTimeout = setTimeout(() => controller.abort(), CONNECT_TIMEOUT_MS);
+  const startedAt = performance.now();
+
+  let upstream: Response;
+  try {
+    upstream = await fetchUpstream(streamUrl, {
+      headers: { "User-Agent": UPSTREAM_USER_AGENT },
+      signal: controller.signal,
+    });
+  } catch (error) {
+    clearTimeout(connectTimeout);
+    if (error instanceof UpstreamBlockedError) {
+      return Response.json({ message: error.message }, { status: 400 });
+    }
+    result.error = controller.signal.aborted ? "Timed out connecting" : "Could not connect";
+    return Response.json(result);
+  }
+
+  result.status = upstream.status;
+  result.contentType = upstream.headers.get("content-type");
+  const declared = parseInt(upstream.headers.get("icy-br") ?? "", 10);
+  result.declaredKbps = Number.isFinite(declared) && declared > 0 ? declared : null;
+
+  if (!upstream.ok || !upstream.body) {
+    clearTimeout(connectTimeout);
+    controller.abort();
+    result.error = `Responded with status ${upstream.status}`;
+    return Response.json(result);
+  }
+
+  const reader = upstream.body.getReader();
+  let firstByteAt: number | null = null;
+  let sampleEnd: ReturnType<typeof setTimeout> | null = null;
+  let totalBytes = 0;
+  let firstBytes = new Uint8Array(0);
+  let bytesAfterBurst = 0;
+  let lastByteAt = 0;
+
+  try {
+    while (totalBytes < MAX_SAMPLE_BYTES) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      const now = performance.now();
+      if (firstByteAt === null) {
+        firstByteAt = now;
+        clearTimeout(connectTimeout);
+        // Ends the pending read with done once the sample is long enough
+        sampleEnd = setTimeout(() => void reader.cancel(), SAMPLE_MS);
+      }
+      if (firstBytes.length < SNIFF_BYTES) {
+        const sniffed = new Uint8Array(Math.min(firstBytes.length + value.byteLength, SNIFF_BYTES));
+        sniffed.set(firstBytes);
+        sniffed.set(value.subarray(0, sniffed.length - firstBytes.length), firstBytes.length);
+        firstBytes = sniffed;
+      }
+      totalBytes += value.byteLength;
+      if (now - firstByteAt >= BURST_SKIP_MS) bytesAfterBurst += value.byteLength;
+      lastByteAt = now;
+    }
+  } catch {
+    // Aborted while waiting for data; judge on what arrived
+  } finally {
+    clearTimeout(connectTimeout);
+    if (sampleEnd !== null) clearTimeout(sampleEnd);
+    controller.abort();
+  }
+
+  if (firstByteAt === null) {
+    result.error = "No data received";
+    return Response.json(result);
+  }
+
+  result.ttfbMs = Math.round(firstByteAt - startedAt);
+  if (!isPlayableResponse(result.contentType, firstBytes)) {
+    result.error = `Not an audio stream (${getMediaType(result.contentType) || "unknown type"})`;
+    return Response.json(result);
+  }
+  result.ok = true;
+
+  // A bitrate only means something for audio that kept flowing
+  if (isAudioContentType(result.contentType)) {
+    const measuredMs = lastByteAt - firstByteAt - BURST_SKIP_MS;
+    const kbps =
+      measuredMs >= BURST_SKIP_MS
+        ? (bytesAfterBurst * 8) / measuredMs
+        : (totalBytes * 8) / Math.max(lastByteAt - firstByteAt, 1);
+    result.measuredKbps = Math.round(kbps);
+  }
+
+  return Response.json(result);
+}
@@ -0,0 +1,118 @@
+/**
+ * Resolve Stream Route Handler
+ *
+ * GET /api/resolve-stream?url=<station url>
+ *
+ * Station URLs often point to a PLS/M3U/ASX/XSPF playlist rather than the
+ * audio stream. This downloads the URL (unless the server says it is audio)
+ * and returns the stream URLs found in it, as JSON ResolvedStream:
+ *
+ * - A playlist: its entries, in order
+ * - An audio stream, HLS playlist or unknown content: the URL itself
+ */
+
+import {
+  fetchUpstream,
+  parseUpstreamUrl,
+  UpstreamBlockedError,
+  UPSTREAM_USER_AGENT,
+} from "~/lib/server/upstream";
+import {
+  detectPlaylistFormat,
+  isPlaylistContentType,
+  parsePlaylist,
+} from "~/lib/utils/playlist-parser";
+import type { ResolvedStream } from "~/lib/types/stream.types";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+const RESOLVE_TIMEOUT_MS = 8 * 1000;
+const MAX_PLAYLIST_BYTES = 64 * 1024;
+
+/**
+ * Read at most `maxBytes` of the body, then stop the download
+ */
+async function readLimitedText(response: Response, maxBytes: number): Promise<string> {
+  if (!response.body) return "";
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  while (total < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    total += value.byteLength;
+  }
+  await reader.cancel();
+
+  const bytes = new Uint8Array(Math.min(total, maxBytes));
+  let offset = 0;
+  for (const chunk of chunks) {
+    const part = chunk.subarray(0, bytes.length - offset);
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+export async function GET(request: Request) {
+  const stationUrl = parseUpstreamUrl(new URL(request.url).searchParams.get("url"));
+  if (!stationUrl) {
+    return Response.json({ message: "A valid public stream URL is required" }, { status: 400 });
+  }
+
+  const unresolved: ResolvedStream = { streams: [stationUrl.toString()], hls: false };
+
+  let upstream: Response;
+  try {
+    upstream = await fetchUpstream(stationUrl, {
+      headers: { "User-Agent": UPSTREAM_USER_AGENT },
+      signal: AbortSignal.timeout(RESOLVE_TIMEOUT_MS),
+    });
+  } catch (error) {
+    if (error instanceof UpstreamBlockedError) {
+      return Response.json({ message: error.message }, { status: 400 });
+    }
+    return Response.json({ message: "Could not connect to the station" }, { status: 502 });
+  }
+
+  if (!upstream.ok) {
+    await upstream.body?.cancel();
+    return Response.json(
+      { message: `Station responded with status ${upstream.status}` },
+      { status: 502 },
+    );
+  }
+
+  const contentType = upstream.headers.get("content-type");
+  if (!isPlaylistContentType(contentType)) {
+    await upstream.body?.cancel();
+    return Response.json(unresolved);
+  }
+
+  let body: string;
+  try {
+    body = await readLimitedText(upstream, MAX_PLAYLIST_BYTES);
+  } catch {
+    return Response.json({ message: "Could not read the playlist" }, { status: 502 });
+  }
+
+  // Redirects may change the base for relative entries
+  const baseUrl = upstream.url || stationUrl.toString();
+  const format = detectPlaylistFormat(body, contentType);
+  if (format === "hls") {
+    return Response.json({ streams: [baseUrl], hls: true } satisfies ResolvedStream);
+  }
+  if (!format) {
+    return Response.json(unresolved);
+  }
+
+  const streams = parsePlaylist(body, format, baseUrl);
+  if (streams.length === 0) {
+    return Response.json({ message: "The playlist has no playable streams" }, { status: 422 });
+  }
+  return Response.json({ streams, hls: false } satisfies ResolvedStream);
+}
@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { fetchUpstream } from "~/lib/server/upstream";
+import { GET } from "./route";
+
+vi.mock(import("~/lib/server/upstream"), async (importOriginal) => ({
+  ...(await importOriginal()),
+  fetchUpstream: vi.fn(),
+}));
+
+const fetchUpstreamMock = vi.mocked(fetchUpstream);
+
+function requestStream(url: string): Promise<Response> {
+  return GET(new Request(`http://localhost/api/stream?url=${encodeURIComponent(url)}`));
+}
+
+function upstreamResponse(contentType: string | null): Response {
+  return new Response("body", { headers: contentType ? { "content-type": contentType } : {} });
+}
+
+afterEach(() => {
+  vi.resetAllMocks();
+});
+
+describe("GET /api/stream", () => {
+  it.each(["audio/mpeg", "audio/aacp; charset=binary", "application/ogg", "video/mp2t"])(
+    "relays %s with sniffing and scripts disabled",
+    async (contentType) => {
+      fetchUpstreamMock.mockResolvedValue(upstreamResponse(contentType));
+
+      const response = await requestStream("https://radio.example.com/live");
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("content-type")).toBe(contentType);
+      expect(response.headers.get("x-content-type-options")).toBe("nosniff");
+      expect(response.headers.get("content-security-policy")).toBe("sandbox");
+    },
+  );
+
+  it.each([
+    "text/html",
+    "image/svg+xml",
+    "application/javascript",
+    "application/octet-stream",
+    null,
+  ])(
+    "refuses to relay %s",
+    async (contentType) => {
+      fetchUpstreamMock.mockResolvedValue(upstreamResponse(contentType));
+
+      const response = await requestStream("https://attacker.example.com/page");
+
+      expect(response.status).toBe(502);
+      expect(response.headers.get("content-type")).toContain("application/json");
+      expect(response.headers.get("x-content-type-options")).toBe("nosniff");
+    },
+  );
+
+  it("rejects private URLs without connecting", async () => {
+    const response = await requestStream("http://127.0.0.1/admin");
+
+    expect(response.status).toBe(400);
+    expect(fetchUpstreamMock).not.toHaveBeenCalled();
+  });
+});
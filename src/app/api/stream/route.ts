@@ -0,0 +1,94 @@
+/**
+ * Stream Proxy Route Handler
+ *
+ * GET /api/stream?url=<stream url>
+ *
+ * Relays a station's audio stream from our own origin, so the client can
+ * read the raw bytes with fetch (most stations send no CORS headers).
+ * Used for the live time-shift buffer. ICY metadata isn't requested, so
+ * the body is plain audio in the upstream Content-Type.
+ *
+ * Only audio and streaming media types are relayed, with sniffing and
+ * scripting turned off, so a URL can't get its own HTML or SVG served
+ * from our origin, where the auth tokens live.
+ */
+
+import {
+  fetchUpstream,
+  parseUpstreamUrl,
+  UpstreamBlockedError,
+  UPSTREAM_USER_AGENT,
+} from "~/lib/server/upstream";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+const CONNECT_TIMEOUT_MS = 10 * 1000;
+
+// Media types relayed besides audio/*: Ogg, MPEG-TS segments and HLS playlists
+const RELAYED_MEDIA_TYPES = new Set([
+  "application/ogg",
+  "video/mp2t",
+  "application/vnd.apple.mpegurl",
+  "application/x-mpegurl",
+]);
+
+const SECURITY_HEADERS = {
+  "X-Content-Type-Options": "nosniff",
+  "Content-Security-Policy": "sandbox",
+};
+
+function isRelayedMediaType(contentType: string | null): boolean {
+  const mediaType = contentType?.split(";")[0]?.trim().toLowerCase() ?? "";
+  return /^audio\/[\w.+-]+$/.test(mediaType) || RELAYED_MEDIA_TYPES.has(mediaType);
+}
+
+function errorResponse(message: string, status: number): Response {
+  return Response.json({ message }, { status, headers: SECURITY_HEADERS });
+}
+
+export async function GET(request: Request) {
+  const streamUrl = parseUpstreamUrl(new URL(request.url).searchParams.get("url"));
+  if (!streamUrl) {
+    return errorResponse("A valid public stream URL is required", 400);
+  }
+
+  // Stop the upstream download when the client goes away
+  const controller = new AbortController();
+  request.signal.addEventListener("abort", () => controller.abort());
+  const connectTimeout = setTimeout(() => controller.abort(), CONNECT_TIMEOUT_MS);
+
+  let upstream: Response;
+  try {
+    upstream = await fetchUpstream(streamUrl, {
+      headers: { "User-Agent": UPSTREAM_USER_AGENT },
+      signal: controller.signal,
+    });
+  } catch (error) {
+    if (error instanceof UpstreamBlockedError) {
+      return errorResponse(error.message, 400);
+    }
+    return errorResponse("Could not connect to the station", 502);
+  } finally {
+    clearTimeout(connectTimeout);
+  }
+
+  if (!upstream.ok || !upstream.body) {
+    await upstream.body?.cancel();
+    return errorResponse(`Station responded with status ${upstream.status}`, 502);
+  }
+
+  const contentType = upstream.headers.get("content-type");
+  if (!contentType || !isRelayedMediaType(contentType)) {
+    await upstream.body.cancel();
+    return errorResponse(`Not an audio stream (${contentType ?? "no content type"})`, 502);
+  }
+
+  return new Response(upstream.body, {
+    headers: {
+      ...SECURITY_HEADERS,
+      "Content-Type": contentType,
+      "Cache-Control": "no-store",
+    },
+  });
+}
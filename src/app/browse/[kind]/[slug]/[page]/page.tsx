@@ -0,0 +1,26 @@
+import type { Metadata } from "next";
+import {
+  BrowseStationsPage,
+  getBrowsePageMetadata,
+  type BrowsePageParams,
+} from "~/components/browse/browse-stations-page";
+
+interface BrowsePageProps {
+  params: Promise<Required<BrowsePageParams>>;
+}
+
+// Cached like the first page; see ../page.tsx
+export const revalidate = 3600;
+export const dynamicParams = true;
+
+export function generateStaticParams(): Required<BrowsePageParams>[] {
+  return [];
+}
+
+export async function generateMetadata({ params }: BrowsePageProps): Promise<Metadata> {
+  return getBrowsePageMetadata(await params);
+}
+
+export default async function BrowsePageNumber({ params }: BrowsePageProps) {
+  return <BrowseStationsPage params={await params} />;
+}
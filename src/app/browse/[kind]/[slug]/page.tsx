@@ -0,0 +1,27 @@
+import type { Metadata } from "next";
+import {
+  BrowseStationsPage,
+  getBrowsePageMetadata,
+  type BrowsePageParams,
+} from "~/components/browse/browse-stations-page";
+
+interface BrowsePageProps {
+  params: Promise<BrowsePageParams>;
+}
+
+// Landing pages are rendered on their first visit and cached for an hour,
+// so builds don't depend on the station backend
+export const revalidate = 3600;
+export const dynamicParams = true;
+
+export function generateStaticParams(): BrowsePageParams[] {
+  return [];
+}
+
+export async function generateMetadata({ params }: BrowsePageProps): Promise<Metadata> {
+  return getBrowsePageMetadata(await params);
+}
+
+export default async function BrowsePage({ params }: BrowsePageProps) {
+  return <BrowseStationsPage params={await params} />;
+}
@@ -0,0 +1,31 @@
+"use client";
+
+import Link from "next/link";
+import { Navbar } from "~/components/layout/navbar";
+import { Button } from "~/components/ui/button";
+
+interface BrowseErrorProps {
+  reset: () => void;
+}
+
+export default function BrowseError({ reset }: BrowseErrorProps) {
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <main className="pt-24 pb-32 px-6">
+        <div className="max-w-4xl mx-auto text-center py-20">
+          <h1 className="text-2xl font-semibold mb-2">Stations couldn&apos;t be loaded</h1>
+          <p className="text-muted-foreground mb-6">
+            The station directory isn&apos;t responding right now.
+          </p>
+          <div className="flex items-center justify-center gap-4">
+            <Button onClick={reset}>Try again</Button>
+            <Link href="/browse" className="text-sm text-primary hover:underline underline-offset-4">
+              Back to Browse
+            </Link>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { Navbar } from "~/components/layout/navbar";
+import {
+  BROWSE_KIND_LABELS,
+  getBrowseEntries,
+  getBrowseHref,
+  type BrowseKind,
+} from "~/lib/utils/browse-directory";
+
+export const metadata: Metadata = {
+  title: "Browse Radio Stations - E-Radio",
+  description: "Browse radio stations from around the world by country, language and genre.",
+  alternates: { canonical: "/browse" },
+};
+
+const SECTIONS: BrowseKind[] = ["tags", "countries", "languages"];
+
+export default function BrowseIndexPage() {
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <main className="pt-24 pb-32 px-6">
+        <div className="max-w-5xl mx-auto mb-16">
+          <h1 className="text-5xl md:text-6xl font-semibold tracking-tight mb-4 text-center">
+            Browse stations.
+          </h1>
+          <p className="text-lg text-muted-foreground text-center mb-12">
+            By genre, country and language
+          </p>
+
+          <div className="space-y-12">
+            {SECTIONS.map((kind) => (
+              <section key={kind} id={kind} className="scroll-mt-20">
+                <h2 className="text-2xl font-semibold mb-4">{BROWSE_KIND_LABELS[kind].title}</h2>
+                <ul className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+                  {getBrowseEntries(kind).map((entry) => (
+                    <li key={entry.slug}>
+                      <Link
+                        href={getBrowseHref(entry)}
+                        className="flex items-center gap-3 rounded-xl border bg-card px-4 py-3 text-sm font-medium transition-colors hover:bg-accent/50 hover:border-primary/50"
+                      >
+                        {entry.flag && (
+                          <span className="text-xl leading-none" aria-hidden="true">
+                            {entry.flag}
+                          </span>
+                        )}
+                        <span className="truncate">{entry.name}</span>
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            ))}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -6,6 +6,9 @@ import { AuthProvider } from "~/components/providers/auth-provider";
 import { ThemeProvider } from "~/components/providers/theme-provider";
 import { PlayerContainer } from "~/components/player/player-container";
 import { InstallPrompt } from "~/components/pwa/install-prompt";
+import { AlarmScheduler } from "~/components/alarms/alarm-scheduler";
+import { Toaster } from "~/components/layout/toaster";
+import { KeyboardShortcuts } from "~/components/layout/keyboard-shortcuts";
 
 export const metadata: Metadata = {
   title: "E-Radio - Discover Radio Stations",
@@ -62,6 +65,9 @@ export default function RootLayout({
           <AuthProvider>
             {children}
             <PlayerContainer />
+            <AlarmScheduler />
+            <Toaster />
+            <KeyboardShortcuts />
             <InstallPrompt />
           </AuthProvider>
         </ThemeProvider>
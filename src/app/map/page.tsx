@@ -0,0 +1,86 @@
+"use client";
+
+import { Navbar } from "~/components/layout/navbar";
+import { StationMap } from "~/components/map/station-map";
+import { CountryStationsPanel, type MapCountry } from "~/components/map/country-stations-panel";
+import { useAuthStore } from "~/lib/store/auth-store";
+import { useCountryStationCounts } from "~/lib/hooks/use-country-station-counts";
+import type { WorldCountry } from "~/lib/utils/world-map";
+import { getDirectoryCountryName } from "~/lib/utils/directory-countries";
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+
+export default function MapPage() {
+  const router = useRouter();
+  const { isAuthenticated, isLoading, initialize } = useAuthStore();
+  const { counts, isLoading: isCounting, error } = useCountryStationCounts();
+  const [selectedCountry, setSelectedCountry] = useState<MapCountry | null>(null);
+
+  useEffect(() => {
+    initialize();
+  }, [initialize]);
+
+  useEffect(() => {
+    // Wait for auth state to be loaded from localStorage before redirecting
+    if (!isLoading && !isAuthenticated) {
+      router.push("/login");
+    }
+  }, [isAuthenticated, isLoading, router]);
+
+  const handleSelectCountry = useCallback(
+    ({ countryCode, name }: WorldCountry) => {
+      if (!countryCode) return;
+      setSelectedCountry({
+        countryCode,
+        name,
+        searchName: getDirectoryCountryName(countryCode) ?? name,
+      });
+    },
+    [],
+  );
+
+  const handleClosePanel = useCallback(() => setSelectedCountry(null), []);
+
+  // Show loading state while checking authentication
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center">
+          <div className="mb-4 inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-blue-600 border-r-transparent" />
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  // Redirect if not authenticated (after loading is complete)
+  if (!isAuthenticated) {
+    return null; // Will redirect
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <main className="pt-24 pb-32 px-6">
+        <div className="max-w-6xl mx-auto mb-16">
+          <h1 className="text-5xl md:text-6xl font-semibold tracking-tight mb-4 text-center">
+            Station map
+          </h1>
+          <p className="text-lg text-muted-foreground text-center mb-10">
+            {error
+              ? `Station counts could not be loaded: ${error}`
+              : isCounting
+                ? "Counting stations around the world..."
+                : "Darker countries have more stations. Pick one to listen."}
+          </p>
+          <StationMap
+            counts={counts}
+            selectedCountryCode={selectedCountry?.countryCode ?? null}
+            onSelectCountry={handleSelectCountry}
+          />
+        </div>
+      </main>
+      <CountryStationsPanel country={selectedCountry} onClose={handleClosePanel} />
+    </div>
+  );
+}
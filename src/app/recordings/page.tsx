@@ -0,0 +1,57 @@
+"use client";
+
+import { RecordingsList } from "~/components/recordings/recordings-list";
+import { Navbar } from "~/components/layout/navbar";
+import { useAuthStore } from "~/lib/store/auth-store";
+import { useEffect } from "react";
+import { useRouter } from "next/navigation";
+
+export default function RecordingsPage() {
+  const router = useRouter();
+  const { isAuthenticated, isLoading, initialize } = useAuthStore();
+
+  useEffect(() => {
+    initialize();
+  }, [initialize]);
+
+  useEffect(() => {
+    // Wait for auth state to be loaded from localStorage before redirecting
+    if (!isLoading && !isAuthenticated) {
+      router.push("/login");
+    }
+  }, [isAuthenticated, isLoading, router]);
+
+  // Show loading state while checking authentication
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center">
+          <div className="mb-4 inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-blue-600 border-r-transparent" />
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  // Redirect if not authenticated (after loading is complete)
+  if (!isAuthenticated) {
+    return null; // Will redirect
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <main className="pt-24 pb-32 px-6">
+        <div className="max-w-4xl mx-auto mb-16">
+          <h1 className="text-5xl md:text-6xl font-semibold tracking-tight mb-4 text-center">
+            Recordings
+          </h1>
+          <p className="text-lg text-muted-foreground text-center mb-10">
+            Stations you recorded, saved in this browser
+          </p>
+          <RecordingsList />
+        </div>
+      </main>
+    </div>
+  );
+}
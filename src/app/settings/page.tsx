@@ -0,0 +1,56 @@
+"use client";
+
+import { AlarmSettings } from "~/components/alarms/alarm-settings";
+import { Navbar } from "~/components/layout/navbar";
+import { PlaybackSettings } from "~/components/player/playback-settings";
+import { ShortcutSettings } from "~/components/layout/shortcut-settings";
+import { useAuthStore } from "~/lib/store/auth-store";
+import { useEffect } from "react";
+import { useRouter } from "next/navigation";
+
+export default function SettingsPage() {
+  const router = useRouter();
+  const { isAuthenticated, isLoading, initialize } = useAuthStore();
+
+  useEffect(() => {
+    initialize();
+  }, [initialize]);
+
+  useEffect(() => {
+    // Wait for auth state to be loaded from localStorage before redirecting
+    if (!isLoading && !isAuthenticated) {
+      router.push("/login");
+    }
+  }, [isAuthenticated, isLoading, router]);
+
+  // Show loading state while checking authentication
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center">
+          <div className="mb-4 inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-blue-600 border-r-transparent" />
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  // Redirect if not authenticated (after loading is complete)
+  if (!isAuthenticated) {
+    return null; // Will redirect
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <main className="max-w-4xl mx-auto px-6 pt-24 pb-32">
+        <h1 className="text-3xl font-semibold text-foreground mb-8">Settings</h1>
+        <div className="space-y-12">
+          <PlaybackSettings />
+          <AlarmSettings />
+          <ShortcutSettings />
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { cache } from "react";
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { StationDetails } from "~/components/stations/station-details";
+import { stationsApi } from "~/lib/api/stations.api";
+import { stationsService, getStationTags } from "~/lib/services/stations.service";
+import { ApiException } from "~/lib/utils/error-handler";
+import type { RadioStation } from "~/lib/types/api.types";
+
+interface StationPageProps {
+  params: Promise<{ id: string }>;
+}
+
+function parseStationId(value: string): number {
+  const id = Number(value);
+  if (!Number.isInteger(id) || id <= 0) notFound();
+  return id;
+}
+
+// Shared by generateMetadata and the page, so the station is fetched once.
+// Null when the backend can't be asked server-side (e.g. it wants a login);
+// the page then loads the station in the browser.
+const getStation = cache(async (id: number): Promise<RadioStation | null> => {
+  try {
+    return await stationsApi.getById(id);
+  } catch (error) {
+    if (error instanceof ApiException && error.statusCode === 404) notFound();
+    return null;
+  }
+});
+
+function describeStation(station: RadioStation): string {
+  const details = [
+    [station.state, station.country].filter(Boolean).join(", "),
+    station.language,
+    getStationTags(station).slice(0, 4).join(", "),
+  ].filter(Boolean);
+  return details.length > 0
+    ? `Listen to ${station.name} live: ${details.join(" · ")}`
+    : `Listen to ${station.name} live on E-Radio`;
+}
+
+export async function generateMetadata({ params }: StationPageProps): Promise<Metadata> {
+  const { id } = await params;
+  const station = await getStation(parseStationId(id));
+  if (!station) return { title: "Radio Station - E-Radio" };
+
+  const title = `${station.name} - E-Radio`;
+  const description = describeStation(station);
+  const images = station.favicon ? [{ url: station.favicon, alt: station.name }] : undefined;
+
+  return {
+    title,
+    description,
+    keywords: getStationTags(station),
+    alternates: { canonical: `/stations/${station.id}` },
+    openGraph: {
+      type: "website",
+      siteName: "E-Radio",
+      title,
+      description,
+      url: `/stations/${station.id}`,
+      images,
+    },
+    twitter: {
+      card: "summary",
+      title,
+      description,
+      images: images?.map((image) => image.url),
+    },
+  };
+}
+
+export default async function StationPage({ params }: StationPageProps) {
+  const { id } = await params;
+  const stationId = parseStationId(id);
+  const station = await getStation(stationId);
+  const similarStations = station ? await stationsService.getSimilar(station) : [];
+
+  return (
+    <StationDetails
+      stationId={stationId}
+      initialStation={station}
+      initialSimilarStations={similarStations}
+    />
+  );
+}
@@ -0,0 +1,84 @@
+/**
+ * Alarm Banner Component
+ *
+ * Shown in the player while a wake-up alarm is ringing.
+ * When the browser blocks autoplay, it asks the user for the tap
+ * needed to start the alarm.
+ *
+ * SOLID: Single Responsibility - Only handles ringing alarm UI
+ */
+
+"use client";
+
+import { Button } from "~/components/ui/button";
+import { AlarmClock } from "lucide-react";
+import type { Alarm, RingingAlarm } from "~/lib/store/alarm-store";
+
+interface AlarmBannerProps {
+  alarm: Alarm;
+  ringing: RingingAlarm;
+  onStart: () => void;
+  onStop: () => void;
+  onKeepListening: () => void;
+}
+
+export function AlarmBanner({
+  alarm,
+  ringing,
+  onStart,
+  onStop,
+  onKeepListening,
+}: AlarmBannerProps) {
+  const getMessage = () => {
+    if (ringing.autoplayBlocked) {
+      return "Your browser blocked automatic playback. Tap Start to begin your alarm.";
+    }
+    if (ringing.usingFallbackTone) {
+      return `${alarm.station.name} could not be reached, so the alarm tone is playing instead.`;
+    }
+    return `Waking you up with ${alarm.station.name}.`;
+  };
+
+  return (
+    <div
+      className="mt-3 rounded-lg bg-primary/10 border border-primary/20 p-3"
+      role="alert"
+    >
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3 min-w-0 flex-1">
+          <AlarmClock className="h-5 w-5 text-primary flex-shrink-0 animate-pulse" />
+          <div className="min-w-0">
+            <p className="text-sm font-semibold text-foreground">Alarm · {alarm.time}</p>
+            <p className="text-xs text-muted-foreground">{getMessage()}</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          {ringing.autoplayBlocked ? (
+            <Button size="sm" onClick={onStart} className="h-8 text-xs">
+              Start alarm
+            </Button>
+          ) : (
+            !ringing.usingFallbackTone && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={onKeepListening}
+                className="h-8 text-xs"
+              >
+                Keep listening
+              </Button>
+            )
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onStop}
+            className="h-8 text-xs text-destructive hover:bg-destructive/10"
+          >
+            Stop
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
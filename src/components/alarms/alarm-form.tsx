@@ -0,0 +1,170 @@
+/**
+ * Alarm Form Component
+ *
+ * Create or edit a wake-up alarm: station, time, repeat days and ramp-up.
+ *
+ * SOLID: Single Responsibility - Only handles alarm form UI
+ */
+
+"use client";
+
+import { useState, useEffect } from "react";
+import { useFavorites } from "~/lib/hooks/use-favorites";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import type { RadioStation } from "~/lib/types/api.types";
+import type { AlarmInput } from "~/lib/store/alarm-store";
+import { WEEKDAY_LABELS, RAMP_DURATION_OPTIONS_SEC } from "~/lib/utils/alarm-schedule";
+
+interface AlarmFormProps {
+  initialValue?: AlarmInput;
+  onSubmit: (input: AlarmInput) => void;
+  onCancel: () => void;
+}
+
+export function AlarmForm({ initialValue, onSubmit, onCancel }: AlarmFormProps) {
+  const { getFavorites, isLoading } = useFavorites();
+  const [favorites, setFavorites] = useState<RadioStation[]>([]);
+  const [stationUuid, setStationUuid] = useState(initialValue?.station.stationUuid ?? "");
+  const [time, setTime] = useState(initialValue?.time ?? "07:00");
+  const [days, setDays] = useState<number[]>(initialValue?.days ?? [1, 2, 3, 4, 5]);
+  const [rampDurationSec, setRampDurationSec] = useState(initialValue?.rampDurationSec ?? 60);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadFavorites = async () => {
+      const result = await getFavorites(0, 100);
+      if (result) {
+        setFavorites(result.content);
+      }
+    };
+    void loadFavorites();
+  }, [getFavorites]);
+
+  // Keep the alarm's own station selectable even if it is no longer a favorite
+  const stationOptions =
+    initialValue && !favorites.some((s) => s.stationUuid === initialValue.station.stationUuid)
+      ? [initialValue.station, ...favorites]
+      : favorites;
+
+  const toggleDay = (day: number) => {
+    setDays((prev) =>
+      prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day].sort((a, b) => a - b),
+    );
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const station = stationOptions.find((s) => s.stationUuid === stationUuid);
+    if (!station) {
+      setError("Please choose a station to wake up to.");
+      return;
+    }
+
+    onSubmit({ station, time, days, rampDurationSec });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-5 bg-card border rounded-2xl p-6">
+      <div className="space-y-2">
+        <label htmlFor="alarm-station" className="text-sm font-medium text-foreground">
+          Station
+        </label>
+        <select
+          id="alarm-station"
+          value={stationUuid}
+          onChange={(e) => {
+            setStationUuid(e.target.value);
+            setError(null);
+          }}
+          disabled={isLoading && stationOptions.length === 0}
+          className="h-11 w-full rounded-md border border-input bg-transparent px-3 text-sm"
+        >
+          <option value="">
+            {isLoading && stationOptions.length === 0 ? "Loading favorites..." : "Choose a favorite station"}
+          </option>
+          {stationOptions.map((station) => (
+            <option key={station.stationUuid} value={station.stationUuid}>
+              {station.name}
+            </option>
+          ))}
+        </select>
+        {!isLoading && stationOptions.length === 0 && (
+          <p className="text-xs text-muted-foreground">
+            Add a station to your favorites to use it as an alarm.
+          </p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+        <div className="space-y-2">
+          <label htmlFor="alarm-time" className="text-sm font-medium text-foreground">
+            Time
+          </label>
+          <Input
+            id="alarm-time"
+            type="time"
+            value={time}
+            onChange={(e) => setTime(e.target.value)}
+            className="h-11"
+            required
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label htmlFor="alarm-ramp" className="text-sm font-medium text-foreground">
+            Volume ramp-up
+          </label>
+          <select
+            id="alarm-ramp"
+            value={rampDurationSec}
+            onChange={(e) => setRampDurationSec(parseInt(e.target.value, 10))}
+            className="h-11 w-full rounded-md border border-input bg-transparent px-3 text-sm"
+          >
+            {RAMP_DURATION_OPTIONS_SEC.map((seconds) => (
+              <option key={seconds} value={seconds}>
+                {seconds === 0
+                  ? "None"
+                  : seconds < 60
+                    ? `${seconds} seconds`
+                    : `${seconds / 60} ${seconds === 60 ? "minute" : "minutes"}`}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <span className="text-sm font-medium text-foreground">Repeat</span>
+        <div className="flex flex-wrap gap-2">
+          {WEEKDAY_LABELS.map((label, day) => (
+            <Button
+              key={label}
+              type="button"
+              variant={days.includes(day) ? "default" : "outline"}
+              size="sm"
+              onClick={() => toggleDay(day)}
+              aria-pressed={days.includes(day)}
+              className="h-9 w-12"
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Leave all days unselected for a one-time alarm.
+        </p>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="flex items-center gap-3">
+        <Button type="submit">{initialValue ? "Save alarm" : "Add alarm"}</Button>
+        <Button type="button" variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+}
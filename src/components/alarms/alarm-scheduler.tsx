@@ -0,0 +1,14 @@
+"use client";
+
+import { useAlarmScheduler } from "~/lib/hooks/use-alarm-scheduler";
+
+/**
+ * Alarm Scheduler
+ *
+ * Runs the wake-up alarm scheduler on every page.
+ * Renders nothing; the ringing alarm is shown by the player.
+ */
+export function AlarmScheduler() {
+  useAlarmScheduler();
+  return null;
+}
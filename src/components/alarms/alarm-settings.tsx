@@ -0,0 +1,131 @@
+/**
+ * Alarm Settings Component
+ *
+ * Lists wake-up alarms and lets the user add, edit, enable or delete them.
+ *
+ * SOLID: Single Responsibility - Only handles alarm management UI
+ */
+
+"use client";
+
+import { useState } from "react";
+import { Button } from "~/components/ui/button";
+import { AlarmForm } from "./alarm-form";
+import { AlarmClock, Pencil, Plus, Trash2 } from "lucide-react";
+import { useAlarmStore, type AlarmInput } from "~/lib/store/alarm-store";
+import { formatAlarmDays, getNextTrigger } from "~/lib/utils/alarm-schedule";
+
+export function AlarmSettings() {
+  const { alarms, addAlarm, updateAlarm, removeAlarm, setAlarmEnabled } = useAlarmStore();
+  // Alarm id being edited, "new" while adding one, or null when the form is closed
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const editingAlarm = alarms.find((alarm) => alarm.id === editingId);
+
+  const handleSubmit = (input: AlarmInput) => {
+    if (editingAlarm) {
+      updateAlarm(editingAlarm.id, input);
+      // Re-arm the alarm after editing so a changed time rings again
+      setAlarmEnabled(editingAlarm.id, true);
+    } else {
+      addAlarm(input);
+    }
+    setEditingId(null);
+  };
+
+  const formatNextTrigger = (timestamp: number | null) => {
+    if (timestamp === null) return "Off";
+    return new Date(timestamp).toLocaleString(undefined, {
+      weekday: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  };
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <AlarmClock className="w-5 h-5 text-primary" />
+          <h2 className="text-xl font-semibold">Wake-up alarms</h2>
+        </div>
+        {editingId === null && (
+          <Button size="sm" onClick={() => setEditingId("new")}>
+            <Plus className="w-4 h-4" />
+            Add alarm
+          </Button>
+        )}
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Alarms ring only while eRadio is open in a browser tab. Some browsers block
+        automatic playback until you have interacted with the page.
+      </p>
+
+      {editingId !== null && (
+        <AlarmForm
+          key={editingId}
+          initialValue={editingAlarm}
+          onSubmit={handleSubmit}
+          onCancel={() => setEditingId(null)}
+        />
+      )}
+
+      {alarms.length === 0 && editingId === null ? (
+        <div className="text-center py-10 bg-card border rounded-2xl">
+          <p className="text-muted-foreground">No alarms yet.</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {alarms.map((alarm) => (
+            <div
+              key={alarm.id}
+              className="flex items-center gap-4 bg-card border rounded-2xl p-4"
+            >
+              <div className="flex-1 min-w-0">
+                <p
+                  className={`text-2xl font-semibold tabular-nums ${
+                    alarm.enabled ? "text-foreground" : "text-muted-foreground"
+                  }`}
+                >
+                  {alarm.time}
+                </p>
+                <p className="text-sm text-muted-foreground truncate">
+                  {alarm.station.name} · {formatAlarmDays(alarm.days)}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Next: {formatNextTrigger(getNextTrigger(alarm))}
+                </p>
+              </div>
+              <label className="flex items-center gap-2 text-sm text-muted-foreground cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={alarm.enabled}
+                  onChange={(e) => setAlarmEnabled(alarm.id, e.target.checked)}
+                  className="h-4 w-4 accent-primary"
+                />
+                On
+              </label>
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => setEditingId(alarm.id)}
+                aria-label="Edit alarm"
+              >
+                <Pencil className="w-4 h-4" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => removeAlarm(alarm.id)}
+                className="hover:bg-destructive/10 hover:text-destructive"
+                aria-label="Delete alarm"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,135 @@
+/**
+ * Browse Station List Component
+ *
+ * The stations of a /browse landing page, playable in the player, with
+ * the station total and links to the neighbouring pages.
+ *
+ * SOLID: Single Responsibility - Only handles a browse page's stations
+ *
+ * The page passes the stations it rendered on the server; when it
+ * couldn't (the search wants a login), they are loaded here instead.
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import Skeleton from "~/components/ui/skeleton";
+import { StationCard } from "~/components/stations/station-card";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import type { PageResponse, RadioStation } from "~/lib/types/api.types";
+import { stationsApi } from "~/lib/api/stations.api";
+import { usePlayerStore } from "~/lib/store/player-store";
+import { extractErrorMessage } from "~/lib/utils/error-handler";
+import {
+  BROWSE_KIND_LABELS,
+  MAX_BROWSE_PAGE,
+  getBrowseHref,
+  getBrowseSearchParams,
+  type BrowseEntry,
+} from "~/lib/utils/browse-directory";
+
+interface BrowseStationListProps {
+  entry: BrowseEntry;
+  /**
+   * 1-based page number
+   */
+  page: number;
+  initialResult: PageResponse<RadioStation> | null;
+}
+
+export function BrowseStationList({ entry, page, initialResult }: BrowseStationListProps) {
+  const { setCurrentStation, setStations, showPlayer } = usePlayerStore();
+  const [result, setResult] = useState(initialResult);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (initialResult) return;
+
+    let cancelled = false;
+    stationsApi
+      .search(getBrowseSearchParams(entry, page - 1))
+      .then((loaded) => {
+        if (!cancelled) setResult(loaded);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(extractErrorMessage(err));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [entry, page, initialResult]);
+
+  if (error) {
+    return <p className="text-lg text-destructive mb-10">{error}</p>;
+  }
+
+  if (!result) {
+    return (
+      <div className="space-y-3">
+        <Skeleton height={28} width={160} borderRadius="0.375rem" className="mb-7" />
+        <Skeleton count={5} height={130} borderRadius="1rem" className="mb-3" />
+      </div>
+    );
+  }
+
+  const stations = result.content;
+
+  const handleStationClick = (station: RadioStation) => {
+    // Set stations list for navigation
+    setStations(stations);
+    setCurrentStation(station);
+    showPlayer();
+  };
+
+  return (
+    <>
+      <p className="text-lg text-muted-foreground mb-10">
+        {result.totalElements > 0
+          ? `${result.totalElements.toLocaleString("en")} stations`
+          : `No stations for this ${BROWSE_KIND_LABELS[entry.kind].singular} yet`}
+      </p>
+
+      <div className="space-y-3">
+        {stations.map((station) => (
+          <StationCard
+            key={station.stationUuid ?? station.id}
+            station={station}
+            onClick={() => handleStationClick(station)}
+          />
+        ))}
+      </div>
+
+      {result.totalPages > 1 && (
+        <nav className="flex items-center justify-between mt-10" aria-label="Pagination">
+          {page > 1 ? (
+            <Link
+              href={getBrowseHref(entry, page - 1)}
+              className="flex items-center gap-1 text-sm font-medium text-primary hover:underline underline-offset-4"
+            >
+              <ChevronLeft className="h-4 w-4" />
+              Previous
+            </Link>
+          ) : (
+            <span />
+          )}
+          <span className="text-sm text-muted-foreground">
+            Page {page} of {result.totalPages}
+          </span>
+          {!result.last && page < MAX_BROWSE_PAGE ? (
+            <Link
+              href={getBrowseHref(entry, page + 1)}
+              className="flex items-center gap-1 text-sm font-medium text-primary hover:underline underline-offset-4"
+            >
+              Next
+              <ChevronRight className="h-4 w-4" />
+            </Link>
+          ) : (
+            <span />
+          )}
+        </nav>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,146 @@
+/**
+ * Browse Stations Page Component
+ *
+ * Server-rendered landing page of a country, language or genre under
+ * /browse, with one page of its stations and links to the others.
+ *
+ * SOLID: Single Responsibility - Only renders a browse landing page
+ *
+ * Rendered on the server and cached by the routes (ISR). When the
+ * station search wants a login, which the server doesn't have, the
+ * stations are left for the browser to load instead. Any other failed
+ * search throws, so the error page is shown instead of caching an
+ * empty list.
+ */
+
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { Navbar } from "~/components/layout/navbar";
+import { BrowseStationList } from "./browse-station-list";
+import { stationsApi } from "~/lib/api/stations.api";
+import { ApiException } from "~/lib/utils/error-handler";
+import type { PageResponse, RadioStation } from "~/lib/types/api.types";
+import {
+  BROWSE_KIND_LABELS,
+  MAX_BROWSE_PAGE,
+  findBrowseEntry,
+  getBrowseHref,
+  getBrowseSearchParams,
+  isBrowseKind,
+  type BrowseEntry,
+} from "~/lib/utils/browse-directory";
+
+export interface BrowsePageParams {
+  kind: string;
+  slug: string;
+  page?: string;
+}
+
+interface BrowseStationsPageProps {
+  params: BrowsePageParams;
+}
+
+/**
+ * The entry and 1-based page number for route params; not found when invalid
+ */
+function resolveBrowsePage({ kind, slug, page = "1" }: BrowsePageParams): {
+  entry: BrowseEntry;
+  page: number;
+} {
+  const pageNumber = Number(page);
+  if (
+    !isBrowseKind(kind) ||
+    !Number.isInteger(pageNumber) ||
+    pageNumber < 1 ||
+    pageNumber > MAX_BROWSE_PAGE
+  ) {
+    notFound();
+  }
+
+  const entry = findBrowseEntry(kind, slug);
+  if (!entry) notFound();
+
+  return { entry, page: pageNumber };
+}
+
+/**
+ * One page of the entry's stations, or null when the search needs a login
+ */
+async function getBrowseStations(
+  entry: BrowseEntry,
+  page: number,
+): Promise<PageResponse<RadioStation> | null> {
+  try {
+    return await stationsApi.search(getBrowseSearchParams(entry, page - 1));
+  } catch (error) {
+    if (error instanceof ApiException && (error.statusCode === 401 || error.statusCode === 403)) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+function getBrowseTitle(entry: BrowseEntry): string {
+  switch (entry.kind) {
+    case "countries":
+      return `Radio stations in ${entry.name}`;
+    case "languages":
+      return `${entry.name} radio stations`;
+    case "tags":
+      return `${entry.name} radio`;
+  }
+}
+
+export function getBrowsePageMetadata(params: BrowsePageParams): Metadata {
+  const { entry, page } = resolveBrowsePage(params);
+  const title = `${getBrowseTitle(entry)}${page > 1 ? ` - Page ${page}` : ""} - E-Radio`;
+  const description = `Listen live to ${getBrowseTitle(entry).toLowerCase()} on E-Radio.`;
+
+  return {
+    title,
+    description,
+    alternates: { canonical: getBrowseHref(entry, page) },
+    openGraph: {
+      type: "website",
+      siteName: "E-Radio",
+      title,
+      description,
+      url: getBrowseHref(entry, page),
+    },
+  };
+}
+
+export async function BrowseStationsPage({ params }: BrowseStationsPageProps) {
+  const { entry, page } = resolveBrowsePage(params);
+  const result = await getBrowseStations(entry, page);
+  if (result && page > 1 && result.content.length === 0) notFound();
+
+  const label = BROWSE_KIND_LABELS[entry.kind];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <main className="pt-24 pb-32 px-6">
+        <div className="max-w-4xl mx-auto mb-16">
+          <nav className="text-sm text-muted-foreground mb-6" aria-label="Breadcrumb">
+            <Link href="/browse" className="hover:text-foreground">
+              Browse
+            </Link>
+            {" / "}
+            <Link href={`/browse#${entry.kind}`} className="hover:text-foreground">
+              {label.title}
+            </Link>
+          </nav>
+
+          <h1 className="text-5xl md:text-6xl font-semibold tracking-tight mb-4">
+            {entry.flag && <span className="mr-3">{entry.flag}</span>}
+            {getBrowseTitle(entry)}
+          </h1>
+
+          <BrowseStationList entry={entry} page={page} initialResult={result} />
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -16,6 +16,7 @@ import { Button } from "~/components/ui/button";
 import { Input } from "~/components/ui/input";
 import Skeleton from "~/components/ui/skeleton";
 import { StationCard } from "~/components/stations/station-card";
+import { VirtualStationList } from "~/components/stations/virtual-station-list";
 import { Heart, Search } from "lucide-react";
 import type { RadioStation } from "~/lib/types/api.types";
 
@@ -223,10 +224,11 @@ export function FavoritesList({ onStationSelect, isActive = true }: FavoritesLis
         </div>
       ) : (
         <>
-          <div className="space-y-3">
-            {filteredFavorites.map((station) => (
+          <VirtualStationList
+            stations={filteredFavorites}
+            listKey={`favorites?${debouncedSearchQuery}`}
+            renderStation={(station) => (
               <StationCard
-                key={station.id}
                 station={station}
                 onClick={() => {
                   // Set stations list for navigation
@@ -238,8 +240,8 @@ export function FavoritesList({ onStationSelect, isActive = true }: FavoritesLis
                 }
                 showGlobeIcon={true}
               />
-            ))}
-          </div>
+            )}
+          />
 
           {/* Infinite scroll trigger */}
           {pagination.hasMore && (
@@ -0,0 +1,175 @@
+/**
+ * Track History List Component
+ *
+ * Searchable "recently heard" log with copy, web search and export actions.
+ * Used by the player's history drawer and the /history page.
+ *
+ * SOLID: Single Responsibility - Only handles track history display
+ */
+
+"use client";
+
+import { useState, useMemo, useCallback } from "react";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Check, Copy, Download, ListMusic, Search, Trash2 } from "lucide-react";
+import { useTrackHistoryStore, type TrackHistoryEntry } from "~/lib/store/track-history-store";
+import {
+  formatTrack,
+  getTrackSearchUrl,
+  toTrackHistoryCsv,
+  toTrackHistoryJson,
+} from "~/lib/utils/track-history-export";
+import { downloadBlob } from "~/lib/utils/download";
+
+interface TrackHistoryListProps {
+  /**
+   * Smaller layout for the player drawer
+   */
+  compact?: boolean;
+}
+
+export function TrackHistoryList({ compact = false }: TrackHistoryListProps) {
+  const { entries, clearHistory } = useTrackHistoryStore();
+  const [query, setQuery] = useState("");
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const filteredEntries = useMemo(() => {
+    const term = query.trim().toLowerCase();
+    if (!term) return entries;
+    return entries.filter(
+      (entry) =>
+        entry.raw.toLowerCase().includes(term) ||
+        entry.stationName.toLowerCase().includes(term),
+    );
+  }, [entries, query]);
+
+  const handleCopy = useCallback(async (entry: TrackHistoryEntry) => {
+    try {
+      await navigator.clipboard.writeText(formatTrack(entry));
+      setCopiedId(entry.id);
+      setTimeout(() => setCopiedId((current) => (current === entry.id ? null : current)), 1500);
+    } catch (error) {
+      console.error("Failed to copy track:", error);
+    }
+  }, []);
+
+  const handleExport = useCallback(
+    (format: "csv" | "json") => {
+      const date = new Date().toISOString().slice(0, 10);
+      const blob =
+        format === "csv"
+          ? new Blob([toTrackHistoryCsv(filteredEntries)], { type: "text/csv;charset=utf-8" })
+          : new Blob([toTrackHistoryJson(filteredEntries)], { type: "application/json" });
+      downloadBlob(blob, `eradio-history-${date}.${format}`);
+    },
+    [filteredEntries],
+  );
+
+  const formatTime = (timestamp: number) =>
+    new Date(timestamp).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
+
+  return (
+    <div className="space-y-4">
+      <div className={compact ? "space-y-2" : "flex flex-col md:flex-row md:items-center gap-3"}>
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            type="text"
+            placeholder="Search songs or stations..."
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleExport("csv")}
+            disabled={filteredEntries.length === 0}
+          >
+            <Download className="w-4 h-4" />
+            CSV
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleExport("json")}
+            disabled={filteredEntries.length === 0}
+          >
+            <Download className="w-4 h-4" />
+            JSON
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={clearHistory}
+            disabled={entries.length === 0}
+            className="text-destructive hover:bg-destructive/10"
+          >
+            <Trash2 className="w-4 h-4" />
+            Clear
+          </Button>
+        </div>
+      </div>
+
+      {filteredEntries.length === 0 ? (
+        <div className="text-center py-12">
+          <div className="w-16 h-16 bg-muted/30 rounded-full flex items-center justify-center mx-auto mb-4">
+            <ListMusic className="w-8 h-8 text-muted-foreground" />
+          </div>
+          <p className="text-muted-foreground">
+            {query ? `No songs match "${query}"` : "Songs you hear will show up here."}
+          </p>
+        </div>
+      ) : (
+        <ul className="divide-y divide-border/60">
+          {filteredEntries.map((entry) => (
+            <li key={entry.id} className="flex items-center gap-3 py-3">
+              <span className="text-xs text-muted-foreground tabular-nums w-12 flex-shrink-0">
+                {formatTime(entry.playedAt)}
+              </span>
+              <div className="min-w-0 flex-1">
+                <p className={`font-medium truncate ${compact ? "text-sm" : "text-base"}`}>
+                  {formatTrack(entry)}
+                </p>
+                <p className="text-xs text-muted-foreground truncate">{entry.stationName}</p>
+              </div>
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => handleCopy(entry)}
+                className="h-8 w-8 rounded-full"
+                aria-label="Copy song"
+                title="Copy"
+              >
+                {copiedId === entry.id ? (
+                  <Check className="w-4 h-4 text-green-500" />
+                ) : (
+                  <Copy className="w-4 h-4" />
+                )}
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                asChild
+                className="h-8 w-8 rounded-full"
+              >
+                <a
+                  href={getTrackSearchUrl(entry)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  aria-label="Search the web for this song"
+                  title="Search the web"
+                >
+                  <Search className="w-4 h-4" />
+                </a>
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
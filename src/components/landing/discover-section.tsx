@@ -1,29 +1,31 @@
 "use client";
 
-import { useRouter } from "next/navigation";
-import { useAuthStore } from "~/lib/store/auth-store";
+import Link from "next/link";
 import { useState, useEffect, useRef } from "react";
+import { getBrowseHref } from "~/lib/utils/browse-directory";
 
 interface Genre {
   name: string;
+  /**
+   * Tag of the genre's browse page
+   */
+  tag: string;
   image: string;
   alt: string;
 }
 
 const genres: Genre[] = [
-  { name: "Jazz", image: "/jazz-radio.jpg", alt: "Jazz" },
-  { name: "Rock", image: "/rock-radio.jpg", alt: "Rock" },
-  { name: "Classical", image: "/classical-music-scene.png", alt: "Classical" },
-  { name: "Electronic", image: "/rock-radio.jpg", alt: "Electronic" },
-  { name: "Hip Hop", image: "/hiphop-radio.jpg", alt: "Hip Hop" },
-  { name: "Country", image: "/country-music-scene.png", alt: "Country" },
-  { name: "Latin", image: "/latin-music.jpg", alt: "Latin" },
-  { name: "Blues", image: "/latin-music.jpg", alt: "Blues" },
+  { name: "Jazz", tag: "jazz", image: "/jazz-radio.jpg", alt: "Jazz" },
+  { name: "Rock", tag: "rock", image: "/rock-radio.jpg", alt: "Rock" },
+  { name: "Classical", tag: "classical", image: "/classical-music-scene.png", alt: "Classical" },
+  { name: "Electronic", tag: "electronic", image: "/electronic-music.jpg", alt: "Electronic" },
+  { name: "Hip Hop", tag: "hip hop", image: "/hiphop-radio.jpg", alt: "Hip Hop" },
+  { name: "Country", tag: "country", image: "/country-music-scene.png", alt: "Country" },
+  { name: "Latin", tag: "latin", image: "/latin-music.jpg", alt: "Latin" },
+  { name: "Blues", tag: "blues", image: "/blues-music.jpg", alt: "Blues" },
 ];
 
 export function DiscoverSection() {
-  const router = useRouter();
-  const { user } = useAuthStore();
   const [isVisible, setIsVisible] = useState(false);
   const sectionRef = useRef<HTMLElement>(null);
 
@@ -48,14 +50,6 @@ export function DiscoverSection() {
     };
   }, []);
 
-  const handleGenreClick = () => {
-    if (user) {
-      router.push("/search");
-    } else {
-      router.push("/register");
-    }
-  };
-
   return (
     <section ref={sectionRef} id="discover" className="py-16 md:py-24 px-6">
       <div className="max-w-5xl mx-auto">
@@ -77,9 +71,9 @@ export function DiscoverSection() {
 
         <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
           {genres.map((genre, index) => (
-            <button
+            <Link
               key={index}
-              onClick={handleGenreClick}
+              href={getBrowseHref({ kind: "tags", slug: genre.tag })}
               className={`relative group overflow-hidden rounded-lg aspect-square cursor-pointer transition-all duration-700 ${
                 isVisible ? "opacity-100 scale-100" : "opacity-0 scale-95"
               }`}
@@ -94,7 +88,7 @@ export function DiscoverSection() {
               <p className="absolute bottom-3 left-3 text-base font-medium text-white group-hover:scale-105 transition-transform duration-300">
                 {genre.name}
               </p>
-            </button>
+            </Link>
           ))}
         </div>
       </div>
@@ -0,0 +1,126 @@
+/**
+ * Keyboard Shortcuts Component
+ *
+ * App-wide keyboard listener that runs shortcut actions, plus the
+ * "?" help overlay listing the current bindings.
+ *
+ * SOLID: Single Responsibility - Only dispatches keys and shows the shortcut help
+ *
+ * Keys typed into inputs, text areas and selects are left alone.
+ * A key is only claimed (default prevented) when some component
+ * handles its action, so arrows still scroll pages without a player.
+ */
+
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Button } from "~/components/ui/button";
+import { Keyboard, X } from "lucide-react";
+import { useShortcutStore } from "~/lib/store/shortcut-store";
+import { useShortcut } from "~/lib/hooks/use-shortcut";
+import {
+  SHORTCUT_ACTIONS,
+  formatShortcutKey,
+  getShortcutKey,
+  isTypingTarget,
+  runShortcutHandler,
+  type ShortcutAction,
+} from "~/lib/utils/keyboard-shortcuts";
+
+export function KeyboardShortcuts() {
+  const bindings = useShortcutStore((state) => state.bindings);
+  const [isHelpOpen, setIsHelpOpen] = useState(false);
+
+  const closeHelp = useCallback(() => setIsHelpOpen(false), []);
+  useShortcut("showHelp", () => setIsHelpOpen((open) => !open));
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || isTypingTarget(e.target)) return;
+
+      const key = getShortcutKey(e);
+      if (!key) return;
+
+      const action = (Object.keys(bindings) as ShortcutAction[]).find(
+        (candidate) => bindings[candidate] === key,
+      );
+      if (!action) return;
+      // Holding a key only repeats the volume steps
+      if (e.repeat && action !== "volumeUp" && action !== "volumeDown") return;
+
+      if (runShortcutHandler(action)) {
+        e.preventDefault();
+      }
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [bindings]);
+
+  // Close on Escape
+  useEffect(() => {
+    if (!isHelpOpen) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") closeHelp();
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [isHelpOpen, closeHelp]);
+
+  if (!isHelpOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/40" onClick={closeHelp} aria-hidden="true" />
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Keyboard shortcuts"
+        className="relative w-full max-w-md rounded-2xl border bg-background p-6 shadow-2xl"
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="flex items-center gap-2 text-lg font-semibold">
+            <Keyboard className="w-5 h-5 text-primary" />
+            Keyboard shortcuts
+          </h2>
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={closeHelp}
+            className="h-9 w-9 rounded-full"
+            aria-label="Close"
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+
+        <dl className="divide-y divide-border/60">
+          {SHORTCUT_ACTIONS.map((action) => (
+            <div key={action.id} className="flex items-center justify-between py-2">
+              <dt className="text-sm">{action.label}</dt>
+              <dd>
+                <kbd className="rounded-md border bg-muted px-2 py-0.5 font-mono text-xs">
+                  {formatShortcutKey(bindings[action.id])}
+                </kbd>
+              </dd>
+            </div>
+          ))}
+        </dl>
+
+        <p className="mt-4 text-xs text-muted-foreground">
+          Shortcuts are off while typing in a field.{" "}
+          <Link
+            href="/settings"
+            onClick={closeHelp}
+            className="text-primary hover:underline underline-offset-4"
+          >
+            Change them in Settings
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
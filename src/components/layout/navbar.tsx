@@ -5,7 +5,7 @@ import Link from "next/link";
 import { useRouter, usePathname } from "next/navigation";
 import { Button } from "~/components/ui/button";
 import { ThemeToggle } from "~/components/ui/theme-toggle";
-import { Radio } from "lucide-react";
+import { Radio, Settings } from "lucide-react";
 import { useAuthStore } from "~/lib/store/auth-store";
 import { authApi } from "~/lib/api/auth.api";
 import type { UserProfileResponse } from "~/lib/types/api.types";
@@ -71,13 +71,35 @@ export function Navbar() {
             <Link href="/search" className={getLinkClassName("/search")}>
               Search
             </Link>
+            <Link href="/browse" className={getLinkClassName("/browse")}>
+              Browse
+            </Link>
+            <Link href="/map" className={getLinkClassName("/map")}>
+              Map
+            </Link>
             <Link href="/favorites" className={getLinkClassName("/favorites")}>
               Favorites
             </Link>
+            <Link href="/history" className={getLinkClassName("/history")}>
+              History
+            </Link>
+            <Link href="/recordings" className={getLinkClassName("/recordings")}>
+              Recordings
+            </Link>
           </nav>
         </div>
         <div className="flex items-center gap-3">
           <ThemeToggle />
+          <Button
+            variant="ghost"
+            size="icon"
+            asChild
+            className={`h-9 w-9 ${isActive("/settings") ? "text-primary bg-primary/10" : ""}`}
+          >
+            <Link href="/settings" aria-label="Settings" title="Settings">
+              <Settings className="h-4 w-4" />
+            </Link>
+          </Button>
           <Link
             href="/profile"
             className="flex items-center gap-2 hover:opacity-80 transition-opacity group"
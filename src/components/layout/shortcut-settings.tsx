@@ -0,0 +1,88 @@
+/**
+ * Shortcut Settings Component
+ *
+ * Keyboard shortcut list shown on the settings page, where each
+ * action can be bound to a different key.
+ *
+ * SOLID: Single Responsibility - Only handles shortcut remapping UI
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "~/components/ui/button";
+import { Keyboard } from "lucide-react";
+import { useShortcutStore } from "~/lib/store/shortcut-store";
+import {
+  SHORTCUT_ACTIONS,
+  formatShortcutKey,
+  getShortcutKey,
+  type ShortcutAction,
+} from "~/lib/utils/keyboard-shortcuts";
+
+const MODIFIER_KEYS = ["Shift", "Control", "Alt", "Meta", "CapsLock"];
+
+export function ShortcutSettings() {
+  const { bindings, setBinding, resetBindings } = useShortcutStore();
+  const [editing, setEditing] = useState<ShortcutAction | null>(null);
+
+  // Capture the next key press for the action being edited
+  useEffect(() => {
+    if (!editing) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (MODIFIER_KEYS.includes(e.key)) return;
+
+      // Keep the key away from the page and the shortcut listener
+      e.preventDefault();
+      e.stopPropagation();
+
+      if (e.key !== "Escape") {
+        const key = getShortcutKey(e);
+        if (!key) return;
+        setBinding(editing, key);
+      }
+      setEditing(null);
+    };
+
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => window.removeEventListener("keydown", handleKeyDown, true);
+  }, [editing, setBinding]);
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <Keyboard className="w-5 h-5 text-primary" />
+          <h2 className="text-xl font-semibold">Keyboard shortcuts</h2>
+        </div>
+        <Button size="sm" variant="ghost" onClick={resetBindings}>
+          Reset to defaults
+        </Button>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Click a key to change it, then press the new key. Escape cancels. A key already in use
+        swaps with the old one.
+      </p>
+
+      <div className="divide-y rounded-lg border">
+        {SHORTCUT_ACTIONS.map((action) => (
+          <div key={action.id} className="flex items-center justify-between gap-4 px-4 py-3">
+            <span className="text-sm font-medium">{action.label}</span>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setEditing(editing === action.id ? null : action.id)}
+              className="min-w-24 font-mono"
+              aria-label={`Change the key for ${action.label}`}
+              aria-pressed={editing === action.id}
+            >
+              {editing === action.id ? "Press a key…" : formatShortcutKey(bindings[action.id])}
+            </Button>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,52 @@
+/**
+ * Toaster Component
+ *
+ * Renders the toast queue above the player.
+ *
+ * SOLID: Single Responsibility - Only displays toasts
+ */
+
+"use client";
+
+import { Button } from "~/components/ui/button";
+import { AlertCircle, Info, X } from "lucide-react";
+import { useToastStore } from "~/lib/store/toast-store";
+
+export function Toaster() {
+  const { toasts, dismissToast } = useToastStore();
+
+  if (toasts.length === 0) return null;
+
+  return (
+    <div
+      className="fixed bottom-28 left-1/2 -translate-x-1/2 z-[70] flex w-full max-w-md flex-col gap-2 px-4"
+      role="status"
+      aria-live="polite"
+    >
+      {toasts.map((toast) => (
+        <div
+          key={toast.id}
+          className={`flex items-start gap-3 rounded-lg border p-3 shadow-lg bg-popover ${
+            toast.variant === "error" ? "border-destructive/30" : "border-border"
+          }`}
+        >
+          {toast.variant === "error" ? (
+            <AlertCircle className="h-5 w-5 flex-shrink-0 text-destructive" />
+          ) : (
+            <Info className="h-5 w-5 flex-shrink-0 text-primary" />
+          )}
+          <p className="flex-1 text-sm text-foreground">{toast.message}</p>
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={() => dismissToast(toast.id)}
+            className="h-6 w-6 rounded-full"
+            aria-label="Dismiss"
+          >
+            <X className="w-3.5 h-3.5" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
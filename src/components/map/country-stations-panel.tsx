@@ -0,0 +1,156 @@
+/**
+ * Country Stations Panel Component
+ *
+ * Slide-over panel listing the stations of the country selected on the
+ * station map, playable in the player, with the country's station total.
+ *
+ * SOLID: Single Responsibility - Only handles a country's station list
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "~/components/ui/button";
+import Skeleton from "~/components/ui/skeleton";
+import { StationCard } from "~/components/stations/station-card";
+import { X } from "lucide-react";
+import type { RadioStation } from "~/lib/types/api.types";
+import { stationsApi } from "~/lib/api/stations.api";
+import { usePlayerStore } from "~/lib/store/player-store";
+import { extractErrorMessage } from "~/lib/utils/error-handler";
+import { getCountryFlag } from "~/lib/utils/browse-directory";
+
+const PANEL_PAGE_SIZE = 30;
+
+export interface MapCountry {
+  countryCode: string;
+  /**
+   * Display name, from the map
+   */
+  name: string;
+  /**
+   * Name the station directory uses, for searching
+   */
+  searchName: string;
+}
+
+interface CountryStationsPanelProps {
+  country: MapCountry | null;
+  onClose: () => void;
+}
+
+export function CountryStationsPanel({ country, onClose }: CountryStationsPanelProps) {
+  const { setCurrentStation, setStations, showPlayer } = usePlayerStore();
+  const [stations, setStationList] = useState<RadioStation[]>([]);
+  const [totalStations, setTotalStations] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Close on Escape
+  useEffect(() => {
+    if (!country) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [country, onClose]);
+
+  useEffect(() => {
+    if (!country) return;
+
+    let cancelled = false;
+    setStationList([]);
+    setTotalStations(null);
+    setError(null);
+    setIsLoading(true);
+
+    stationsApi
+      .search({ country: country.searchName, size: PANEL_PAGE_SIZE })
+      .then((result) => {
+        if (cancelled) return;
+        setTotalStations(result.totalElements);
+        // The search matches names loosely, so keep only this country's stations
+        setStationList(
+          result.content.filter(
+            (station) => station.countryCode?.toUpperCase() === country.countryCode,
+          ),
+        );
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(extractErrorMessage(err));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [country]);
+
+  if (!country) return null;
+
+  const handleStationClick = (station: RadioStation) => {
+    // Set stations list for navigation
+    setStations(stations);
+    setCurrentStation(station);
+    showPlayer();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60]">
+      <div className="absolute inset-0 bg-black/40" onClick={onClose} aria-hidden="true" />
+      <aside
+        role="dialog"
+        aria-modal="true"
+        aria-label={`Stations in ${country.name}`}
+        className="absolute right-0 top-0 bottom-0 w-full max-w-md bg-background border-l shadow-2xl flex flex-col"
+      >
+        <div className="flex items-center justify-between px-5 h-14 border-b">
+          <div className="min-w-0">
+            <h2 className="text-lg font-semibold truncate">
+              <span className="mr-2">{getCountryFlag(country.countryCode)}</span>
+              {country.name}
+            </h2>
+            {totalStations !== null && (
+              <p className="text-xs text-muted-foreground">
+                {totalStations.toLocaleString("en")} {totalStations === 1 ? "station" : "stations"}
+              </p>
+            )}
+          </div>
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={onClose}
+            className="h-9 w-9 rounded-full"
+            aria-label="Close"
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+        <div className="flex-1 overflow-y-auto px-5 py-4">
+          {isLoading ? (
+            <Skeleton count={5} height={72} borderRadius="0.75rem" className="mb-3" />
+          ) : error ? (
+            <p className="text-sm text-destructive">{error}</p>
+          ) : stations.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No stations found in {country.name}.</p>
+          ) : (
+            <div className="space-y-3">
+              {stations.map((station) => (
+                <StationCard
+                  key={station.stationUuid ?? station.id}
+                  station={station}
+                  onClick={() => handleStationClick(station)}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+/**
+ * Station Map Component
+ *
+ * World map with each country shaded by how many stations it has.
+ * Clicking a country (or Enter on a focused one) selects it.
+ *
+ * SOLID: Single Responsibility - Only renders the country map
+ *
+ * Drawn as SVG from the bundled geometry, so it works offline and
+ * without a tile server. Shades use a log scale, so a few countries
+ * with thousands of stations don't wash out the rest.
+ */
+
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Skeleton from "~/components/ui/skeleton";
+import {
+  loadWorldCountries,
+  WORLD_MAP_HEIGHT,
+  WORLD_MAP_WIDTH,
+  type WorldCountry,
+} from "~/lib/utils/world-map";
+import type { CountryStationCounts } from "~/lib/utils/country-station-counts";
+
+interface StationMapProps {
+  counts: CountryStationCounts;
+  selectedCountryCode: string | null;
+  onSelectCountry: (country: WorldCountry) => void;
+}
+
+function getCountryFill(count: number, maxCount: number): string {
+  if (count === 0 || maxCount === 0) return "var(--muted)";
+  const share = Math.log(count + 1) / Math.log(maxCount + 1);
+  return `color-mix(in oklch, var(--primary) ${Math.round(20 + share * 80)}%, var(--muted))`;
+}
+
+export function StationMap({ counts, selectedCountryCode, onSelectCountry }: StationMapProps) {
+  const [countries, setCountries] = useState<WorldCountry[] | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadWorldCountries()
+      .then((loaded) => {
+        if (!cancelled) setCountries(loaded);
+      })
+      .catch((error: unknown) => {
+        console.error("Error loading world map:", error);
+        if (!cancelled) setLoadFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const maxCount = useMemo(
+    () => Math.max(0, ...Object.values(counts)),
+    [counts],
+  );
+
+  if (loadFailed) {
+    return (
+      <div className="aspect-[96/50] flex items-center justify-center rounded-2xl border text-sm text-muted-foreground">
+        The map could not be loaded.
+      </div>
+    );
+  }
+
+  if (!countries) {
+    return (
+      <div className="aspect-[96/50]">
+        <Skeleton height="100%" borderRadius="1rem" containerClassName="block h-full" />
+      </div>
+    );
+  }
+
+  return (
+    <svg
+      viewBox={`0 0 ${WORLD_MAP_WIDTH} ${WORLD_MAP_HEIGHT}`}
+      className="w-full h-auto"
+      role="group"
+      aria-label="World map of radio stations"
+    >
+      {countries.map((country, index) => {
+        const count = country.countryCode ? (counts[country.countryCode] ?? 0) : 0;
+        const isSelected = !!country.countryCode && country.countryCode === selectedCountryCode;
+        const label = `${country.name}: ${count.toLocaleString("en")} ${
+          count === 1 ? "station" : "stations"
+        }`;
+
+        return (
+          <path
+            key={country.countryCode ?? `${country.name}-${index}`}
+            d={country.path}
+            fill={getCountryFill(count, maxCount)}
+            stroke={isSelected ? "var(--foreground)" : "var(--background)"}
+            strokeWidth={isSelected ? 1.5 : 0.5}
+            className="cursor-pointer transition-opacity hover:opacity-80 focus:outline-none focus-visible:opacity-80"
+            tabIndex={country.countryCode ? 0 : -1}
+            role="button"
+            aria-label={label}
+            aria-pressed={isSelected}
+            onClick={() => onSelectCountry(country)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" || e.key === " ") {
+                e.preventDefault();
+                onSelectCountry(country);
+              }
+            }}
+          >
+            <title>{label}</title>
+          </path>
+        );
+      })}
+    </svg>
+  );
+}
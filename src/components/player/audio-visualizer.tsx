@@ -0,0 +1,103 @@
+/**
+ * Audio Visualizer Component
+ *
+ * Live spectrum canvas driven by the audio graph's analyser.
+ * Renders the fallback instead when analysis isn't possible
+ * (plain playback) or the user prefers reduced motion.
+ *
+ * SOLID: Single Responsibility - Only runs the visualizer animation loop
+ */
+
+"use client";
+
+import { useEffect, useRef, type ReactNode } from "react";
+import { audioGraph } from "~/lib/audio/audio-graph";
+import { drawVisualizerFrame, type VisualizerMode } from "~/lib/audio/visualizer";
+import { useReducedMotion } from "~/lib/hooks/use-reduced-motion";
+
+interface AudioVisualizerProps {
+  mode: VisualizerMode;
+  isPlaying: boolean;
+  /**
+   * False when the stream plays without Web Audio
+   */
+  isAvailable: boolean;
+  fallback: ReactNode;
+  /**
+   * Classes for the canvas; its text color is used as the drawing color
+   */
+  className?: string;
+}
+
+export function AudioVisualizer({
+  mode,
+  isPlaying,
+  isAvailable,
+  fallback,
+  className = "",
+}: AudioVisualizerProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const prefersReducedMotion = useReducedMotion();
+  const isEnabled = isAvailable && !prefersReducedMotion;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx || !isEnabled) return;
+
+    let frameId: number | null = null;
+
+    const draw = () => {
+      // Match the canvas resolution to its displayed size
+      const dpr = window.devicePixelRatio || 1;
+      const width = Math.round(canvas.clientWidth * dpr);
+      const height = Math.round(canvas.clientHeight * dpr);
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+
+      const analyser = audioGraph.getAnalyser();
+      if (analyser) {
+        drawVisualizerFrame(ctx, analyser, mode, getComputedStyle(canvas).color);
+      }
+      frameId = requestAnimationFrame(draw);
+    };
+
+    const start = () => {
+      frameId ??= requestAnimationFrame(draw);
+    };
+
+    const stop = () => {
+      if (frameId !== null) cancelAnimationFrame(frameId);
+      frameId = null;
+    };
+
+    // No point analysing audio nobody can see
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        stop();
+      } else if (isPlaying) {
+        start();
+      }
+    };
+
+    if (isPlaying && !document.hidden) {
+      start();
+    } else {
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+    }
+
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => {
+      stop();
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    };
+  }, [mode, isPlaying, isEnabled]);
+
+  if (!isEnabled) {
+    return <>{fallback}</>;
+  }
+
+  return <canvas ref={canvasRef} className={className} aria-hidden="true" />;
+}
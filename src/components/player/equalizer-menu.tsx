@@ -0,0 +1,136 @@
+/**
+ * Equalizer Menu Component
+ *
+ * 10-band graphic equalizer with presets, opened from the player.
+ * Settings apply to all stations unless saved for the current one.
+ *
+ * SOLID: Single Responsibility - Only handles equalizer controls
+ */
+
+"use client";
+
+import { useState, useRef, useEffect } from "react";
+import { Button } from "~/components/ui/button";
+import { SlidersHorizontal } from "lucide-react";
+import { useEqualizer } from "~/lib/hooks/use-equalizer";
+import {
+  EQ_BAND_FREQUENCIES,
+  EQ_MAX_GAIN_DB,
+  EQ_MIN_GAIN_DB,
+  EQ_PRESETS,
+  formatBandFrequency,
+} from "~/lib/audio/equalizer";
+
+interface EqualizerMenuProps {
+  stationUuid: string;
+  /**
+   * False when the stream plays without Web Audio (e.g. no CORS headers)
+   */
+  isAvailable: boolean;
+}
+
+export function EqualizerMenu({ stationUuid, isAvailable }: EqualizerMenuProps) {
+  const { setting, isStationOverride, applyPreset, setBandGain, setStationOverride } =
+    useEqualizer(stationUuid);
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [isOpen]);
+
+  const isActive = isAvailable && setting.presetId !== "flat";
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <Button
+        size="icon"
+        variant="ghost"
+        onClick={() => setIsOpen((prev) => !prev)}
+        className={`h-9 w-9 rounded-full hover:bg-accent transition-all hover:scale-110 ${
+          isActive ? "text-primary" : ""
+        }`}
+        title="Equalizer"
+        aria-label="Equalizer"
+        aria-expanded={isOpen}
+      >
+        <SlidersHorizontal className="w-4 h-4" />
+      </Button>
+
+      {isOpen && (
+        <div className="absolute bottom-full right-0 mb-2 w-80 bg-popover border border-border rounded-lg p-3 shadow-lg space-y-3">
+          <span className="block text-sm font-medium text-foreground">Equalizer</span>
+
+          {!isAvailable ? (
+            <p className="text-xs text-muted-foreground">
+              This station&apos;s stream doesn&apos;t allow audio processing, so it plays
+              without the equalizer.
+            </p>
+          ) : (
+            <>
+              <div className="flex flex-wrap gap-2">
+                {EQ_PRESETS.map((preset) => (
+                  <Button
+                    key={preset.id}
+                    variant={setting.presetId === preset.id ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => applyPreset(preset.id)}
+                    className="h-7 px-2 text-xs"
+                  >
+                    {preset.name}
+                  </Button>
+                ))}
+              </div>
+
+              <div className="flex justify-between">
+                {EQ_BAND_FREQUENCIES.map((frequency, index) => (
+                  <div key={frequency} className="flex flex-col items-center gap-1">
+                    <span className="text-[10px] text-muted-foreground tabular-nums">
+                      {(setting.gains[index] ?? 0) > 0 ? "+" : ""}
+                      {setting.gains[index] ?? 0}
+                    </span>
+                    <div className="relative h-24 w-6 flex items-center justify-center">
+                      <input
+                        type="range"
+                        min={EQ_MIN_GAIN_DB}
+                        max={EQ_MAX_GAIN_DB}
+                        step="1"
+                        value={setting.gains[index] ?? 0}
+                        onChange={(e) => setBandGain(index, parseInt(e.target.value, 10))}
+                        className="absolute w-24 h-2 -rotate-90 cursor-pointer"
+                        style={{ accentColor: "#000000" }}
+                        aria-label={`${formatBandFrequency(frequency)} Hz`}
+                      />
+                    </div>
+                    <span className="text-[10px] text-muted-foreground">
+                      {formatBandFrequency(frequency)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+
+              <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                <input
+                  type="checkbox"
+                  checked={isStationOverride}
+                  onChange={(e) => setStationOverride(e.target.checked)}
+                />
+                Save for this station only
+              </label>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+/**
+ * Now Playing View Component
+ *
+ * Fullscreen view of the current station: artwork, live track
+ * metadata and a large visualizer, opened from the player.
+ *
+ * SOLID: Single Responsibility - Only handles the fullscreen now playing layout
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "~/components/ui/button";
+import { AudioVisualizer } from "./audio-visualizer";
+import { Minimize2, Music, Pause, Play, Waves } from "lucide-react";
+import type { RadioStation } from "~/lib/types/api.types";
+import type { TrackMetadata } from "~/lib/types/stream.types";
+import { useAudioSettingsStore } from "~/lib/store/audio-settings-store";
+import { VISUALIZER_MODES } from "~/lib/audio/visualizer";
+
+interface NowPlayingViewProps {
+  isOpen: boolean;
+  onClose: () => void;
+  station: RadioStation;
+  nowPlaying: TrackMetadata | null;
+  isPlaying: boolean;
+  isLoading: boolean;
+  isVisualizerAvailable: boolean;
+  onTogglePlayPause: () => void;
+}
+
+export function NowPlayingView({
+  isOpen,
+  onClose,
+  station,
+  nowPlaying,
+  isPlaying,
+  isLoading,
+  isVisualizerAvailable,
+  onTogglePlayPause,
+}: NowPlayingViewProps) {
+  const { visualizerMode, setVisualizerMode } = useAudioSettingsStore();
+  const [imageError, setImageError] = useState(false);
+
+  useEffect(() => {
+    setImageError(false);
+  }, [station.favicon]);
+
+  // Close on Escape
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="Now playing"
+      className="fixed inset-0 z-[60] flex flex-col bg-background"
+    >
+      <div className="flex items-center justify-between px-6 h-16">
+        <div className="flex items-center gap-1 rounded-full bg-muted/50 p-1">
+          {VISUALIZER_MODES.map((mode) => (
+            <Button
+              key={mode.id}
+              size="sm"
+              variant={visualizerMode === mode.id ? "default" : "ghost"}
+              onClick={() => setVisualizerMode(mode.id)}
+              disabled={!isVisualizerAvailable}
+              className="h-7 rounded-full px-3 text-xs"
+            >
+              {mode.name}
+            </Button>
+          ))}
+        </div>
+        <Button
+          size="icon"
+          variant="ghost"
+          onClick={onClose}
+          className="h-10 w-10 rounded-full"
+          aria-label="Exit fullscreen"
+          title="Exit fullscreen"
+        >
+          <Minimize2 className="w-5 h-5" />
+        </Button>
+      </div>
+
+      <div className="flex flex-1 flex-col items-center justify-center gap-8 px-6 pb-12 min-h-0">
+        <div className="h-40 w-40 md:h-56 md:w-56 flex-shrink-0 rounded-2xl overflow-hidden bg-muted shadow-2xl ring-4 ring-primary/20">
+          {station.favicon && !imageError ? (
+            <img
+              src={station.favicon}
+              alt={station.name}
+              className="h-full w-full object-cover"
+              onError={() => setImageError(true)}
+            />
+          ) : (
+            <div className="w-full h-full bg-gradient-to-br from-primary/20 via-primary/10 to-accent/20 flex items-center justify-center">
+              <Waves className="w-16 h-16 text-primary" />
+            </div>
+          )}
+        </div>
+
+        <div className="text-center max-w-2xl min-w-0">
+          <h2 className="text-3xl md:text-4xl font-semibold tracking-tight truncate">
+            {station.name}
+          </h2>
+          {nowPlaying && (
+            <p className="mt-3 flex items-center justify-center gap-2 text-lg text-foreground/80">
+              <Music className="h-4 w-4 flex-shrink-0 text-primary" />
+              <span className="truncate">
+                {nowPlaying.artist ? `${nowPlaying.artist} – ${nowPlaying.title}` : nowPlaying.title}
+              </span>
+            </p>
+          )}
+          <p className="mt-1 text-sm text-muted-foreground truncate">
+            {[station.country, station.language].filter(Boolean).join(" · ") || "Radio Station"}
+          </p>
+        </div>
+
+        <div className="w-full max-w-3xl h-40 md:h-56">
+          <AudioVisualizer
+            mode={visualizerMode}
+            isPlaying={isPlaying}
+            isAvailable={isVisualizerAvailable}
+            className="h-full w-full text-primary"
+            fallback={
+              <p className="flex h-full items-center justify-center text-sm text-muted-foreground">
+                {isVisualizerAvailable
+                  ? "Visualizer paused to respect your reduced motion setting"
+                  : "Visualizer unavailable for this station's stream"}
+              </p>
+            }
+          />
+        </div>
+
+        <Button
+          size="icon"
+          onClick={onTogglePlayPause}
+          disabled={isLoading}
+          className="h-16 w-16 rounded-full shadow-lg bg-primary hover:bg-primary/90 transition-all hover:scale-110"
+          aria-label={isPlaying ? "Pause" : "Play"}
+        >
+          {isLoading ? (
+            <div className="h-6 w-6 animate-spin rounded-full border-2 border-white border-t-transparent" />
+          ) : isPlaying ? (
+            <Pause className="h-7 w-7 fill-current" />
+          ) : (
+            <Play className="h-7 w-7 fill-current" />
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+/**
+ * Playback Settings Component
+ *
+ * Player preferences shown on the settings page: the crossfade
+ * between stations, reconnecting dropped streams and live time-shift.
+ *
+ * SOLID: Single Responsibility - Only handles playback preference UI
+ */
+
+"use client";
+
+import { Radio } from "lucide-react";
+import { useAudioSettingsStore } from "~/lib/store/audio-settings-store";
+import { CROSSFADE_DURATION_OPTIONS_SEC } from "~/lib/audio/crossfade";
+import { RECONNECT_ATTEMPT_OPTIONS } from "~/lib/utils/reconnect";
+import { TIMESHIFT_WINDOW_SEC } from "~/lib/audio/timeshift-buffer";
+
+export function PlaybackSettings() {
+  const {
+    crossfadeSec,
+    setCrossfadeSec,
+    reconnectAttempts,
+    setReconnectAttempts,
+    timeshiftEnabled,
+    setTimeshiftEnabled,
+  } = useAudioSettingsStore();
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center gap-3">
+        <Radio className="w-5 h-5 text-primary" />
+        <h2 className="text-xl font-semibold">Playback</h2>
+      </div>
+
+      <div className="flex items-center justify-between gap-4 rounded-lg border p-4">
+        <div>
+          <label htmlFor="crossfade-duration" className="text-sm font-medium">
+            Crossfade between stations
+          </label>
+          <p className="text-xs text-muted-foreground">
+            The next station buffers in the background, then fades in over the current one.
+          </p>
+        </div>
+        <select
+          id="crossfade-duration"
+          value={crossfadeSec}
+          onChange={(e) => setCrossfadeSec(parseInt(e.target.value, 10))}
+          className="h-9 rounded-md border border-input bg-transparent px-2 text-sm"
+        >
+          {CROSSFADE_DURATION_OPTIONS_SEC.map((seconds) => (
+            <option key={seconds} value={seconds}>
+              {seconds === 0 ? "Off" : `${seconds} sec`}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center justify-between gap-4 rounded-lg border p-4">
+        <div>
+          <label htmlFor="reconnect-attempts" className="text-sm font-medium">
+            Reconnect attempts
+          </label>
+          <p className="text-xs text-muted-foreground">
+            How many times to reconnect when a stream drops before offering the next station.
+          </p>
+        </div>
+        <select
+          id="reconnect-attempts"
+          value={reconnectAttempts}
+          onChange={(e) => setReconnectAttempts(parseInt(e.target.value, 10))}
+          className="h-9 rounded-md border border-input bg-transparent px-2 text-sm"
+        >
+          {RECONNECT_ATTEMPT_OPTIONS.map((attempts) => (
+            <option key={attempts} value={attempts}>
+              {attempts}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center justify-between gap-4 rounded-lg border p-4">
+        <div>
+          <label htmlFor="timeshift-enabled" className="text-sm font-medium">
+            Pause and rewind live radio
+          </label>
+          <p className="text-xs text-muted-foreground">
+            Keeps the last {TIMESHIFT_WINDOW_SEC / 60} minutes of MP3 and AAC stations in memory,
+            so pausing doesn&apos;t skip ahead. The stream is relayed through the eRadio server
+            to do this. Off by default; applies from the next station you play.
+          </p>
+        </div>
+        <input
+          id="timeshift-enabled"
+          type="checkbox"
+          checked={timeshiftEnabled}
+          onChange={(e) => setTimeshiftEnabled(e.target.checked)}
+          className="h-4 w-4 accent-primary"
+        />
+      </div>
+    </section>
+  );
+}
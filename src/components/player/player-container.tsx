@@ -6,14 +6,25 @@
 
 "use client";
 
+import { useEffect, useState } from "react";
 import { RadioPlayer } from "./radio-player";
 import { usePlayerStore } from "~/lib/store/player-store";
+import { useSleepTimerStore } from "~/lib/store/sleep-timer-store";
+import { useAlarmStore } from "~/lib/store/alarm-store";
 
 export function PlayerContainer() {
   const { currentStation, isPlayerVisible, hidePlayer, setCurrentStation } =
     usePlayerStore();
+  const cancelSleepTimer = useSleepTimerStore((state) => state.cancelTimer);
+  const stopRinging = useAlarmStore((state) => state.stopRinging);
+  const [mounted, setMounted] = useState(false);
 
-  if (!isPlayerVisible || !currentStation) {
+  // The restored station only exists on the client; avoid a hydration mismatch
+  useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  if (!mounted || !isPlayerVisible || !currentStation) {
     return null;
   }
 
@@ -23,6 +34,8 @@ export function PlayerContainer() {
       onClose={() => {
         hidePlayer();
         setCurrentStation(null);
+        cancelSleepTimer();
+        stopRinging();
       }}
     />
   );
@@ -0,0 +1,188 @@
+/**
+ * Queue Drawer Component
+ *
+ * Slide-over panel showing the play queue, opened from the player:
+ * play, reorder and remove items, shuffle and repeat the list.
+ *
+ * SOLID: Single Responsibility - Only handles the queue panel
+ */
+
+"use client";
+
+import { useEffect } from "react";
+import { Button } from "~/components/ui/button";
+import { ChevronDown, ChevronUp, ListOrdered, Repeat, Shuffle, Trash2, X } from "lucide-react";
+import { useQueueStore, type QueueItem } from "~/lib/store/queue-store";
+import { usePlayerStore } from "~/lib/store/player-store";
+
+interface QueueDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function QueueDrawer({ isOpen, onClose }: QueueDrawerProps) {
+  const {
+    items,
+    currentId,
+    shuffle,
+    repeat,
+    removeFromQueue,
+    moveItem,
+    clearQueue,
+    setCurrentItem,
+    toggleShuffle,
+    toggleRepeat,
+  } = useQueueStore();
+  const { currentStation, setCurrentStation } = usePlayerStore();
+
+  // Close on Escape
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  const handlePlay = (item: QueueItem) => {
+    setCurrentItem(item.id);
+    setCurrentStation(item.station);
+  };
+
+  const isPlayingItem = (item: QueueItem) =>
+    item.id === currentId && currentStation?.stationUuid === item.station.stationUuid;
+
+  return (
+    <div className="fixed inset-0 z-[60]">
+      <div className="absolute inset-0 bg-black/40" onClick={onClose} aria-hidden="true" />
+      <aside
+        role="dialog"
+        aria-modal="true"
+        aria-label="Queue"
+        className="absolute right-0 top-0 bottom-0 w-full max-w-md bg-background border-l shadow-2xl flex flex-col"
+      >
+        <div className="flex items-center justify-between px-5 h-14 border-b">
+          <h2 className="text-lg font-semibold">Queue</h2>
+          <div className="flex items-center gap-1">
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={toggleShuffle}
+              className={`h-9 w-9 rounded-full ${shuffle ? "text-primary bg-primary/10" : ""}`}
+              title={`Shuffle: ${shuffle ? "on" : "off"}`}
+              aria-label="Shuffle"
+              aria-pressed={shuffle}
+            >
+              <Shuffle className="w-4 h-4" />
+            </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={toggleRepeat}
+              className={`h-9 w-9 rounded-full ${repeat ? "text-primary bg-primary/10" : ""}`}
+              title={`Repeat queue: ${repeat ? "on" : "off"}`}
+              aria-label="Repeat queue"
+              aria-pressed={repeat}
+            >
+              <Repeat className="w-4 h-4" />
+            </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={clearQueue}
+              disabled={items.length === 0}
+              className="h-9 w-9 rounded-full text-destructive hover:bg-destructive/10"
+              title="Clear queue"
+              aria-label="Clear queue"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={onClose}
+              className="h-9 w-9 rounded-full"
+              aria-label="Close"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4">
+          {items.length === 0 ? (
+            <div className="text-center py-12">
+              <div className="w-16 h-16 bg-muted/30 rounded-full flex items-center justify-center mx-auto mb-4">
+                <ListOrdered className="w-8 h-8 text-muted-foreground" />
+              </div>
+              <p className="text-muted-foreground">
+                Use &quot;Play next&quot; or &quot;Add to queue&quot; on any station to line it up here.
+              </p>
+            </div>
+          ) : (
+            <ol className="divide-y divide-border/60">
+              {items.map((item, index) => (
+                <li key={item.id} className="flex items-center gap-2 py-2">
+                  <button
+                    type="button"
+                    onClick={() => handlePlay(item)}
+                    className="min-w-0 flex-1 rounded-md px-2 py-1 text-left hover:bg-muted/50"
+                  >
+                    <p
+                      className={`text-sm font-medium truncate ${
+                        isPlayingItem(item) ? "text-primary" : ""
+                      }`}
+                    >
+                      {item.station.name}
+                    </p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {isPlayingItem(item)
+                        ? "Now playing"
+                        : [item.station.country, item.station.language]
+                            .filter(Boolean)
+                            .join(" · ") || "Radio Station"}
+                    </p>
+                  </button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => moveItem(item.id, index - 1)}
+                    disabled={index === 0}
+                    className="h-8 w-8 rounded-full"
+                    aria-label={`Move ${item.station.name} up`}
+                  >
+                    <ChevronUp className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => moveItem(item.id, index + 1)}
+                    disabled={index === items.length - 1}
+                    className="h-8 w-8 rounded-full"
+                    aria-label={`Move ${item.station.name} down`}
+                  >
+                    <ChevronDown className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => removeFromQueue(item.id)}
+                    className="h-8 w-8 rounded-full"
+                    aria-label={`Remove ${item.station.name} from the queue`}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+}
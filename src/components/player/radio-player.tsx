@@ -9,12 +9,118 @@
 
 "use client";
 
-import { useState, useRef, useEffect, useCallback } from "react";
+import { useState, useRef, useEffect, useCallback, useMemo } from "react";
 import { Button } from "~/components/ui/button";
 import { FavoriteButton } from "~/components/stations/favorite-button";
-import { Play, Pause, Volume2, VolumeX, X, Waves, SkipBack, SkipForward } from "lucide-react";
+import { SleepTimerMenu } from "./sleep-timer-menu";
+import { TrackHistoryDrawer } from "./track-history-drawer";
+import { QueueDrawer } from "./queue-drawer";
+import { EqualizerMenu } from "./equalizer-menu";
+import { AudioVisualizer } from "./audio-visualizer";
+import { NowPlayingView } from "./now-playing-view";
+import { TimeshiftBar } from "./timeshift-bar";
+import { RecordButton } from "./record-button";
+import { AlarmBanner } from "~/components/alarms/alarm-banner";
+import { Play, Pause, Volume2, VolumeX, X, Waves, SkipBack, SkipForward, Timer, Music, History, ListOrdered, Maximize2, Gauge, RefreshCw, WifiOff } from "lucide-react";
 import type { RadioStation } from "~/lib/types/api.types";
 import { usePlayerStore } from "~/lib/store/player-store";
+import { useSleepTimer } from "~/lib/hooks/use-sleep-timer";
+import { useAlarmRamp } from "~/lib/hooks/use-alarm-ramp";
+import { useMediaSession } from "~/lib/hooks/use-media-session";
+import { useStreamMetadata } from "~/lib/hooks/use-stream-metadata";
+import { useLoudnessNormalization } from "~/lib/hooks/use-loudness-normalization";
+import { useStreamReconnect } from "~/lib/hooks/use-stream-reconnect";
+import { useShortcut } from "~/lib/hooks/use-shortcut";
+import { useAlarmStore } from "~/lib/store/alarm-store";
+import { useTrackHistoryStore } from "~/lib/store/track-history-store";
+import { useQueueStore } from "~/lib/store/queue-store";
+import { useAudioSettingsStore } from "~/lib/store/audio-settings-store";
+import { useToastStore } from "~/lib/store/toast-store";
+import { formatRemaining } from "~/lib/utils/sleep-timer";
+import { isCorsBlocked, markCorsBlocked } from "~/lib/utils/cors-blocked-stations";
+import { clearPlaybackFailures, recordPlaybackFailure } from "~/lib/utils/station-health";
+import {
+  clearCachedStream,
+  getCachedStream,
+  isPlaylistUrl,
+  resolveStream,
+  setCachedStream,
+} from "~/lib/utils/stream-resolver";
+import { audioGraph } from "~/lib/audio/audio-graph";
+import { getCrossfadeGains } from "~/lib/audio/crossfade";
+import { getStreamErrorCode, loadStreamSource, resetStreamSource } from "~/lib/audio/stream-source";
+
+/**
+ * Bundled tone played when a wake-up alarm's station cannot be loaded
+ */
+const ALARM_TONE_URL = "/sounds/alarm-tone.wav";
+
+/**
+ * Outcome of loading a stream: "blocked" means the stream loaded
+ * but the browser refused to start playback without a user gesture
+ */
+type PlayResult = "playing" | "blocked" | "failed";
+
+interface PlayOptions {
+  /**
+   * Element to load into; defaults to the active one
+   */
+  target?: HTMLAudioElement;
+  /**
+   * Only return the outcome instead of showing it in the player
+   * (crossfade pre-buffering)
+   */
+  background?: boolean;
+  /**
+   * The station's HLS flag
+   */
+  hls?: boolean | null;
+  /**
+   * Load through the time-shift buffer when the stream allows it
+   */
+  timeshift?: boolean;
+}
+
+/**
+ * "processed" loads the stream with CORS and routes it through Web Audio
+ * (equalizer). "plain" plays it directly, for streams without CORS headers.
+ */
+type AudioMode = "processed" | "plain";
+
+/**
+ * The player has two audio elements so the next station can buffer
+ * while the current one keeps playing, then crossfade between them
+ */
+type AudioSlot = 0 | 1;
+
+/**
+ * A station being loaded into a slot. With `crossfade`, it loads into
+ * the idle slot and `previousStation` keeps playing until it is ready.
+ */
+interface PendingLoad {
+  stationUuid: string;
+  slot: AudioSlot;
+  crossfade: boolean;
+  previousStation: RadioStation | null;
+}
+
+interface Crossfade {
+  from: HTMLAudioElement;
+  to: HTMLAudioElement;
+  interval: ReturnType<typeof setInterval>;
+}
+
+const CROSSFADE_TICK_MS = 50;
+
+/**
+ * How long a playing stream may buffer before it is treated as dropped
+ */
+const STALL_TIMEOUT_MS = 15000;
+
+/**
+ * Volume change per arrow key press
+ */
+const VOLUME_STEP = 0.05;
 
 interface RadioPlayerProps {
   station: RadioStation | null;
@@ -22,21 +128,77 @@ interface RadioPlayerProps {
 }
 
 export function RadioPlayer({ station, onClose }: RadioPlayerProps) {
-  const audioRef = useRef<HTMLAudioElement>(null);
-  const { stations, setCurrentStation, setIsPlaying: setStoreIsPlaying, isPlaying: storeIsPlaying } = usePlayerStore();
+  const audioElementsRef = useRef<[HTMLAudioElement | null, HTMLAudioElement | null]>([null, null]);
+  const {
+    stations,
+    setCurrentStation,
+    setIsPlaying: setStoreIsPlaying,
+    isPlaying: storeIsPlaying,
+    nowPlaying,
+    volume,
+    setVolume,
+    isMuted,
+    setIsMuted,
+    isResumePending,
+    setIsResumePending,
+  } = usePlayerStore();
   const [isPlaying, setIsPlaying] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [volume, setVolume] = useState(0.7);
-  const [isMuted, setIsMuted] = useState(false);
   const [imageError, setImageError] = useState(false);
   const [showVolumeSlider, setShowVolumeSlider] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showQueue, setShowQueue] = useState(false);
+  const [showNowPlaying, setShowNowPlaying] = useState(false);
+  // The stream URL actually playing, which differs from the station URL for playlists
+  const [playingUrl, setPlayingUrl] = useState<string | null>(null);
+  const [slotModes, setSlotModes] = useState<[AudioMode, AudioMode]>(["processed", "processed"]);
+  const [activeSlot, setActiveSlot] = useState<AudioSlot>(0);
+  // Refs mirror the active slot for event handlers and async callbacks
+  const activeSlotRef = useRef<AudioSlot>(0);
+  const loadedStationRef = useRef<RadioStation | null>(null);
+  const pendingLoadRef = useRef<PendingLoad | null>(null);
+  const crossfadeRef = useRef<Crossfade | null>(null);
+  // Station currently being retried in plain mode after a CORS-mode failure
+  const corsFallbackRef = useRef<string | null>(null);
+  const addHistoryEntry = useTrackHistoryStore((state) => state.addEntry);
+  const queueLength = useQueueStore((state) => state.items.length);
+  const { visualizerMode, normalizationEnabled, setNormalizationEnabled, reconnectAttempts } =
+    useAudioSettingsStore();
+  const { remainingMs: sleepRemainingMs, fadeMultiplier } = useSleepTimer();
+  const { ringing, ringingAlarm, rampMultiplier } = useAlarmRamp();
+  const { stopRinging } = useAlarmStore();
+  const showToast = useToastStore((state) => state.showToast);
+  const elementVolume = isMuted ? 0 : volume * fadeMultiplier * rampMultiplier;
+  const elementVolumeRef = useRef(elementVolume);
+
+  const getAudio = useCallback((slot: AudioSlot) => audioElementsRef.current[slot], []);
+
+  // Stable ref callbacks per slot; stop any HLS session when an element is removed
+  const audioRefCallbacks = useMemo(
+    () =>
+      ([0, 1] as const).map((slot) => (audio: HTMLAudioElement | null) => {
+        audioElementsRef.current[slot] = audio;
+        if (!audio) return;
+        return () => {
+          resetStreamSource(audio);
+          if (audioElementsRef.current[slot] === audio) audioElementsRef.current[slot] = null;
+        };
+      }),
+    [],
+  );
+  const getActiveAudio = useCallback(() => getAudio(activeSlotRef.current), [getAudio]);
+
+  const setSlotMode = useCallback((slot: AudioSlot, mode: AudioMode) => {
+    setSlotModes((modes) => (slot === 0 ? [mode, modes[1]] : [modes[0], mode]));
+  }, []);
 
   // Get error message from audio error
   const getErrorMessage = useCallback((audio: HTMLAudioElement): string => {
-    if (!audio.error) return "Unknown error occurred";
+    const code = getStreamErrorCode(audio);
+    if (code === null) return "Unknown error occurred";
 
-    switch (audio.error.code) {
+    switch (code) {
       case MediaError.MEDIA_ERR_ABORTED:
         return "Playback was aborted. Please try again.";
       case MediaError.MEDIA_ERR_NETWORK:
@@ -52,12 +214,28 @@ export function RadioPlayer({ station, onClose }: RadioPlayerProps) {
 
   // Try to load and play a stream URL
   const tryPlayStream = useCallback(
-    async (url: string): Promise<boolean> => {
-      if (!audioRef.current) return false;
-
-      const audio = audioRef.current;
+    async (
+      url: string,
+      { target, background = false, hls, timeshift }: PlayOptions = {},
+    ): Promise<PlayResult> => {
+      const audio = target ?? getActiveAudio();
+      if (!audio) return "failed";
 
       return new Promise((resolve) => {
+        const settle = (result: PlayResult, message: string | null) => {
+          if (!background) {
+            if (result === "playing") {
+              setIsPlaying(true);
+              setStoreIsPlaying(true);
+            } else if (result === "failed") {
+              setIsPlaying(false);
+            }
+            setIsLoading(false);
+            setError(message);
+          }
+          resolve(result);
+        };
+
         const cleanup = () => {
           audio.removeEventListener("canplay", handleCanPlay);
           audio.removeEventListener("error", handleError);
@@ -66,34 +244,25 @@ export function RadioPlayer({ station, onClose }: RadioPlayerProps) {
         const handleCanPlay = async () => {
           cleanup();
           try {
+            await audioGraph.resume();
             await audio.play();
-            setIsPlaying(true);
-            setStoreIsPlaying(true);
-            setIsLoading(false);
-            setError(null);
-            resolve(true);
+            settle("playing", null);
           } catch (playError: any) {
             console.error("Play error:", playError);
             if (
               playError.name === "NotAllowedError" ||
               playError.name === "NotSupportedError"
             ) {
-              setError("Autoplay blocked. Please click the play button to start.");
-            } else {
-              setError(getErrorMessage(audio));
+              settle("blocked", "Autoplay blocked. Please click the play button to start.");
+              return;
             }
-            setIsLoading(false);
-            resolve(false);
+            settle("failed", getErrorMessage(audio));
           }
         };
 
         const handleError = () => {
           cleanup();
-          const errorMsg = getErrorMessage(audio);
-          setError(errorMsg);
-          setIsLoading(false);
-          setIsPlaying(false);
-          resolve(false);
+          settle("failed", getErrorMessage(audio));
         };
 
         audio.addEventListener("canplay", handleCanPlay, { once: true });
@@ -101,39 +270,218 @@ export function RadioPlayer({ station, onClose }: RadioPlayerProps) {
 
         const loadTimeout = setTimeout(() => {
           cleanup();
-          setError("Stream is taking too long to load. Please try again.");
-          setIsLoading(false);
-          resolve(false);
+          settle("failed", "Stream is taking too long to load. Please try again.");
         }, 15000);
 
-        try {
-          audio.src = url;
-          audio.load();
-          audio.addEventListener("canplay", () => clearTimeout(loadTimeout), { once: true });
-          audio.addEventListener("error", () => clearTimeout(loadTimeout), { once: true });
-        } catch (err) {
+        audio.addEventListener("canplay", () => clearTimeout(loadTimeout), { once: true });
+        audio.addEventListener("error", () => clearTimeout(loadTimeout), { once: true });
+        loadStreamSource(audio, url, { hls, timeshift }).catch((err) => {
+          console.error("Stream load error:", err);
           clearTimeout(loadTimeout);
           cleanup();
-          setError("Failed to load stream URL");
-          setIsLoading(false);
-          resolve(false);
+          settle("failed", "Failed to load stream URL");
+        });
+      });
+    },
+    [getErrorMessage, getActiveAudio, setStoreIsPlaying],
+  );
+
+  // Play a station, resolving playlist files (.pls, .m3u, .asx, .xspf)
+  // to their streams and trying each in turn
+  const playStation = useCallback(
+    async (
+      target: RadioStation,
+      options: Omit<PlayOptions, "hls" | "timeshift"> = {},
+    ): Promise<PlayResult> => {
+      const stationUrl = target.urlResolved || target.url;
+      const tried = new Set<string>();
+      const { timeshiftEnabled: timeshift } = useAudioSettingsStore.getState();
+
+      const tryCandidates = async (urls: string[], hls: boolean | null): Promise<PlayResult> => {
+        let result: PlayResult = "failed";
+        for (const url of urls) {
+          if (tried.has(url)) continue;
+          tried.add(url);
+
+          result = await tryPlayStream(url, { ...options, hls, timeshift });
+          if (result !== "failed") {
+            if (url !== stationUrl) setCachedStream(target.stationUuid, url, hls === true);
+            setPlayingUrl(url);
+            return result;
+          }
         }
+        return result;
+      };
+
+      // The stream that worked last time
+      const cached = getCachedStream(target.stationUuid);
+      if (cached) {
+        const result = await tryCandidates([cached.url], cached.hls || target.hls);
+        if (result !== "failed") return result;
+        clearCachedStream(target.stationUuid);
+      }
+
+      // Playlist files never play directly, so resolve those up front
+      let isResolved = false;
+      if (isPlaylistUrl(stationUrl)) {
+        isResolved = true;
+        const resolved = await resolveStream(stationUrl);
+        if (resolved) {
+          const result = await tryCandidates(resolved.streams, resolved.hls || target.hls);
+          if (result !== "failed") return result;
+        }
+      }
+
+      const result = await tryCandidates([stationUrl], target.hls);
+      if (result !== "failed" || isResolved) return result;
+
+      // An unsupported "stream" may be a playlist without a telling extension
+      const audio = options.target ?? getActiveAudio();
+      if (audio && getStreamErrorCode(audio) === MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED) {
+        const resolved = await resolveStream(stationUrl);
+        if (resolved) return tryCandidates(resolved.streams, resolved.hls || target.hls);
+      }
+      return result;
+    },
+    [tryPlayStream, getActiveAudio],
+  );
+
+  // One reconnect attempt, alternating between the station's URLs for failover
+  const reconnectStream = useCallback(
+    async (attempt: number): Promise<boolean> => {
+      if (!station) return false;
+
+      const urls = Array.from(
+        new Set([playingUrl, station.urlResolved, station.url].filter((url): url is string => Boolean(url))),
+      );
+      const url = urls[(attempt - 1) % urls.length];
+      if (!url) return false;
+
+      setIsLoading(true);
+      const result = await tryPlayStream(url, {
+        hls: station.hls,
+        timeshift: useAudioSettingsStore.getState().timeshiftEnabled,
       });
+      if (result === "failed") return false;
+
+      setPlayingUrl(url);
+      return true;
+    },
+    [station, playingUrl, tryPlayStream],
+  );
+
+  const {
+    status: reconnectStatus,
+    isReconnecting,
+    start: startReconnect,
+    cancel: cancelReconnect,
+  } = useStreamReconnect(reconnectStream, reconnectAttempts);
+
+  // After giving up, picking the station again should load it from scratch
+  useEffect(() => {
+    if (reconnectStatus.state === "failed") loadedStationRef.current = null;
+  }, [reconnectStatus.state]);
+
+  // Report the stream outcome to a ringing wake-up alarm.
+  // If the station fails, fall back to the bundled alarm tone.
+  const handleAlarmPlayback = useCallback(
+    async (result: PlayResult) => {
+      const { ringing: currentRinging, updateRinging } = useAlarmStore.getState();
+      if (!currentRinging || result === "playing") return;
+
+      if (result === "blocked") {
+        updateRinging({ autoplayBlocked: true });
+        return;
+      }
+
+      const audio = getActiveAudio();
+      if (currentRinging.usingFallbackTone || !audio) return;
+
+      updateRinging({ usingFallbackTone: true });
+      setPlayingUrl(null);
+      audio.loop = true;
+      setError(null);
+      setIsLoading(true);
+      await handleAlarmPlayback(await tryPlayStream(ALARM_TONE_URL));
+    },
+    [tryPlayStream, getActiveAudio],
+  );
+
+  // Mark playback as started, also for elements whose events aren't observed yet
+  const handlePlaybackStarted = useCallback(() => {
+    setIsPlaying(true);
+    setStoreIsPlaying(true);
+
+    // Start the wake-up volume ramp from the moment audio is actually heard
+    const { ringing: currentRinging, updateRinging } = useAlarmStore.getState();
+    if (currentRinging?.playbackStartedAt === null) {
+      updateRinging({ playbackStartedAt: Date.now(), autoplayBlocked: false });
+    }
+  }, [setStoreIsPlaying]);
+
+  // Settle a running crossfade: stop the old element, full volume on the new one
+  const finishCrossfade = useCallback(() => {
+    const crossfade = crossfadeRef.current;
+    if (!crossfade) return;
+
+    clearInterval(crossfade.interval);
+    crossfade.from.pause();
+    resetStreamSource(crossfade.from);
+    crossfade.to.volume = elementVolumeRef.current;
+    crossfadeRef.current = null;
+  }, []);
+
+  // Make `slot` the active element and fade it in over the current one
+  const startCrossfade = useCallback(
+    (slot: AudioSlot) => {
+      const from = getActiveAudio();
+      const to = getAudio(slot);
+      if (!from || !to) return;
+
+      activeSlotRef.current = slot;
+      setActiveSlot(slot);
+
+      const durationMs = useAudioSettingsStore.getState().crossfadeSec * 1000;
+      const startedAt = Date.now();
+      const tick = () => {
+        const progress = durationMs > 0 ? (Date.now() - startedAt) / durationMs : 1;
+        const { fadeOut, fadeIn } = getCrossfadeGains(progress);
+        from.volume = elementVolumeRef.current * fadeOut;
+        to.volume = elementVolumeRef.current * fadeIn;
+        if (fadeIn >= 1) finishCrossfade();
+      };
+
+      crossfadeRef.current = { from, to, interval: setInterval(tick, CROSSFADE_TICK_MS) };
     },
-    [getErrorMessage],
+    [getAudio, getActiveAudio, finishCrossfade],
   );
 
+  // Don't leave a fade running after the player closes
+  useEffect(() => finishCrossfade, [finishCrossfade]);
+
   // Reset image error when station changes
   useEffect(() => {
     setImageError(false);
   }, [station?.favicon]);
 
+  // Route the elements through Web Audio, unless their stream plays without CORS
+  useEffect(() => {
+    const elements = ([0, 1] as const)
+      .filter((slot) => slotModes[slot] === "processed")
+      .map(getAudio)
+      .filter((audio): audio is HTMLAudioElement => audio !== null);
+
+    elements.forEach((audio) => audioGraph.attach(audio));
+    return () => elements.forEach((audio) => audioGraph.detach(audio));
+  }, [slotModes, getAudio]);
+
   // Update audio source when station changes
   useEffect(() => {
-    if (!station || !audioRef.current) {
-      if (audioRef.current) {
-        audioRef.current.pause();
-        audioRef.current.src = "";
+    if (!station) {
+      const audio = getActiveAudio();
+      if (audio) {
+        audio.pause();
+        resetStreamSource(audio);
         setIsPlaying(false);
         setStoreIsPlaying(false);
       }
@@ -147,31 +495,178 @@ export function RadioPlayer({ station, onClose }: RadioPlayerProps) {
       return;
     }
 
+    const stationUuid = station.stationUuid;
+
+    // Restored after a reload: load nothing until the user presses play
+    if (isResumePending) return;
+
+    // Already playing, e.g. after going back from a station that failed to load
+    if (!pendingLoadRef.current && loadedStationRef.current?.stationUuid === stationUuid) {
+      return;
+    }
+    cancelReconnect();
+
+    // Crossfade from the current station if it is playing, otherwise cut over
+    let load = pendingLoadRef.current;
+    if (load?.stationUuid !== stationUuid) {
+      finishCrossfade();
+      const current = getActiveAudio();
+      const crossfade =
+        useAudioSettingsStore.getState().crossfadeSec > 0 &&
+        loadedStationRef.current !== null &&
+        current !== null &&
+        !current.paused;
+      load = {
+        stationUuid,
+        slot: crossfade ? (activeSlotRef.current === 0 ? 1 : 0) : activeSlotRef.current,
+        crossfade,
+        previousStation: crossfade ? loadedStationRef.current : null,
+      };
+      pendingLoadRef.current = load;
+    }
+
+    // Switch elements first; this effect runs again once the new one is mounted
+    const requiredMode: AudioMode =
+      isCorsBlocked(stationUuid) || corsFallbackRef.current === stationUuid ? "plain" : "processed";
+    if (requiredMode !== slotModes[load.slot]) {
+      setSlotMode(load.slot, requiredMode);
+      return;
+    }
+
+    const audio = getAudio(load.slot);
+    if (!audio) return;
+
     setError(null);
     setIsLoading(true);
-    setIsPlaying(false);
-    setStoreIsPlaying(false);
+    if (!load.crossfade) {
+      setIsPlaying(false);
+      setStoreIsPlaying(false);
+      loadedStationRef.current = null;
+    }
 
-    const audio = audioRef.current;
     audio.pause();
     audio.src = "";
+    audio.loop = false;
+    if (load.crossfade) audio.volume = 0;
+
+    const { slot, crossfade, previousStation } = load;
+    let cancelled = false;
+    playStation(station, { target: audio, background: crossfade })
+      .then((result) => {
+        if (cancelled) return;
+
+        // The stream may just lack CORS headers: retry it as plain playback
+        if (slotModes[slot] === "processed" && result === "failed" && audio.error) {
+          corsFallbackRef.current = stationUuid;
+          setError(null);
+          setIsLoading(true);
+          setSlotMode(slot, "plain");
+          return;
+        }
+
+        if (corsFallbackRef.current === stationUuid && result !== "failed") {
+          markCorsBlocked(stationUuid);
+        }
+        if (result === "failed") recordPlaybackFailure(stationUuid);
+        if (result === "playing") clearPlaybackFailures(stationUuid);
+        pendingLoadRef.current = null;
+
+        if (!crossfade) {
+          if (result !== "failed") loadedStationRef.current = station;
+          return handleAlarmPlayback(result);
+        }
+
+        setIsLoading(false);
+        if (result === "playing") {
+          loadedStationRef.current = station;
+          startCrossfade(slot);
+          handlePlaybackStarted();
+          return;
+        }
+
+        // Keep the current station playing and go back to it
+        const reason =
+          getStreamErrorCode(audio) !== null
+            ? getErrorMessage(audio)
+            : "The stream is taking too long to load.";
+        resetStreamSource(audio);
+        showToast(`Couldn't switch to ${station.name}. ${reason}`, "error");
+        handlePlaybackStarted();
+        if (previousStation) setCurrentStation(previousStation);
+      })
+      .catch((err) => {
+        console.error("Stream play error:", err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    station,
+    slotModes,
+    getAudio,
+    getActiveAudio,
+    setSlotMode,
+    playStation,
+    handleAlarmPlayback,
+    handlePlaybackStarted,
+    finishCrossfade,
+    startCrossfade,
+    getErrorMessage,
+    showToast,
+    setCurrentStation,
+    setStoreIsPlaying,
+    cancelReconnect,
+    isResumePending,
+  ]);
+
+  // Retry function
+  const handleRetry = useCallback(async () => {
+    if (!station || !getActiveAudio()) return;
+
+    const streamUrl = station.urlResolved || station.url;
+    if (!streamUrl) return;
 
-    tryPlayStream(streamUrl).catch((err) => {
-      console.error("Stream play error:", err);
-    });
-  }, [station, tryPlayStream, setStoreIsPlaying]);
+    cancelReconnect();
+    setError(null);
+    setIsLoading(true);
+    if ((await playStation(station)) !== "failed") {
+      loadedStationRef.current = station;
+    }
+  }, [station, playStation, getActiveAudio, cancelReconnect]);
 
   // Handle play/pause
   const togglePlayPause = useCallback(() => {
-    if (!audioRef.current) return;
+    // Resuming a restored station: the station effect loads and plays it
+    if (isResumePending) {
+      setIsResumePending(false);
+      return;
+    }
+
+    // While reconnecting or after giving up, play means "try again now"
+    if (reconnectStatus.state !== "idle") {
+      void handleRetry();
+      return;
+    }
+
+    finishCrossfade();
+    const audio = getActiveAudio();
+    if (!audio) return;
+
+    // The time-shift buffer was dropped after a long pause: start again from live
+    if (!isPlaying && audio.networkState === HTMLMediaElement.NETWORK_EMPTY) {
+      void handleRetry();
+      return;
+    }
 
     if (isPlaying) {
-      audioRef.current.pause();
+      audio.pause();
       setIsPlaying(false);
       setStoreIsPlaying(false);
     } else {
-      audioRef.current
-        .play()
+      audioGraph
+        .resume()
+        .then(() => audio.play())
         .then(() => {
           setIsPlaying(true);
           setStoreIsPlaying(true);
@@ -181,43 +676,78 @@ export function RadioPlayer({ station, onClose }: RadioPlayerProps) {
           setError("Failed to play audio");
         });
     }
-  }, [isPlaying, setStoreIsPlaying]);
+  }, [
+    isPlaying,
+    setStoreIsPlaying,
+    finishCrossfade,
+    getActiveAudio,
+    reconnectStatus.state,
+    handleRetry,
+    isResumePending,
+    setIsResumePending,
+  ]);
+
+  // Keep the element volume in sync with volume, mute and the sleep timer fade.
+  // While crossfading, the fade applies it to both elements.
+  useEffect(() => {
+    elementVolumeRef.current = elementVolume;
+    const audio = getActiveAudio();
+    if (!audio || crossfadeRef.current) return;
+    audio.volume = elementVolume;
+  }, [elementVolume, activeSlot, slotModes, getActiveAudio]);
 
   // Handle volume change
   const handleVolumeChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const newVolume = parseFloat(e.target.value);
     setVolume(newVolume);
-    if (audioRef.current) {
-      audioRef.current.volume = isMuted ? 0 : newVolume;
-    }
     if (newVolume > 0) {
       setIsMuted(false);
     }
-  }, [isMuted]);
+  }, [setVolume, setIsMuted]);
 
   const toggleMute = useCallback(() => {
-    if (!audioRef.current) return;
-    const newMuted = !isMuted;
-    setIsMuted(newMuted);
-    audioRef.current.volume = newMuted ? 0 : volume;
-  }, [isMuted, volume]);
+    setIsMuted(!isMuted);
+  }, [isMuted, setIsMuted]);
 
-  // Audio event handlers
+  // Audio event handlers, for the active element only
   useEffect(() => {
-    const audio = audioRef.current;
+    const audio = getAudio(activeSlot);
     if (!audio) return;
 
-    const handlePlay = () => {
-      setIsPlaying(true);
-      setStoreIsPlaying(true);
+    // A station that was playing and then dropped is reconnected, not reported
+    const isPlayingStation = () => loadedStationRef.current !== null && pendingLoadRef.current === null;
+
+    let stallTimeout: ReturnType<typeof setTimeout> | null = null;
+    const clearStallTimeout = () => {
+      if (stallTimeout !== null) clearTimeout(stallTimeout);
+      stallTimeout = null;
     };
+
+    const handlePlay = handlePlaybackStarted;
     const handlePause = () => {
+      clearStallTimeout();
       setIsPlaying(false);
       setStoreIsPlaying(false);
     };
-    const handleWaiting = () => setIsLoading(true);
-    const handleCanPlay = () => setIsLoading(false);
+    const handleWaiting = () => {
+      setIsLoading(true);
+      if (isPlayingStation() && stallTimeout === null) {
+        stallTimeout = setTimeout(() => {
+          stallTimeout = null;
+          startReconnect();
+        }, STALL_TIMEOUT_MS);
+      }
+    };
+    const handleCanPlay = () => {
+      clearStallTimeout();
+      setIsLoading(false);
+    };
     const handleError = () => {
+      clearStallTimeout();
+      if (isPlayingStation()) {
+        startReconnect();
+        return;
+      }
       setError("Failed to load audio stream");
       setIsLoading(false);
       setIsPlaying(false);
@@ -227,31 +757,27 @@ export function RadioPlayer({ station, onClose }: RadioPlayerProps) {
     audio.addEventListener("pause", handlePause);
     audio.addEventListener("waiting", handleWaiting);
     audio.addEventListener("canplay", handleCanPlay);
+    audio.addEventListener("playing", handleCanPlay);
     audio.addEventListener("error", handleError);
 
     return () => {
+      clearStallTimeout();
       audio.removeEventListener("play", handlePlay);
       audio.removeEventListener("pause", handlePause);
       audio.removeEventListener("waiting", handleWaiting);
       audio.removeEventListener("canplay", handleCanPlay);
+      audio.removeEventListener("playing", handleCanPlay);
       audio.removeEventListener("error", handleError);
     };
-  }, [setStoreIsPlaying]);
+  }, [setStoreIsPlaying, handlePlaybackStarted, startReconnect, getAudio, activeSlot, slotModes]);
 
-  // Retry function
-  const handleRetry = useCallback(async () => {
-    if (!station || !audioRef.current) return;
-
-    const streamUrl = station.urlResolved || station.url;
-    if (!streamUrl) return;
-
-    setError(null);
-    setIsLoading(true);
-    await tryPlayStream(streamUrl);
-  }, [station, tryPlayStream]);
-
-  // Navigation functions
+  // Navigation functions: through the queue first, then the list the station was picked from
   const handlePrevious = useCallback(() => {
+    const queueItem = useQueueStore.getState().step(-1);
+    if (queueItem) {
+      setCurrentStation(queueItem.station);
+      return;
+    }
     if (!station || stations.length === 0) return;
 
     const currentIndex = stations.findIndex(
@@ -268,6 +794,11 @@ export function RadioPlayer({ station, onClose }: RadioPlayerProps) {
   }, [station, stations, setCurrentStation]);
 
   const handleNext = useCallback(() => {
+    const queueItem = useQueueStore.getState().step(1);
+    if (queueItem) {
+      setCurrentStation(queueItem.station);
+      return;
+    }
     if (!station || stations.length === 0) return;
 
     const currentIndex = stations.findIndex(
@@ -283,6 +814,55 @@ export function RadioPlayer({ station, onClose }: RadioPlayerProps) {
     }
   }, [station, stations, setCurrentStation]);
 
+  // Live track titles while the stream is playing
+  useStreamMetadata(isPlaying ? playingUrl : null);
+
+  // Log every new track to the "recently heard" history. The station is
+  // read from a ref: only a track change logs, not a refreshed station object.
+  const historyStationRef = useRef(station);
+  useEffect(() => {
+    historyStationRef.current = station;
+  }, [station]);
+
+  useEffect(() => {
+    const historyStation = historyStationRef.current;
+    if (historyStation && nowPlaying) {
+      addHistoryEntry(historyStation, nowPlaying);
+    }
+  }, [nowPlaying, addHistoryEntry]);
+
+  // Even out loudness differences between stations
+  const isProcessingAvailable = slotModes[activeSlot] === "processed" && audioGraph.isSupported();
+  useLoudnessNormalization(
+    station?.stationUuid ?? null,
+    isPlaying && isProcessingAvailable,
+    elementVolume,
+  );
+
+  const canSkip = stations.length > 1 || queueLength > 0;
+
+  // Lock screen, hardware media keys and headset controls
+  useMediaSession(station, nowPlaying, isPlaying, {
+    onTogglePlayPause: togglePlayPause,
+    onPrevious: canSkip ? handlePrevious : undefined,
+    onNext: canSkip ? handleNext : undefined,
+  });
+
+  // Keyboard shortcuts
+  const stepVolume = useCallback(
+    (delta: number) => {
+      setVolume(Math.min(1, Math.max(0, Math.round((volume + delta) * 100) / 100)));
+      setIsMuted(false);
+    },
+    [volume, setVolume, setIsMuted],
+  );
+  useShortcut("togglePlay", togglePlayPause, !!station);
+  useShortcut("volumeUp", () => stepVolume(VOLUME_STEP), !!station);
+  useShortcut("volumeDown", () => stepVolume(-VOLUME_STEP), !!station);
+  useShortcut("next", handleNext, !!station && canSkip);
+  useShortcut("previous", handlePrevious, !!station && canSkip);
+  useShortcut("mute", toggleMute, !!station);
+
   if (!station) {
     return null;
   }
@@ -290,13 +870,27 @@ export function RadioPlayer({ station, onClose }: RadioPlayerProps) {
   // Beautiful gradient for default cover
   const defaultCoverGradient = "from-primary/20 via-primary/10 to-accent/20";
 
+  // Reconnect progress replaces load errors; giving up gets its own message
+  const displayError =
+    reconnectStatus.state === "failed"
+      ? `Lost the connection to ${station.name} and couldn't reconnect after ${reconnectStatus.attempts} attempts.`
+      : isReconnecting
+        ? null
+        : error;
+
   return (
     <div className="fixed bottom-0 left-0 right-0 z-50 border-t bg-background/95 backdrop-blur-xl supports-[backdrop-filter]:bg-background/80 shadow-2xl">
       <div className="absolute top-0 left-0 right-0 h-0.5 bg-gradient-to-r from-primary/0 via-primary to-primary/0" />
       <div className="container px-4 py-4">
         <div className="flex items-center justify-between gap-6">
           {/* Station Cover Image */}
-          <div className="relative flex-shrink-0">
+          <button
+            type="button"
+            onClick={() => setShowNowPlaying(true)}
+            className="relative flex-shrink-0 rounded-lg transition-transform hover:scale-105"
+            title="Open now playing"
+            aria-label="Open now playing"
+          >
             <div className="h-14 w-14 rounded-lg overflow-hidden bg-muted shadow-lg ring-2 ring-primary/20">
               {station.favicon && !imageError ? (
                 <img
@@ -307,27 +901,65 @@ export function RadioPlayer({ station, onClose }: RadioPlayerProps) {
                 />
               ) : (
                 <div className={`w-full h-full bg-gradient-to-br ${defaultCoverGradient} flex items-center justify-center`}>
-                  <Waves className="w-8 h-8 text-primary" />
+                  <AudioVisualizer
+                    mode={visualizerMode}
+                    isPlaying={isPlaying}
+                    isAvailable={isProcessingAvailable}
+                    className="h-full w-full p-1.5 text-primary"
+                    fallback={<Waves className="w-8 h-8 text-primary" />}
+                  />
                 </div>
               )}
             </div>
             {isPlaying && (
               <div className="absolute -top-1 -right-1 h-3 w-3 rounded-full bg-green-500 ring-2 ring-background animate-pulse" />
             )}
-          </div>
+          </button>
 
           {/* Station Info */}
           <div className="min-w-0 flex-1">
             <h4 className="font-semibold text-sm truncate">{station.name}</h4>
+            {nowPlaying && (
+              <p className="flex items-center gap-1 text-xs text-foreground/80 truncate" title={nowPlaying.raw}>
+                <Music className="h-3 w-3 flex-shrink-0 text-primary" />
+                <span className="truncate">
+                  {nowPlaying.artist ? `${nowPlaying.artist} – ${nowPlaying.title}` : nowPlaying.title}
+                </span>
+              </p>
+            )}
             <p className="text-xs text-muted-foreground truncate">
               {station.country || station.language || "Radio Station"}
             </p>
+            {isResumePending && (
+              <p className="mt-0.5 flex items-center gap-1 text-xs font-medium text-primary">
+                <Play className="h-3 w-3 fill-current" />
+                Ready to resume – press play
+              </p>
+            )}
+            {sleepRemainingMs !== null && (
+              <p className="mt-0.5 flex items-center gap-1 text-xs font-medium text-primary tabular-nums">
+                <Timer className="h-3 w-3" />
+                Sleep in {formatRemaining(sleepRemainingMs)}
+              </p>
+            )}
+            {reconnectStatus.state === "offline" && (
+              <p className="mt-0.5 flex items-center gap-1 text-xs font-medium text-amber-600 dark:text-amber-500">
+                <WifiOff className="h-3 w-3" />
+                Offline – waiting for connection…
+              </p>
+            )}
+            {(reconnectStatus.state === "waiting" || reconnectStatus.state === "connecting") && (
+              <p className="mt-0.5 flex items-center gap-1 text-xs font-medium text-amber-600 dark:text-amber-500">
+                <RefreshCw className="h-3 w-3 animate-spin" />
+                Reconnecting (attempt {reconnectStatus.attempt} of {reconnectAttempts})…
+              </p>
+            )}
           </div>
 
           {/* Controls */}
           <div className="flex items-center gap-2">
             {/* Previous Button */}
-            {stations.length > 1 && (
+            {canSkip && (
               <Button
                 size="icon"
                 variant="ghost"
@@ -356,7 +988,7 @@ export function RadioPlayer({ station, onClose }: RadioPlayerProps) {
             </Button>
 
             {/* Next Button */}
-            {stations.length > 1 && (
+            {canSkip && (
               <Button
                 size="icon"
                 variant="ghost"
@@ -373,6 +1005,79 @@ export function RadioPlayer({ station, onClose }: RadioPlayerProps) {
               <FavoriteButton station={station} size="icon" />
             </div>
 
+            {/* Fullscreen Now Playing */}
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => setShowNowPlaying(true)}
+              className="hidden md:inline-flex h-9 w-9 rounded-full hover:bg-accent transition-all hover:scale-110"
+              title="Fullscreen"
+              aria-label="Fullscreen"
+            >
+              <Maximize2 className="w-4 h-4" />
+            </Button>
+
+            {/* Queue */}
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => setShowQueue(true)}
+              className="relative h-9 w-9 rounded-full hover:bg-accent transition-all hover:scale-110"
+              title="Queue"
+              aria-label={`Queue (${queueLength})`}
+            >
+              <ListOrdered className="w-4 h-4" />
+              {queueLength > 0 && (
+                <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 rounded-full bg-primary px-1 text-[10px] font-semibold leading-4 text-primary-foreground tabular-nums">
+                  {queueLength}
+                </span>
+              )}
+            </Button>
+
+            {/* Recently Heard */}
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => setShowHistory(true)}
+              className="h-9 w-9 rounded-full hover:bg-accent transition-all hover:scale-110"
+              title="Recently heard"
+              aria-label="Recently heard"
+            >
+              <History className="w-4 h-4" />
+            </Button>
+
+            {/* Equalizer */}
+            <EqualizerMenu
+              stationUuid={station.stationUuid}
+              isAvailable={isProcessingAvailable}
+            />
+
+            {/* Loudness Normalization */}
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => setNormalizationEnabled(!normalizationEnabled)}
+              disabled={!isProcessingAvailable}
+              className={`h-9 w-9 rounded-full hover:bg-accent transition-all hover:scale-110 ${
+                normalizationEnabled && isProcessingAvailable ? "text-primary" : ""
+              }`}
+              title={
+                isProcessingAvailable
+                  ? `Loudness normalization: ${normalizationEnabled ? "on" : "off"}`
+                  : "Loudness normalization is unavailable for this station"
+              }
+              aria-label="Loudness normalization"
+              aria-pressed={normalizationEnabled}
+            >
+              <Gauge className="w-4 h-4" />
+            </Button>
+
+            {/* Record */}
+            <RecordButton station={station} streamUrl={playingUrl} />
+
+            {/* Sleep Timer */}
+            <SleepTimerMenu remainingMs={sleepRemainingMs} />
+
             {/* Volume Control */}
             <div className="relative flex items-center">
               <div
@@ -425,7 +1130,7 @@ export function RadioPlayer({ station, onClose }: RadioPlayerProps) {
 
             {/* Favorite Button - Desktop */}
             <div className="hidden md:block">
-              <FavoriteButton station={station} size="icon" />
+              <FavoriteButton station={station} size="icon" shortcut />
             </div>
 
             {/* Close Button */}
@@ -442,11 +1147,43 @@ export function RadioPlayer({ station, onClose }: RadioPlayerProps) {
           </div>
         </div>
 
+        {/* Live Time-Shift */}
+        <TimeshiftBar getAudio={getActiveAudio} />
+
+        {/* Wake-up Alarm */}
+        {ringing && ringingAlarm && (
+          <AlarmBanner
+            alarm={ringingAlarm}
+            ringing={ringing}
+            onStart={togglePlayPause}
+            onKeepListening={stopRinging}
+            onStop={() => {
+              stopRinging();
+              if (onClose) {
+                onClose();
+              } else {
+                getActiveAudio()?.pause();
+              }
+            }}
+          />
+        )}
+
         {/* Error Message */}
-        {error && (
+        {displayError && !ringing?.autoplayBlocked && !ringing?.usingFallbackTone && (
           <div className="mt-3 rounded-lg bg-destructive/10 border border-destructive/20 p-3">
             <div className="flex items-center justify-between gap-3">
-              <p className="text-sm text-destructive font-medium flex-1">{error}</p>
+              <p className="text-sm text-destructive font-medium flex-1">{displayError}</p>
+              {reconnectStatus.state === "failed" && canSkip && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleNext}
+                  className="h-7 text-xs border-destructive/30 hover:bg-destructive/10 text-destructive"
+                >
+                  <SkipForward className="h-3 w-3" />
+                  Next station
+                </Button>
+              )}
               <Button
                 variant="outline"
                 size="sm"
@@ -461,12 +1198,30 @@ export function RadioPlayer({ station, onClose }: RadioPlayerProps) {
         )}
       </div>
 
-      {/* Hidden audio element */}
-      <audio
-        ref={audioRef}
-        preload="none"
-        crossOrigin="anonymous"
+      <TrackHistoryDrawer isOpen={showHistory} onClose={() => setShowHistory(false)} />
+
+      <QueueDrawer isOpen={showQueue} onClose={() => setShowQueue(false)} />
+
+      <NowPlayingView
+        isOpen={showNowPlaying}
+        onClose={() => setShowNowPlaying(false)}
+        station={station}
+        nowPlaying={nowPlaying}
+        isPlaying={isPlaying}
+        isLoading={isLoading}
+        isVisualizerAvailable={isProcessingAvailable}
+        onTogglePlayPause={togglePlayPause}
       />
+
+      {/* Hidden audio elements, remounted when switching between processed and plain playback */}
+      {([0, 1] as const).map((slot) => (
+        <audio
+          key={`${slot}-${slotModes[slot]}`}
+          ref={audioRefCallbacks[slot]}
+          preload="none"
+          crossOrigin={slotModes[slot] === "processed" ? "anonymous" : undefined}
+        />
+      ))}
     </div>
   );
 }
@@ -0,0 +1,66 @@
+/**
+ * Record Button Component
+ *
+ * Starts and stops recording the playing station into the recordings
+ * library, showing the elapsed time while it records.
+ *
+ * SOLID: Single Responsibility - Only handles the record control
+ */
+
+"use client";
+
+import { Button } from "~/components/ui/button";
+import { Circle, Square } from "lucide-react";
+import type { RadioStation } from "~/lib/types/api.types";
+import { useStreamRecorder } from "~/lib/hooks/use-stream-recorder";
+import { useRecordingSettingsStore } from "~/lib/store/recording-store";
+import { formatBytes } from "~/lib/utils/recordings-db";
+import { formatRemaining } from "~/lib/utils/sleep-timer";
+
+interface RecordButtonProps {
+  station: RadioStation;
+  /**
+   * URL of the playing stream, or null while nothing plays
+   */
+  streamUrl: string | null;
+}
+
+export function RecordButton({ station, streamUrl }: RecordButtonProps) {
+  const splitByTrack = useRecordingSettingsStore((state) => state.splitByTrack);
+  const { isAvailable, isRecording, isStarting, elapsedMs, bytes, start, stop } =
+    useStreamRecorder(station, streamUrl);
+
+  if (isRecording) {
+    return (
+      <Button
+        size="sm"
+        variant="ghost"
+        onClick={stop}
+        className="h-9 gap-1.5 rounded-full px-3 text-xs font-medium text-red-600 tabular-nums hover:bg-red-500/10 dark:text-red-500"
+        title={`Stop recording (${formatBytes(bytes)})`}
+        aria-label="Stop recording"
+      >
+        <Square className="h-3 w-3 fill-current" />
+        {formatRemaining(elapsedMs)}
+      </Button>
+    );
+  }
+
+  return (
+    <Button
+      size="icon"
+      variant="ghost"
+      onClick={() => void start()}
+      disabled={!isAvailable || isStarting}
+      className="h-9 w-9 rounded-full hover:bg-accent transition-all hover:scale-110"
+      title={
+        isAvailable
+          ? `Record${splitByTrack ? " (one file per track)" : ""}`
+          : "Recording is unavailable for this station"
+      }
+      aria-label="Record"
+    >
+      <Circle className={`w-4 h-4 ${isStarting ? "animate-pulse" : ""} text-red-600 dark:text-red-500`} />
+    </Button>
+  );
+}
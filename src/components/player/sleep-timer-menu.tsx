@@ -0,0 +1,170 @@
+/**
+ * Sleep Timer Menu Component
+ *
+ * Lets the user pick a sleep timer preset, a custom duration
+ * and how long the volume fades out before playback stops.
+ *
+ * SOLID: Single Responsibility - Only handles sleep timer controls
+ */
+
+"use client";
+
+import { useState, useRef, useEffect } from "react";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Timer } from "lucide-react";
+import { useSleepTimerStore } from "~/lib/store/sleep-timer-store";
+import {
+  SLEEP_TIMER_PRESETS_MIN,
+  FADE_DURATION_OPTIONS_SEC,
+  getEndOfHour,
+  formatRemaining,
+} from "~/lib/utils/sleep-timer";
+
+interface SleepTimerMenuProps {
+  remainingMs: number | null;
+}
+
+export function SleepTimerMenu({ remainingMs }: SleepTimerMenuProps) {
+  const { fadeDurationSec, startTimer, startTimerUntil, cancelTimer, setFadeDuration } =
+    useSleepTimerStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [customMinutes, setCustomMinutes] = useState("");
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [isOpen]);
+
+  const handlePreset = (minutes: number) => {
+    startTimer(minutes * 60 * 1000);
+    setIsOpen(false);
+  };
+
+  const handleEndOfHour = () => {
+    startTimerUntil(getEndOfHour());
+    setIsOpen(false);
+  };
+
+  const handleCustomSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const minutes = parseInt(customMinutes, 10);
+    if (!Number.isFinite(minutes) || minutes <= 0) return;
+
+    startTimer(minutes * 60 * 1000);
+    setCustomMinutes("");
+    setIsOpen(false);
+  };
+
+  const isActive = remainingMs !== null;
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <Button
+        size="icon"
+        variant="ghost"
+        onClick={() => setIsOpen((prev) => !prev)}
+        className={`h-9 w-9 rounded-full hover:bg-accent transition-all hover:scale-110 ${
+          isActive ? "text-primary" : ""
+        }`}
+        title="Sleep timer"
+        aria-label="Sleep timer"
+        aria-expanded={isOpen}
+      >
+        <Timer className="w-4 h-4" />
+      </Button>
+
+      {isOpen && (
+        <div className="absolute bottom-full right-0 mb-2 w-64 bg-popover border border-border rounded-lg p-3 shadow-lg space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium text-foreground">Sleep timer</span>
+            {isActive && (
+              <span className="text-xs font-medium text-primary tabular-nums">
+                {formatRemaining(remainingMs)}
+              </span>
+            )}
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            {SLEEP_TIMER_PRESETS_MIN.map((minutes) => (
+              <Button
+                key={minutes}
+                variant="outline"
+                size="sm"
+                onClick={() => handlePreset(minutes)}
+                className="h-8 text-xs"
+              >
+                {minutes} min
+              </Button>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleEndOfHour}
+              className="h-8 text-xs col-span-2"
+            >
+              End of hour
+            </Button>
+          </div>
+
+          <form onSubmit={handleCustomSubmit} className="flex items-center gap-2">
+            <Input
+              type="number"
+              min={1}
+              max={720}
+              placeholder="Minutes"
+              value={customMinutes}
+              onChange={(e) => setCustomMinutes(e.target.value)}
+              className="h-8 text-xs"
+            />
+            <Button type="submit" size="sm" className="h-8 text-xs">
+              Set
+            </Button>
+          </form>
+
+          <div className="flex items-center justify-between gap-2">
+            <label htmlFor="sleep-fade" className="text-xs text-muted-foreground">
+              Fade out
+            </label>
+            <select
+              id="sleep-fade"
+              value={fadeDurationSec}
+              onChange={(e) => setFadeDuration(parseInt(e.target.value, 10))}
+              className="h-8 rounded-md border border-input bg-transparent px-2 text-xs"
+            >
+              {FADE_DURATION_OPTIONS_SEC.map((seconds) => (
+                <option key={seconds} value={seconds}>
+                  {seconds < 60 ? `${seconds} sec` : `${seconds / 60} min`}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {isActive && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                cancelTimer();
+                setIsOpen(false);
+              }}
+              className="h-8 w-full text-xs text-destructive hover:bg-destructive/10"
+            >
+              Cancel timer
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
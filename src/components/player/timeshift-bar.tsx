@@ -0,0 +1,83 @@
+/**
+ * Time-Shift Bar Component
+ *
+ * Progress bar for a buffered live stream: rewind, scrub through the
+ * buffer, see how far behind live playback is and jump back to live.
+ * Renders nothing when the stream plays without a time-shift buffer.
+ *
+ * SOLID: Single Responsibility - Only handles the time-shift controls
+ */
+
+"use client";
+
+import { Button } from "~/components/ui/button";
+import { RotateCcw } from "lucide-react";
+import { LIVE_THRESHOLD_SEC, useTimeshift } from "~/lib/hooks/use-timeshift";
+import { formatRemaining } from "~/lib/utils/sleep-timer";
+
+const REWIND_STEP_SEC = 30;
+
+interface TimeshiftBarProps {
+  /**
+   * Returns the element currently playing
+   */
+  getAudio: () => HTMLMediaElement | null;
+}
+
+export function TimeshiftBar({ getAudio }: TimeshiftBarProps) {
+  const { position, seek, rewind, jumpToLive } = useTimeshift(getAudio);
+
+  if (!position || position.bufferEnd <= position.bufferStart) return null;
+
+  const { bufferStart, bufferEnd, currentTime, behindLiveSec } = position;
+  const isLive = behindLiveSec < LIVE_THRESHOLD_SEC;
+
+  return (
+    <div className="mt-3 flex items-center gap-3">
+      <Button
+        size="sm"
+        variant="ghost"
+        onClick={() => rewind(REWIND_STEP_SEC)}
+        disabled={currentTime - bufferStart < 1}
+        className="h-7 gap-1 rounded-full px-2 text-xs tabular-nums"
+        title={`Rewind ${REWIND_STEP_SEC} seconds`}
+        aria-label={`Rewind ${REWIND_STEP_SEC} seconds`}
+      >
+        <RotateCcw className="h-3.5 w-3.5" />
+        {REWIND_STEP_SEC}s
+      </Button>
+
+      <input
+        type="range"
+        min={bufferStart}
+        max={bufferEnd}
+        step={1}
+        value={currentTime}
+        onChange={(e) => seek(parseFloat(e.target.value))}
+        className="h-1.5 flex-1 cursor-pointer accent-primary"
+        aria-label="Position in the live buffer"
+        aria-valuetext={isLive ? "Live" : `${formatRemaining(behindLiveSec * 1000)} behind live`}
+      />
+
+      {!isLive && (
+        <span className="text-xs text-muted-foreground tabular-nums whitespace-nowrap">
+          −{formatRemaining(behindLiveSec * 1000)} behind live
+        </span>
+      )}
+
+      <Button
+        size="sm"
+        variant={isLive ? "ghost" : "outline"}
+        onClick={jumpToLive}
+        disabled={isLive}
+        className="h-7 gap-1.5 rounded-full px-3 text-xs"
+        title="Jump to live"
+      >
+        <span
+          className={`h-2 w-2 rounded-full ${isLive ? "bg-red-500" : "bg-muted-foreground"}`}
+        />
+        Live
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+/**
+ * Track History Drawer Component
+ *
+ * Slide-over panel listing recently heard songs, opened from the player.
+ *
+ * SOLID: Single Responsibility - Only handles the history drawer shell
+ */
+
+"use client";
+
+import { useEffect } from "react";
+import Link from "next/link";
+import { Button } from "~/components/ui/button";
+import { TrackHistoryList } from "~/components/history/track-history-list";
+import { X } from "lucide-react";
+
+interface TrackHistoryDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function TrackHistoryDrawer({ isOpen, onClose }: TrackHistoryDrawerProps) {
+  // Close on Escape
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-[60]">
+      <div className="absolute inset-0 bg-black/40" onClick={onClose} aria-hidden="true" />
+      <aside
+        role="dialog"
+        aria-modal="true"
+        aria-label="Recently heard"
+        className="absolute right-0 top-0 bottom-0 w-full max-w-md bg-background border-l shadow-2xl flex flex-col"
+      >
+        <div className="flex items-center justify-between px-5 h-14 border-b">
+          <h2 className="text-lg font-semibold">Recently heard</h2>
+          <div className="flex items-center gap-2">
+            <Link
+              href="/history"
+              onClick={onClose}
+              className="text-sm text-primary hover:underline underline-offset-4"
+            >
+              Full history
+            </Link>
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={onClose}
+              className="h-9 w-9 rounded-full"
+              aria-label="Close"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+        <div className="flex-1 overflow-y-auto px-5 py-4">
+          <TrackHistoryList compact />
+        </div>
+      </aside>
+    </div>
+  );
+}
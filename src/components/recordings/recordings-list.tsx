@@ -0,0 +1,235 @@
+/**
+ * Recordings List Component
+ *
+ * The recordings library: stored recordings with playback, download
+ * and deletion, the storage used against the quota and the recording
+ * preferences. Used by the /recordings page.
+ *
+ * SOLID: Single Responsibility - Only handles the recordings library display
+ */
+
+"use client";
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { Button } from "~/components/ui/button";
+import Skeleton from "~/components/ui/skeleton";
+import { Disc3, Download, Pause, Play, Trash2 } from "lucide-react";
+import { useRecordingSettingsStore } from "~/lib/store/recording-store";
+import {
+  deleteRecording,
+  formatBytes,
+  listRecordings,
+  RECORDING_QUOTA_OPTIONS_MB,
+  subscribeToRecordings,
+  type Recording,
+} from "~/lib/utils/recordings-db";
+import { downloadBlob, toSafeFilename } from "~/lib/utils/download";
+import { getAudioFileExtension } from "~/lib/utils/stream-proxy";
+import { formatRemaining } from "~/lib/utils/sleep-timer";
+
+function getRecordingName(recording: Recording): string {
+  return recording.title ?? recording.stationName;
+}
+
+function getRecordingFilename(recording: Recording): string {
+  const date = new Date(recording.startedAt).toISOString().slice(0, 16).replace("T", " ");
+  const name = recording.title
+    ? `${recording.stationName} - ${recording.title}`
+    : `${recording.stationName} ${date}`;
+  return `${toSafeFilename(name)}.${getAudioFileExtension(recording.mimeType)}`;
+}
+
+export function RecordingsList() {
+  const { splitByTrack, setSplitByTrack, quotaMb, setQuotaMb } = useRecordingSettingsStore();
+  const [recordings, setRecordings] = useState<Recording[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [playing, setPlaying] = useState<{ id: string; url: string } | null>(null);
+
+  const loadRecordings = useCallback(async () => {
+    try {
+      setRecordings(await listRecordings());
+      setError(null);
+    } catch (err) {
+      console.error("Failed to load recordings:", err);
+      setError("Couldn't open the recordings library. Your browser may block site storage.");
+      setRecordings([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadRecordings();
+    return subscribeToRecordings(() => void loadRecordings());
+  }, [loadRecordings]);
+
+  // Release the playing recording's object URL when it changes or on unmount
+  useEffect(() => {
+    if (!playing) return;
+    return () => URL.revokeObjectURL(playing.url);
+  }, [playing]);
+
+  const usedBytes = useMemo(
+    () => (recordings ?? []).reduce((total, recording) => total + recording.size, 0),
+    [recordings],
+  );
+  const quotaBytes = quotaMb * 1024 * 1024;
+  const usedPercent = Math.min(100, (usedBytes / quotaBytes) * 100);
+
+  const togglePlayback = (recording: Recording) => {
+    setPlaying(
+      playing?.id === recording.id
+        ? null
+        : { id: recording.id, url: URL.createObjectURL(recording.blob) },
+    );
+  };
+
+  const handleDelete = async (recording: Recording) => {
+    if (!window.confirm(`Delete "${getRecordingName(recording)}"?`)) return;
+
+    if (playing?.id === recording.id) setPlaying(null);
+    try {
+      await deleteRecording(recording.id);
+    } catch (err) {
+      console.error("Failed to delete recording:", err);
+      setError("Couldn't delete the recording. Please try again.");
+    }
+  };
+
+  const formatDate = (timestamp: number) =>
+    new Date(timestamp).toLocaleString(undefined, {
+      dateStyle: "medium",
+      timeStyle: "short",
+    });
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-lg border p-4 space-y-4">
+        <div>
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium">Storage</span>
+            <span className="text-muted-foreground tabular-nums">
+              {formatBytes(usedBytes)} of {formatBytes(quotaBytes)}
+            </span>
+          </div>
+          <div className="mt-2 h-2 rounded-full bg-muted overflow-hidden">
+            <div
+              className={`h-full rounded-full ${usedPercent >= 90 ? "bg-destructive" : "bg-primary"}`}
+              style={{ width: `${usedPercent}%` }}
+            />
+          </div>
+          <p className="mt-1 text-xs text-muted-foreground">
+            Recording stops when the limit is reached.
+          </p>
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={splitByTrack}
+              onChange={(e) => setSplitByTrack(e.target.checked)}
+              className="h-4 w-4 accent-primary"
+            />
+            Save each track as its own file (stations that send track titles)
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            Storage limit
+            <select
+              value={quotaMb}
+              onChange={(e) => setQuotaMb(parseInt(e.target.value, 10))}
+              className="h-9 rounded-md border border-input bg-transparent px-2 text-sm"
+            >
+              {RECORDING_QUOTA_OPTIONS_MB.map((megabytes) => (
+                <option key={megabytes} value={megabytes}>
+                  {formatBytes(megabytes * 1024 * 1024)}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-lg bg-destructive/10 border border-destructive/20 p-3">
+          <p className="text-sm text-destructive font-medium">{error}</p>
+        </div>
+      )}
+
+      {recordings === null ? (
+        <Skeleton count={3} height={56} borderRadius="0.5rem" className="mb-3" />
+      ) : recordings.length === 0 ? (
+        <div className="text-center py-12">
+          <div className="w-16 h-16 bg-muted/30 rounded-full flex items-center justify-center mx-auto mb-4">
+            <Disc3 className="w-8 h-8 text-muted-foreground" />
+          </div>
+          <p className="text-muted-foreground">
+            Use the record button in the player to save a station to this library.
+          </p>
+        </div>
+      ) : (
+        <ul className="divide-y divide-border/60">
+          {recordings.map((recording) => (
+            <li key={recording.id} className="py-3">
+              <div className="flex items-center gap-3">
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => togglePlayback(recording)}
+                  className="h-9 w-9 rounded-full flex-shrink-0"
+                  aria-label={playing?.id === recording.id ? "Stop playback" : "Play recording"}
+                >
+                  {playing?.id === recording.id ? (
+                    <Pause className="w-4 h-4 fill-current" />
+                  ) : (
+                    <Play className="w-4 h-4 fill-current" />
+                  )}
+                </Button>
+                <div className="min-w-0 flex-1">
+                  <p className="font-medium truncate">{getRecordingName(recording)}</p>
+                  <p className="text-xs text-muted-foreground truncate tabular-nums">
+                    {[
+                      recording.title ? recording.stationName : null,
+                      formatDate(recording.startedAt),
+                      formatRemaining(recording.durationSec * 1000),
+                      formatBytes(recording.size),
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </p>
+                </div>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => downloadBlob(recording.blob, getRecordingFilename(recording))}
+                  className="h-8 w-8 rounded-full"
+                  aria-label="Download recording"
+                  title="Download"
+                >
+                  <Download className="w-4 h-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => void handleDelete(recording)}
+                  className="h-8 w-8 rounded-full text-destructive hover:bg-destructive/10"
+                  aria-label="Delete recording"
+                  title="Delete"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+              {playing?.id === recording.id && (
+                <audio
+                  src={playing.url}
+                  controls
+                  autoPlay
+                  onEnded={() => setPlaying(null)}
+                  className="mt-3 w-full"
+                />
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
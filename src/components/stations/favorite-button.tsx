@@ -9,9 +9,10 @@
 
 "use client";
 
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import { useFavorites } from "~/lib/hooks/use-favorites";
 import { useFavoritesStore } from "~/lib/store/favorites-store";
+import { useShortcut } from "~/lib/hooks/use-shortcut";
 import { usePlayerStore } from "~/lib/store/player-store";
 import { Button } from "~/components/ui/button";
 import { Heart } from "lucide-react";
@@ -22,20 +23,28 @@ interface FavoriteButtonProps {
   station: RadioStation;
   onToggle?: (isFavorite: boolean) => void;
   size?: "sm" | "md" | "lg" | "icon";
+  /**
+   * Toggle with the "favorite" keyboard shortcut; set on one button only
+   */
+  shortcut?: boolean;
 }
 
 export function FavoriteButton({
   station,
   onToggle,
   size = "sm",
+  shortcut = false,
 }: FavoriteButtonProps) {
   const { addFavorite, removeFavorite } = useFavorites();
   const { triggerRefresh } = useFavoritesStore();
-  const { currentStation, setCurrentStation } = usePlayerStore();
+  const { currentStation, updateCurrentStation } = usePlayerStore();
   const [isFavorite, setIsFavorite] = useState(station.isFavorite ?? false);
   const [isLoading, setIsLoading] = useState(false);
   const [isChecking, setIsChecking] = useState(true);
   const [lastStationId, setLastStationId] = useState<string | number | null>(null);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+
+  useShortcut("favorite", () => buttonRef.current?.click(), shortcut);
 
   useEffect(() => {
     const currentStationId = station.stationUuid ?? station.id;
@@ -96,7 +105,7 @@ export function FavoriteButton({
       if (currentStation &&
           ((station.id && currentStation.id === station.id) ||
            (station.stationUuid && currentStation.stationUuid === station.stationUuid))) {
-        setCurrentStation({ ...currentStation, isFavorite: newFavoriteState });
+        updateCurrentStation({ ...currentStation, isFavorite: newFavoriteState });
       }
 
       onToggle?.(newFavoriteState);
@@ -122,7 +131,7 @@ export function FavoriteButton({
         if (currentStation &&
             ((station.id && currentStation.id === station.id) ||
              (station.stationUuid && currentStation.stationUuid === station.stationUuid))) {
-          setCurrentStation({ ...currentStation, isFavorite: actualIsFav });
+          updateCurrentStation({ ...currentStation, isFavorite: actualIsFav });
         }
 
         if (actualIsFav !== newFavoriteState) {
@@ -135,7 +144,7 @@ export function FavoriteButton({
         if (currentStation &&
             ((station.id && currentStation.id === station.id) ||
              (station.stationUuid && currentStation.stationUuid === station.stationUuid))) {
-          setCurrentStation({ ...currentStation, isFavorite: revertedState });
+          updateCurrentStation({ ...currentStation, isFavorite: revertedState });
         }
 
         onToggle?.(revertedState);
@@ -144,7 +153,7 @@ export function FavoriteButton({
         setIsLoading(false);
       }
     },
-    [isFavorite, station.id, station.stationUuid, addFavorite, removeFavorite, onToggle, triggerRefresh, currentStation, setCurrentStation],
+    [isFavorite, station.id, station.stationUuid, addFavorite, removeFavorite, onToggle, triggerRefresh, currentStation, updateCurrentStation],
   );
 
   const sizeClasses = {
@@ -156,6 +165,7 @@ export function FavoriteButton({
 
   return (
     <Button
+      ref={buttonRef}
       variant="ghost"
       size={size === "icon" ? "icon" : undefined}
       onClick={handleToggle}
@@ -0,0 +1,90 @@
+/**
+ * Queue Menu Component
+ *
+ * "Play next" and "Add to queue" actions for a station.
+ *
+ * SOLID: Single Responsibility - Only handles queueing a station
+ */
+
+"use client";
+
+import { useState, useRef, useEffect } from "react";
+import { Button } from "~/components/ui/button";
+import { ListEnd, ListPlus, ListStart } from "lucide-react";
+import type { RadioStation } from "~/lib/types/api.types";
+import { useQueueStore } from "~/lib/store/queue-store";
+import { useToastStore } from "~/lib/store/toast-store";
+
+interface QueueMenuProps {
+  station: RadioStation;
+}
+
+export function QueueMenu({ station }: QueueMenuProps) {
+  const { playNext, addToQueue } = useQueueStore();
+  const showToast = useToastStore((state) => state.showToast);
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [isOpen]);
+
+  const handlePlayNext = () => {
+    playNext(station);
+    showToast(`${station.name} plays next`);
+    setIsOpen(false);
+  };
+
+  const handleAddToQueue = () => {
+    addToQueue(station);
+    showToast(`Added ${station.name} to the queue`);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <Button
+        size="icon"
+        variant="ghost"
+        onClick={() => setIsOpen((prev) => !prev)}
+        className="h-9 w-9 rounded-full"
+        title="Queue"
+        aria-label="Queue options"
+        aria-expanded={isOpen}
+      >
+        <ListPlus className="w-4 h-4" />
+      </Button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 z-20 w-44 rounded-lg border bg-popover p-1 shadow-lg">
+          <button
+            type="button"
+            onClick={handlePlayNext}
+            className="flex w-full items-center gap-2 rounded-md px-3 py-2 text-sm hover:bg-accent"
+          >
+            <ListStart className="w-4 h-4" />
+            Play next
+          </button>
+          <button
+            type="button"
+            onClick={handleAddToQueue}
+            className="flex w-full items-center gap-2 rounded-md px-3 py-2 text-sm hover:bg-accent"
+          >
+            <ListEnd className="w-4 h-4" />
+            Add to queue
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -9,12 +9,18 @@
 
 "use client";
 
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
 import { Button } from "~/components/ui/button";
 import { FavoriteButton } from "~/components/stations/favorite-button";
-import { Radio, Play, Pause, MapPin, Activity } from "lucide-react";
+import { QueueMenu } from "~/components/stations/queue-menu";
+import { StreamHealthBadge } from "~/components/stations/stream-health-badge";
+import { Radio, Play, Pause, MapPin, AlertTriangle } from "lucide-react";
 import type { RadioStation } from "~/lib/types/api.types";
 import { usePlayerStore } from "~/lib/store/player-store";
+import { useStreamProbe } from "~/lib/hooks/use-stream-probe";
+import { isStationLikelyDown } from "~/lib/utils/stream-probe";
+import { isOftenOffline } from "~/lib/utils/station-health";
 
 export interface StationCardProps {
   station: RadioStation;
@@ -38,6 +44,11 @@ export function StationCard({
   showGlobeIcon = true,
 }: StationCardProps) {
   const [imageError, setImageError] = useState(false);
+  const [isConfirmingPlay, setIsConfirmingPlay] = useState(false);
+  const cardRef = useRef<HTMLDivElement>(null);
+  const probe = useStreamProbe(station, cardRef);
+  const [oftenOffline, setOftenOffline] = useState(false);
+  const isLikelyDown = isStationLikelyDown(station, probe) || oftenOffline;
   const { currentStation, isPlaying } = usePlayerStore();
   const isCurrentlyPlaying =
     currentStation &&
@@ -45,10 +56,26 @@ export function StationCard({
       (station.stationUuid ?? station.id) &&
     isPlaying;
 
+  // Failures are recorded in local storage, so only read them on the client
+  useEffect(() => {
+    setOftenOffline(isOftenOffline(station.stationUuid));
+  }, [station.stationUuid]);
+
+  // Ask once before starting a station that is probably down
+  const handlePlay = () => {
+    if (isLikelyDown && !isCurrentlyPlaying && !isConfirmingPlay) {
+      setIsConfirmingPlay(true);
+      return;
+    }
+    setIsConfirmingPlay(false);
+    onClick();
+  };
+
   return (
     <div
-      className="group relative bg-card hover:bg-accent/50 border rounded-2xl p-6 transition-all duration-300 hover:shadow-xl hover:scale-[1.01] hover:-translate-y-1 cursor-pointer"
-      onClick={onClick}
+      ref={cardRef}
+      className="group relative hover:z-10 bg-card hover:bg-accent/50 border rounded-2xl p-6 transition-all duration-300 hover:shadow-xl hover:scale-[1.01] hover:-translate-y-1 cursor-pointer"
+      onClick={handlePlay}
     >
       <div className="absolute inset-0 rounded-2xl bg-gradient-to-r from-primary/5 to-accent/5 opacity-0 group-hover:opacity-100 transition-opacity duration-300" />
 
@@ -68,12 +95,26 @@ export function StationCard({
               </div>
             )}
           </div>
-          <div className="absolute -top-1 -right-1 h-3 w-3 rounded-full bg-green-500 ring-2 ring-background animate-pulse" />
+          <div
+            className={`absolute -top-1 -right-1 h-3 w-3 rounded-full ring-2 ring-background ${
+              isLikelyDown ? "bg-destructive" : "bg-green-500 animate-pulse"
+            }`}
+          />
         </div>
 
         <div className="flex-1 min-w-0">
           <h3 className="text-xl font-semibold mb-2 group-hover:text-primary transition-colors">
-            {station.name}
+            {station.id > 0 ? (
+              <Link
+                href={`/stations/${station.id}`}
+                onClick={(e) => e.stopPropagation()}
+                className="hover:underline underline-offset-4"
+              >
+                {station.name}
+              </Link>
+            ) : (
+              station.name
+            )}
           </h3>
           <div className="flex flex-wrap items-center gap-3 text-sm text-muted-foreground">
             {station.country && (
@@ -89,20 +130,27 @@ export function StationCard({
                 </span>
               </div>
             )}
-            {showTags && station.tags ? (
+            {showTags && station.tags && (
               <span className="text-xs truncate max-w-xs">
                 {station.tags.split(",").slice(0, 2).join(", ")}
               </span>
-            ) : station.bitrate ? (
-              <div className="flex items-center gap-1.5">
-                <Activity className="h-4 w-4" />
-                <span className="font-medium">{station.bitrate} kbps</span>
-              </div>
-            ) : null}
+            )}
+            <StreamHealthBadge probe={probe} bitrate={station.bitrate} />
+            {oftenOffline && (
+              <span
+                className="px-2 py-0.5 rounded-md bg-amber-500/10 text-amber-600 dark:text-amber-400 text-xs font-medium"
+                title="This station failed to play several times recently"
+              >
+                Often offline
+              </span>
+            )}
           </div>
         </div>
 
         <div className="flex items-center gap-2">
+          <div onClick={(e) => e.stopPropagation()}>
+            <QueueMenu station={station} />
+          </div>
           <div onClick={(e) => e.stopPropagation()}>
             <FavoriteButton station={station} onToggle={onFavoriteToggle} size="sm" />
           </div>
@@ -110,7 +158,7 @@ export function StationCard({
             size="icon"
             onClick={(e: React.MouseEvent<HTMLButtonElement>) => {
               e.stopPropagation();
-              onClick();
+              handlePlay();
             }}
             className={`h-12 w-12 rounded-full shadow-lg bg-primary hover:bg-primary/90 hover:scale-110 transition-all duration-300 ${
               isCurrentlyPlaying ? "ring-2 ring-primary ring-offset-2" : ""
@@ -124,6 +172,29 @@ export function StationCard({
           </Button>
         </div>
       </div>
+
+      {isConfirmingPlay && (
+        <div
+          className="relative mt-4 flex flex-wrap items-center gap-3 rounded-xl border border-amber-500/40 bg-amber-500/10 px-4 py-3 text-sm"
+          onClick={(e) => e.stopPropagation()}
+          role="alert"
+        >
+          <AlertTriangle className="h-4 w-4 flex-shrink-0 text-amber-600 dark:text-amber-400" />
+          <span className="flex-1 min-w-0">
+            {probe?.ok === false
+              ? `This station didn't respond when we checked it${probe.error ? ` (${probe.error})` : ""}.`
+              : oftenOffline
+                ? "This station failed to play several times recently."
+                : "This station failed its last check and may be offline."}
+          </span>
+          <Button size="sm" variant="ghost" onClick={() => setIsConfirmingPlay(false)}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={handlePlay}>
+            Play anyway
+          </Button>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,280 @@
+/**
+ * Station Details Component
+ *
+ * Full view of one station for /stations/[id]: its metadata, health,
+ * play and favorite actions and similar stations.
+ *
+ * SOLID: Single Responsibility - Only handles the station detail view
+ *
+ * The page renders it server-side with the station when the backend
+ * answers without a login; otherwise the station is loaded here.
+ */
+
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { Navbar } from "~/components/layout/navbar";
+import { Button } from "~/components/ui/button";
+import Skeleton from "~/components/ui/skeleton";
+import { FavoriteButton } from "./favorite-button";
+import { QueueMenu } from "./queue-menu";
+import { StationCard } from "./station-card";
+import { StreamHealthBadge } from "./stream-health-badge";
+import { ExternalLink, MapPin, Pause, Play, Radio } from "lucide-react";
+import type { RadioStation } from "~/lib/types/api.types";
+import { stationsApi } from "~/lib/api/stations.api";
+import { stationsService, getStationTags } from "~/lib/services/stations.service";
+import { useAuthStore } from "~/lib/store/auth-store";
+import { usePlayerStore } from "~/lib/store/player-store";
+import { useStreamProbe } from "~/lib/hooks/use-stream-probe";
+import { isOftenOffline } from "~/lib/utils/station-health";
+import { extractErrorMessage } from "~/lib/utils/error-handler";
+
+interface StationDetailsProps {
+  stationId: number;
+  initialStation: RadioStation | null;
+  initialSimilarStations: RadioStation[];
+}
+
+interface StationHealthProps {
+  station: RadioStation;
+}
+
+function StationHealth({ station }: StationHealthProps) {
+  const sectionRef = useRef<HTMLDivElement>(null);
+  const probe = useStreamProbe(station, sectionRef);
+  const [oftenOffline, setOftenOffline] = useState(false);
+
+  useEffect(() => {
+    setOftenOffline(isOftenOffline(station.stationUuid));
+  }, [station.stationUuid]);
+
+  const status =
+    probe?.ok === false
+      ? `Not responding${probe.error ? ` (${probe.error})` : ""}`
+      : oftenOffline
+        ? "Failed to play several times recently"
+        : station.lastCheckOk === false
+          ? "Failed its last directory check"
+          : probe?.ok
+            ? "Online"
+            : station.lastCheckOk
+              ? "Passed its last directory check"
+              : "Unknown";
+
+  return (
+    <div ref={sectionRef} className="flex flex-wrap items-center gap-3">
+      <span>{status}</span>
+      <StreamHealthBadge probe={probe} bitrate={station.bitrate} />
+    </div>
+  );
+}
+
+export function StationDetails({
+  stationId,
+  initialStation,
+  initialSimilarStations,
+}: StationDetailsProps) {
+  const { isAuthenticated, initialize } = useAuthStore();
+  const { currentStation, isPlaying, setCurrentStation, setStations, showPlayer } =
+    usePlayerStore();
+  const [station, setStation] = useState(initialStation);
+  const [similarStations, setSimilarStations] = useState(initialSimilarStations);
+  const [error, setError] = useState<string | null>(null);
+  const [imageError, setImageError] = useState(false);
+
+  useEffect(() => {
+    initialize();
+  }, [initialize]);
+
+  // Not rendered on the server: load with the user's session
+  useEffect(() => {
+    if (initialStation) return;
+
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const loaded = await stationsApi.getById(stationId);
+        if (cancelled) return;
+        setStation(loaded);
+        const similar = await stationsService.getSimilar(loaded);
+        if (!cancelled) setSimilarStations(similar);
+      } catch (err) {
+        if (!cancelled) setError(extractErrorMessage(err));
+      }
+    };
+    void load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [stationId, initialStation]);
+
+  const playStation = (selected: RadioStation) => {
+    if (!station) return;
+    // Next/previous step through this station and its similar ones
+    setStations([station, ...similarStations]);
+    setCurrentStation(selected);
+    showPlayer();
+  };
+
+  const isCurrentlyPlaying =
+    station !== null && currentStation?.stationUuid === station.stationUuid && isPlaying;
+
+  if (!station) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <main className="pt-24 pb-32 px-6">
+          <div className="max-w-4xl mx-auto">
+            {error ? (
+              <div className="text-center py-20">
+                <h1 className="text-2xl font-semibold mb-2">Station unavailable</h1>
+                <p className="text-muted-foreground mb-6">{error}</p>
+                <Link href="/search" className="text-primary hover:underline underline-offset-4">
+                  Search for stations
+                </Link>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <Skeleton height={96} width={96} borderRadius="1rem" />
+                <Skeleton height={40} width="60%" borderRadius="0.5rem" />
+                <Skeleton count={6} height={20} borderRadius="0.375rem" />
+              </div>
+            )}
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  const tags = getStationTags(station);
+  const details: { label: string; value: React.ReactNode }[] = [
+    {
+      label: "Homepage",
+      value: station.homepage ? (
+        <a
+          href={station.homepage}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-flex items-center gap-1 text-primary hover:underline underline-offset-4 break-all"
+        >
+          {station.homepage.replace(/^https?:\/\//, "").replace(/\/$/, "")}
+          <ExternalLink className="h-3.5 w-3.5 flex-shrink-0" />
+        </a>
+      ) : null,
+    },
+    {
+      label: "Location",
+      value: [station.state, station.country, station.countryCode && `(${station.countryCode})`]
+        .filter(Boolean)
+        .join(" ") || null,
+    },
+    { label: "Language", value: station.language },
+    { label: "Language codes", value: station.languageCodes },
+    { label: "Codec", value: station.codec },
+    { label: "Bitrate", value: station.bitrate ? `${station.bitrate} kbps` : null },
+    { label: "Votes", value: station.votes?.toLocaleString() ?? null },
+    {
+      label: "HLS",
+      value: station.hls === null ? null : station.hls ? "Yes" : "No",
+    },
+    { label: "Health", value: <StationHealth station={station} /> },
+  ];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <main className="pt-24 pb-32 px-6">
+        <article className="max-w-4xl mx-auto">
+          <header className="flex flex-col sm:flex-row sm:items-center gap-6 mb-10">
+            <div className="h-24 w-24 flex-shrink-0 rounded-2xl overflow-hidden bg-muted shadow-md ring-2 ring-border">
+              {station.favicon && !imageError ? (
+                <img
+                  src={station.favicon}
+                  alt={station.name}
+                  className="h-full w-full object-cover"
+                  onError={() => setImageError(true)}
+                />
+              ) : (
+                <div className="w-full h-full flex items-center justify-center">
+                  <Radio className="w-12 h-12 text-primary" />
+                </div>
+              )}
+            </div>
+
+            <div className="flex-1 min-w-0">
+              <h1 className="text-4xl font-semibold tracking-tight mb-2">{station.name}</h1>
+              {station.country && (
+                <p className="flex items-center gap-1.5 text-muted-foreground">
+                  <MapPin className="h-4 w-4" />
+                  {[station.state, station.country].filter(Boolean).join(", ")}
+                </p>
+              )}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <QueueMenu station={station} />
+              {isAuthenticated && <FavoriteButton station={station} size="sm" />}
+              <Button
+                onClick={() => playStation(station)}
+                className="h-12 rounded-full px-6 shadow-lg"
+              >
+                {isCurrentlyPlaying ? (
+                  <Pause className="h-5 w-5 fill-current" />
+                ) : (
+                  <Play className="h-5 w-5 fill-current" />
+                )}
+                {isCurrentlyPlaying ? "Playing" : "Play"}
+              </Button>
+            </div>
+          </header>
+
+          <dl className="grid gap-x-8 gap-y-4 sm:grid-cols-[10rem_1fr] rounded-2xl border bg-card p-6 mb-10">
+            {details
+              .filter((detail) => detail.value !== null && detail.value !== "")
+              .map((detail) => (
+                <div key={detail.label} className="contents">
+                  <dt className="text-sm font-medium text-muted-foreground">{detail.label}</dt>
+                  <dd className="text-sm">{detail.value}</dd>
+                </div>
+              ))}
+            {tags.length > 0 && (
+              <>
+                <dt className="text-sm font-medium text-muted-foreground">Tags</dt>
+                <dd className="flex flex-wrap gap-2">
+                  {tags.map((tag) => (
+                    <Link
+                      key={tag}
+                      href={`/search?tags=${encodeURIComponent(tag)}`}
+                      className="px-2 py-0.5 rounded-md bg-muted text-xs font-medium hover:bg-primary/10 hover:text-primary transition-colors"
+                    >
+                      #{tag}
+                    </Link>
+                  ))}
+                </dd>
+              </>
+            )}
+          </dl>
+
+          {similarStations.length > 0 && (
+            <section>
+              <h2 className="text-2xl font-semibold mb-4">Similar stations</h2>
+              <div className="space-y-3">
+                {similarStations.map((similar) => (
+                  <StationCard
+                    key={similar.stationUuid ?? similar.id}
+                    station={similar}
+                    onClick={() => playStation(similar)}
+                    showTags
+                  />
+                ))}
+              </div>
+            </section>
+          )}
+        </article>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+/**
+ * Station Filter Panel Component
+ *
+ * Advanced search filters for StationSearch: country, language, tags,
+ * minimum bitrate and codec, plus chips for the active filters.
+ *
+ * SOLID: Single Responsibility - Only handles the search filter UI
+ *
+ * The pickers suggest common values and those of the stations already
+ * loaded, but accept anything the station directory knows.
+ */
+
+"use client";
+
+import { useMemo, useState } from "react";
+import { Input } from "~/components/ui/input";
+import { X } from "lucide-react";
+import type { RadioStation } from "~/lib/types/api.types";
+import {
+  CODEC_OPTIONS,
+  COMMON_COUNTRIES,
+  COMMON_LANGUAGES,
+  COMMON_TAGS,
+  EMPTY_STATION_FILTERS,
+  MIN_BITRATE_OPTIONS,
+  getFilterChips,
+  removeFilterChip,
+  type StationFilters,
+} from "~/lib/utils/station-filters";
+
+interface StationFilterPanelProps {
+  filters: StationFilters;
+  onChange: (filters: StationFilters) => void;
+  /**
+   * Loaded stations, for suggestions
+   */
+  stations: RadioStation[];
+}
+
+interface StationFilterChipsProps {
+  filters: StationFilters;
+  onChange: (filters: StationFilters) => void;
+}
+
+function uniqueSorted(values: (string | null | undefined)[]): string[] {
+  const unique = new Map<string, string>();
+  for (const value of values) {
+    const trimmed = value?.trim();
+    if (trimmed && !unique.has(trimmed.toLowerCase())) unique.set(trimmed.toLowerCase(), trimmed);
+  }
+  return [...unique.values()].sort((a, b) => a.localeCompare(b));
+}
+
+const selectClassName = "h-10 w-full rounded-md border border-input bg-transparent px-2 text-sm";
+
+export function StationFilterPanel({ filters, onChange, stations }: StationFilterPanelProps) {
+  const [tagInput, setTagInput] = useState("");
+
+  const suggestions = useMemo(
+    () => ({
+      countries: uniqueSorted([...COMMON_COUNTRIES, ...stations.map((s) => s.country)]),
+      languages: uniqueSorted([
+        ...COMMON_LANGUAGES,
+        ...stations.flatMap((s) => s.language?.split(",") ?? []),
+      ]),
+      tags: uniqueSorted([
+        ...COMMON_TAGS,
+        ...stations.flatMap((s) => s.tags?.split(",").slice(0, 5) ?? []),
+      ]).filter((tag) => !filters.tags.includes(tag.toLowerCase())),
+    }),
+    [stations, filters.tags],
+  );
+
+  const addTag = (value: string) => {
+    const tag = value.trim().toLowerCase();
+    setTagInput("");
+    if (!tag || filters.tags.includes(tag)) return;
+    onChange({ ...filters, tags: [...filters.tags, tag] });
+  };
+
+  return (
+    <div className="mt-4 grid gap-4 rounded-2xl border bg-card p-5 text-left sm:grid-cols-2">
+      <div className="space-y-1.5">
+        <label htmlFor="station-filter-country" className="text-sm font-medium">Country</label>
+        <Input
+          id="station-filter-country"
+          list="station-filter-countries"
+          placeholder="Any country"
+          value={filters.country}
+          onChange={(e) => onChange({ ...filters, country: e.target.value })}
+        />
+        <datalist id="station-filter-countries">
+          {suggestions.countries.map((country) => (
+            <option key={country} value={country} />
+          ))}
+        </datalist>
+      </div>
+
+      <div className="space-y-1.5">
+        <label htmlFor="station-filter-language" className="text-sm font-medium">Language</label>
+        <Input
+          id="station-filter-language"
+          list="station-filter-languages"
+          placeholder="Any language"
+          value={filters.language}
+          onChange={(e) => onChange({ ...filters, language: e.target.value })}
+        />
+        <datalist id="station-filter-languages">
+          {suggestions.languages.map((language) => (
+            <option key={language} value={language} />
+          ))}
+        </datalist>
+      </div>
+
+      <div className="space-y-1.5 sm:col-span-2">
+        <label htmlFor="station-filter-tag" className="text-sm font-medium">Tags</label>
+        <Input
+          id="station-filter-tag"
+          list="station-filter-tags"
+          placeholder="Type a tag and press Enter"
+          value={tagInput}
+          onChange={(e) => {
+            // Picking a suggestion or typing a comma adds the tag
+            const value = e.target.value;
+            if (value.endsWith(",") || suggestions.tags.includes(value)) {
+              addTag(value.replace(/,$/, ""));
+            } else {
+              setTagInput(value);
+            }
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              addTag(tagInput);
+            } else if (e.key === "Backspace" && !tagInput && filters.tags.length > 0) {
+              onChange({ ...filters, tags: filters.tags.slice(0, -1) });
+            }
+          }}
+        />
+        <datalist id="station-filter-tags">
+          {suggestions.tags.map((tag) => (
+            <option key={tag} value={tag} />
+          ))}
+        </datalist>
+      </div>
+
+      <div className="space-y-1.5">
+        <label htmlFor="station-filter-bitrate" className="text-sm font-medium">Minimum bitrate</label>
+        <select
+          id="station-filter-bitrate"
+          value={filters.minBitrate ?? ""}
+          onChange={(e) =>
+            onChange({
+              ...filters,
+              minBitrate: e.target.value ? parseInt(e.target.value, 10) : null,
+            })
+          }
+          className={selectClassName}
+        >
+          <option value="">Any bitrate</option>
+          {MIN_BITRATE_OPTIONS.map((kbps) => (
+            <option key={kbps} value={kbps}>
+              {kbps} kbps or more
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="space-y-1.5">
+        <label htmlFor="station-filter-codec" className="text-sm font-medium">Codec</label>
+        <select
+          id="station-filter-codec"
+          value={filters.codec ?? ""}
+          onChange={(e) => onChange({ ...filters, codec: e.target.value || null })}
+          className={selectClassName}
+        >
+          <option value="">Any codec</option>
+          {CODEC_OPTIONS.map((codec) => (
+            <option key={codec} value={codec}>
+              {codec}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <p className="text-xs text-muted-foreground sm:col-span-2">
+        Bitrate and codec filter the stations loaded so far, not the whole directory.
+      </p>
+    </div>
+  );
+}
+
+export function StationFilterChips({ filters, onChange }: StationFilterChipsProps) {
+  const chips = getFilterChips(filters);
+  if (chips.length === 0) return null;
+
+  return (
+    <div className="mt-4 flex flex-wrap items-center justify-center gap-2">
+      {chips.map((chip) => (
+        <span
+          key={`${chip.key}-${chip.value ?? ""}`}
+          className="flex items-center gap-1 rounded-full bg-primary/10 py-1 pl-3 pr-1 text-xs font-medium text-primary"
+        >
+          {chip.label}
+          <button
+            type="button"
+            onClick={() => onChange(removeFilterChip(filters, chip))}
+            className="rounded-full p-0.5 hover:bg-primary/20"
+            aria-label={`Remove filter ${chip.label}`}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </span>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange(EMPTY_STATION_FILTERS)}
+        className="text-xs text-muted-foreground hover:text-foreground hover:underline underline-offset-4"
+      >
+        Clear all
+      </button>
+    </div>
+  );
+}
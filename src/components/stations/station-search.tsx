@@ -2,6 +2,7 @@
  * Station Search Component
  *
  * Search and display radio stations.
+ * On /search the search state is kept in the URL.
  *
  * SOLID: Single Responsibility - Only handles station search UI
  * Performance: Debounced search, pagination support
@@ -9,62 +10,207 @@
 
 "use client";
 
-import { useState, useEffect, useCallback, useRef } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { useStations } from "~/lib/hooks/use-stations";
 import { Input } from "~/components/ui/input";
+import { Button } from "~/components/ui/button";
 import Skeleton from "~/components/ui/skeleton";
 import { StationCard } from "./station-card";
+import { StationFilterChips, StationFilterPanel } from "./station-filter-panel";
+import { VirtualStationList } from "./virtual-station-list";
 import {
   getCachedStations,
   setCachedStations,
   appendCachedStations,
   hasValidCache,
 } from "~/lib/utils/stations-cache";
-import { Search } from "lucide-react";
+import { Search, SlidersHorizontal } from "lucide-react";
 import type { RadioStation, StationSearchParams } from "~/lib/types/api.types";
 import { usePlayerStore } from "~/lib/store/player-store";
+import { useSearchParams } from "next/navigation";
+import { useShortcut } from "~/lib/hooks/use-shortcut";
+import { isStationBroken, sortBrokenLast } from "~/lib/utils/station-health";
+import {
+  getFilterChips,
+  getFilterSearchParams,
+  hasActiveFilters,
+  matchesStationFilters,
+  type StationFilters,
+} from "~/lib/utils/station-filters";
+import {
+  DEFAULT_SEARCH_URL_STATE,
+  buildSearchUrl,
+  parseSearchUrl,
+  type SearchSortOrder,
+  type SearchUrlState,
+} from "~/lib/utils/search-url";
+
+const PAGE_SIZE = 20;
+
+/**
+ * Whether a loaded station passes the filters applied on the client
+ */
+function isStationShown(station: RadioStation, filters: StationFilters, onlyWorking: boolean) {
+  return matchesStationFilters(station, filters) && (!onlyWorking || !isStationBroken(station));
+}
+
+/**
+ * The part of a search that decides which stations are loaded
+ */
+function getLoadedSearchKey(state: SearchUrlState): string {
+  return buildSearchUrl({ ...state, onlyWorking: false, sortOrder: "relevance", page: 0 });
+}
 
 interface StationSearchProps {
   onStationSelect?: (station: RadioStation) => void;
+  /**
+   * Search to start with, e.g. read from the URL
+   */
+  initialSearch?: SearchUrlState;
+  /**
+   * Keep the search in the page's query parameters and follow
+   * back/forward navigation between searches
+   */
+  syncWithUrl?: boolean;
 }
 
-export function StationSearch({ onStationSelect }: StationSearchProps) {
+export function StationSearch({
+  onStationSelect,
+  initialSearch = DEFAULT_SEARCH_URL_STATE,
+  syncWithUrl = false,
+}: StationSearchProps) {
   const { searchStations, isLoading } = useStations();
   const { setStations: setPlayerStations } = usePlayerStore();
-  const [query, setQuery] = useState("");
-  const [debouncedSearchTerm, setDebouncedSearchTerm] = useState("");
+  const urlSearchParams = useSearchParams();
+  const [query, setQuery] = useState(initialSearch.query);
+  const [debouncedSearchTerm, setDebouncedSearchTerm] = useState(initialSearch.query);
+  const [filters, setFilters] = useState<StationFilters>(initialSearch.filters);
+  const [debouncedFilters, setDebouncedFilters] = useState<StationFilters>(initialSearch.filters);
+  const [isFilterPanelOpen, setIsFilterPanelOpen] = useState(false);
   const [stations, setStations] = useState<RadioStation[]>([]);
   const [pagination, setPagination] = useState({
-    page: 0,
-    size: 20,
+    page: initialSearch.page,
+    size: PAGE_SIZE,
     totalElements: 0,
     totalPages: 0,
     hasMore: true,
   });
   const [isLoadingMore, setIsLoadingMore] = useState(false);
+  // Set when a loaded page had nothing to show, so scrolling stops
+  // fetching and more pages are only loaded on request
+  const [isAutoLoadPaused, setIsAutoLoadPaused] = useState(false);
+  const [onlyWorking, setOnlyWorking] = useState(initialSearch.onlyWorking);
+  const [sortOrder, setSortOrder] = useState<SearchSortOrder>(initialSearch.sortOrder);
   const observerTarget = useRef<HTMLDivElement>(null);
-  const hasLoadedRef = useRef(false);
+  const inputRef = useRef<HTMLInputElement>(null);
   const isLoadingMoreRef = useRef(false);
+  const onlyWorkingRef = useRef(onlyWorking);
+  // Last page to load for the next search, when restoring one from the URL
+  const restorePageRef = useRef(initialSearch.page);
+  // Page the URL keeps until a restored search has loaded it
+  const [restoringPage, setRestoringPage] = useState<number | null>(
+    initialSearch.page > 0 ? initialSearch.page : null,
+  );
+  // Query string last written to or read from the URL
+  const lastUrlRef = useRef<string | null>(null);
 
-  // Debounce search input
+  // "/" jumps to the search field
+  useShortcut("focusSearch", () => {
+    inputRef.current?.focus();
+    inputRef.current?.select();
+  });
+
+  // Debounce search input and filters
   useEffect(() => {
     const timer = setTimeout(() => {
       setDebouncedSearchTerm(query);
+      setDebouncedFilters(filters);
     }, 800);
 
     return () => clearTimeout(timer);
-  }, [query]);
+  }, [query, filters]);
+
+  // A new search or filter gets to fill the list by scrolling again
+  useEffect(() => {
+    onlyWorkingRef.current = onlyWorking;
+    setIsAutoLoadPaused(false);
+  }, [debouncedSearchTerm, debouncedFilters, onlyWorking]);
 
+  // Back/forward to another search: take it over from the URL
+  useEffect(() => {
+    if (!syncWithUrl || lastUrlRef.current === null) return;
+
+    const state = parseSearchUrl(new URLSearchParams(urlSearchParams.toString()));
+    const url = buildSearchUrl(state);
+    if (url === lastUrlRef.current) return;
+
+    const previous = parseSearchUrl(new URLSearchParams(lastUrlRef.current));
+    lastUrlRef.current = url;
+    // Only a different query or filter loads stations again
+    if (getLoadedSearchKey(state) !== getLoadedSearchKey(previous)) {
+      restorePageRef.current = state.page;
+      setRestoringPage(state.page > 0 ? state.page : null);
+    }
+    setQuery(state.query);
+    setDebouncedSearchTerm(state.query);
+    setFilters(state.filters);
+    setDebouncedFilters(state.filters);
+    setOnlyWorking(state.onlyWorking);
+    setSortOrder(state.sortOrder);
+  }, [urlSearchParams, syncWithUrl]);
+
+  // Write the search to the URL: a new history entry per search,
+  // while loading more pages only updates the current one
+  useEffect(() => {
+    if (!syncWithUrl) return;
+
+    const state: SearchUrlState = {
+      query: debouncedSearchTerm,
+      filters: debouncedFilters,
+      onlyWorking,
+      sortOrder,
+      page: restoringPage ?? pagination.page,
+    };
+    const url = buildSearchUrl(state);
+    const current = parseSearchUrl(new URLSearchParams(window.location.search));
+    lastUrlRef.current = url;
+    if (url === buildSearchUrl(current)) return;
+
+    const isSameSearch =
+      buildSearchUrl({ ...state, page: 0 }) === buildSearchUrl({ ...current, page: 0 });
+    const href = url ? `?${url}` : window.location.pathname;
+    if (isSameSearch) {
+      window.history.replaceState(null, "", href);
+    } else {
+      window.history.pushState(null, "", href);
+    }
+  }, [
+    syncWithUrl,
+    debouncedSearchTerm,
+    debouncedFilters,
+    onlyWorking,
+    sortOrder,
+    pagination.page,
+    restoringPage,
+  ]);
+
+  // Load one page of results; resolves whether there are more to load
   const handleSearch = useCallback(
-    async (page: number, term: string, reset = false) => {
+    async (
+      page: number,
+      term: string,
+      searchFilters: StationFilters,
+      reset = false,
+    ): Promise<boolean> => {
       // Prevent multiple simultaneous calls
-      if (isLoadingMoreRef.current && !reset) return;
+      if (isLoadingMoreRef.current && !reset) return false;
 
       isLoadingMoreRef.current = true;
       setIsLoadingMore(true);
       const searchParams: StationSearchParams = {
+        ...getFilterSearchParams(searchFilters),
         page,
-        size: 20,
+        size: PAGE_SIZE,
       };
 
       // Only include non-empty parameters
@@ -75,18 +221,23 @@ export function StationSearch({ onStationSelect }: StationSearchProps) {
       const result = await searchStations(searchParams);
 
       if (result) {
+        setIsAutoLoadPaused(
+          !result.content.some((station) =>
+            isStationShown(station, searchFilters, onlyWorkingRef.current),
+          ),
+        );
         if (reset) {
           setStations(result.content);
           // Cache the results
-          setCachedStations(result.content, term);
+          setCachedStations(result.content, term, searchFilters);
         } else {
           setStations((prev) => [...prev, ...result.content]);
           // Append to cache
-          appendCachedStations(result.content, term);
+          appendCachedStations(result.content, term, searchFilters);
         }
         setPagination({
           page: result.page,
-          size: result.size,
+          size: PAGE_SIZE,
           totalElements: result.totalElements,
           totalPages: result.totalPages,
           hasMore: !result.last && result.content.length > 0,
@@ -96,7 +247,7 @@ export function StationSearch({ onStationSelect }: StationSearchProps) {
           setStations([]);
           setPagination({
             page: 0,
-            size: 20,
+            size: PAGE_SIZE,
             totalElements: 0,
             totalPages: 0,
             hasMore: false,
@@ -105,90 +256,71 @@ export function StationSearch({ onStationSelect }: StationSearchProps) {
       }
       isLoadingMoreRef.current = false;
       setIsLoadingMore(false);
+      return !!result && !result.last && result.content.length > 0;
     },
     [searchStations],
   );
 
-  // Load initial stations on mount (from cache or API)
+  // Load stations for the search term and filters (from cache or API).
+  // A search restored from the URL then loads its further pages one by one.
   useEffect(() => {
-    if (!hasLoadedRef.current && !debouncedSearchTerm) {
-      const cached = getCachedStations("");
-      if (cached && cached.length > 0 && hasValidCache("")) {
-        // Show cached stations immediately - no network request if cache is valid
+    const restorePage = restorePageRef.current;
+    restorePageRef.current = 0;
+    if (restorePage === 0) setRestoringPage(null);
+    let cancelled = false;
+
+    const load = async () => {
+      let loadedPage = 0;
+
+      // Check cache first
+      const cached = getCachedStations(debouncedSearchTerm, debouncedFilters);
+      if (cached && cached.length > 0 && hasValidCache(debouncedSearchTerm, debouncedFilters)) {
+        // Show cached data immediately - no network request if cache is valid
         setStations(cached);
-        // Set pagination to allow infinite scroll
+        // Continue infinite scroll after the cached pages
+        loadedPage = Math.max(Math.ceil(cached.length / PAGE_SIZE) - 1, 0);
         setPagination({
-          page: 0,
-          size: 20,
+          page: loadedPage,
+          size: PAGE_SIZE,
           totalElements: 0,
           totalPages: 0,
           hasMore: true,
         });
-        hasLoadedRef.current = true;
-        // No API call - cache is valid, use it
       } else {
-        // No valid cache - load initial stations from API
-        void handleSearch(0, "", true);
-        hasLoadedRef.current = true;
+        // No valid cache - fetch from API
+        setPagination({
+          page: 0,
+          size: PAGE_SIZE,
+          totalElements: 0,
+          totalPages: 0,
+          hasMore: true,
+        });
+        const hasMore = await handleSearch(0, debouncedSearchTerm, debouncedFilters, true);
+        if (!hasMore) return;
       }
-    }
-  }, [debouncedSearchTerm, handleSearch]);
 
-  // Perform search when searchTerm changes
-  useEffect(() => {
-    // Skip if this is the initial load (handled by the other effect)
-    if (!hasLoadedRef.current && !debouncedSearchTerm) return;
-
-    const hasSearchTerm = debouncedSearchTerm.trim().length > 0;
-
-    // Reset pagination when search term changes
-    setPagination({
-      page: 0,
-      size: 20,
-      totalElements: 0,
-      totalPages: 0,
-      hasMore: true,
+      for (let page = loadedPage + 1; page <= restorePage && !cancelled; page++) {
+        const hasMore = await handleSearch(page, debouncedSearchTerm, debouncedFilters);
+        if (!hasMore) break;
+      }
+    };
+    void load().then(() => {
+      if (!cancelled) setRestoringPage(null);
     });
 
-    if (hasSearchTerm) {
-      // Check cache first
-      const cached = getCachedStations(debouncedSearchTerm);
-      if (cached && cached.length > 0 && hasValidCache(debouncedSearchTerm)) {
-        // Show cached data immediately - no network request if cache is valid
-        setStations(cached);
-        setPagination((prev) => ({
-          ...prev,
-          hasMore: true, // Allow infinite scroll to load more
-        }));
-      } else {
-        // No valid cache - fetch from API
-        void handleSearch(0, debouncedSearchTerm, true);
-      }
-    } else {
-      // No search term - load from cache or load initial stations
-      const cached = getCachedStations("");
-      if (cached && cached.length > 0 && hasValidCache("")) {
-        // Show cached data - no network request if cache is valid
-        setStations(cached);
-        setPagination((prev) => ({
-          ...prev,
-          hasMore: true, // Allow infinite scroll to load more
-        }));
-      } else {
-        // No valid cache - fetch from API
-        void handleSearch(0, "", true);
-      }
-    }
-  }, [debouncedSearchTerm, handleSearch]);
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedSearchTerm, debouncedFilters, handleSearch]);
 
   // Infinite scroll observer
   useEffect(() => {
-    if (!pagination.hasMore || isLoadingMore || isLoading) return;
+    if (!pagination.hasMore || isAutoLoadPaused || isLoadingMore || isLoading) return;
 
     const observer = new IntersectionObserver(
       (entries) => {
         if (entries[0]?.isIntersecting && !isLoadingMoreRef.current) {
-          void handleSearch(pagination.page + 1, debouncedSearchTerm, false);
+          void handleSearch(pagination.page + 1, debouncedSearchTerm, debouncedFilters, false);
         }
       },
       { threshold: 0.1, rootMargin: "100px" }
@@ -204,15 +336,43 @@ export function StationSearch({ onStationSelect }: StationSearchProps) {
         observer.unobserve(currentTarget);
       }
     };
-  }, [pagination.hasMore, pagination.page, isLoadingMore, isLoading, debouncedSearchTerm, handleSearch]);
+  }, [
+    pagination.hasMore,
+    pagination.page,
+    isAutoLoadPaused,
+    isLoadingMore,
+    isLoading,
+    debouncedSearchTerm,
+    debouncedFilters,
+    handleSearch,
+  ]);
+
+  // Filtering and sorting apply to the loaded pages; the API knows nothing of it
+  const visibleStations = useMemo(() => {
+    const filtered = stations.filter((station) =>
+      isStationShown(station, debouncedFilters, onlyWorking),
+    );
+    return sortOrder === "working-first" ? sortBrokenLast(filtered) : filtered;
+  }, [stations, debouncedFilters, onlyWorking, sortOrder]);
+
+  const activeFilterCount = getFilterChips(filters).length;
+
+  // Each search remembers its own scroll position
+  const listKey = `search?${buildSearchUrl({
+    query: debouncedSearchTerm,
+    filters: debouncedFilters,
+    onlyWorking,
+    sortOrder,
+    page: 0,
+  })}`;
 
   const handleStationClick = useCallback(
     (station: RadioStation) => {
       // Set stations list for navigation
-      setPlayerStations(stations);
+      setPlayerStations(visibleStations);
       onStationSelect?.(station);
     },
-    [onStationSelect, stations, setPlayerStations],
+    [onStationSelect, visibleStations, setPlayerStations],
   );
 
   return (
@@ -228,6 +388,7 @@ export function StationSearch({ onStationSelect }: StationSearchProps) {
         <div className="relative max-w-2xl mx-auto">
           <Search className="absolute left-5 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
           <Input
+            ref={inputRef}
             type="text"
             placeholder="Search stations..."
             value={query}
@@ -237,6 +398,43 @@ export function StationSearch({ onStationSelect }: StationSearchProps) {
             className="pl-14 h-14 text-base font-medium bg-muted/20 border-border/60 rounded-2xl transition-all duration-200 focus:bg-muted/30 focus:border-primary/50 focus:ring-2 focus:ring-primary/20"
           />
         </div>
+        <div className="mt-4 flex flex-wrap items-center justify-center gap-x-6 gap-y-2 text-sm">
+          <button
+            type="button"
+            onClick={() => setIsFilterPanelOpen((open) => !open)}
+            className={`flex items-center gap-2 rounded-full border px-3 py-1 transition-colors hover:bg-accent ${
+              isFilterPanelOpen || activeFilterCount > 0 ? "border-primary/50 text-primary" : ""
+            }`}
+            aria-expanded={isFilterPanelOpen}
+          >
+            <SlidersHorizontal className="h-4 w-4" />
+            Filters{activeFilterCount > 0 ? ` (${activeFilterCount})` : ""}
+          </button>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={onlyWorking}
+              onChange={(e) => setOnlyWorking(e.target.checked)}
+              className="h-4 w-4 accent-primary"
+            />
+            Only working stations
+          </label>
+          <label className="flex items-center gap-2">
+            <span className="text-muted-foreground">Sort</span>
+            <select
+              value={sortOrder}
+              onChange={(e) => setSortOrder(e.target.value as SearchSortOrder)}
+              className="h-8 rounded-md border border-input bg-transparent px-2 text-sm"
+            >
+              <option value="relevance">Best match</option>
+              <option value="working-first">Working stations first</option>
+            </select>
+          </label>
+        </div>
+        {isFilterPanelOpen && (
+          <StationFilterPanel filters={filters} onChange={setFilters} stations={stations} />
+        )}
+        <StationFilterChips filters={filters} onChange={setFilters} />
       </div>
 
       <div className="max-w-4xl mx-auto">
@@ -264,10 +462,25 @@ export function StationSearch({ onStationSelect }: StationSearchProps) {
           </div>
         ) : stations.length > 0 ? (
           <>
-            <div className="space-y-3">
-              {stations.map((station) => (
+            {visibleStations.length === 0 && (
+              <p className="text-center text-muted-foreground py-10">
+                None of the stations loaded so far match.{" "}
+                {onlyWorking && (
+                  <button
+                    type="button"
+                    onClick={() => setOnlyWorking(false)}
+                    className="text-primary hover:underline underline-offset-4"
+                  >
+                    Include stations that may be offline
+                  </button>
+                )}
+              </p>
+            )}
+            <VirtualStationList
+              stations={visibleStations}
+              listKey={listKey}
+              renderStation={(station) => (
                 <StationCard
-                  key={station.stationUuid ?? station.id}
                   station={station}
                   onClick={() => handleStationClick(station)}
                   onFavoriteToggle={(isFavorite) => {
@@ -281,8 +494,8 @@ export function StationSearch({ onStationSelect }: StationSearchProps) {
                   }}
                   showGlobeIcon={true}
                 />
-              ))}
-            </div>
+              )}
+            />
 
             {/* Loading more skeletons - appears after existing items */}
             {isLoadingMore && (
@@ -310,21 +523,39 @@ export function StationSearch({ onStationSelect }: StationSearchProps) {
             )}
 
             {/* Infinite scroll trigger - invisible element to detect when to load more */}
-            {pagination.hasMore && (
+            {pagination.hasMore && !isAutoLoadPaused && (
               <div ref={observerTarget} className="h-20 py-8" aria-hidden="true" />
             )}
+
+            {pagination.hasMore && isAutoLoadPaused && !isLoadingMore && (
+              <div className="mt-6 flex flex-col items-center gap-3">
+                <p className="text-sm text-muted-foreground">
+                  Filtered on the {stations.length.toLocaleString("en")} stations loaded so far.
+                </p>
+                <Button
+                  variant="outline"
+                  onClick={() =>
+                    void handleSearch(pagination.page + 1, debouncedSearchTerm, debouncedFilters)
+                  }
+                >
+                  Load more
+                </Button>
+              </div>
+            )}
           </>
-        ) : debouncedSearchTerm ? (
+        ) : debouncedSearchTerm || hasActiveFilters(debouncedFilters) ? (
           <div className="text-center py-20">
             <div className="w-20 h-20 bg-muted/30 rounded-full flex items-center justify-center mx-auto mb-6">
               <Search className="w-10 h-10 text-muted-foreground" />
             </div>
             <h3 className="text-2xl font-semibold mb-2 text-foreground">No stations found</h3>
             <p className="text-muted-foreground mb-4">
-              No stations found for &quot;{debouncedSearchTerm}&quot;
+              {debouncedSearchTerm
+                ? <>No stations found for &quot;{debouncedSearchTerm}&quot;</>
+                : "No stations match these filters"}
             </p>
             <p className="text-sm text-muted-foreground/70">
-              Try adjusting your search terms
+              Try adjusting your search terms or filters
             </p>
           </div>
         ) : null}
@@ -0,0 +1,78 @@
+/**
+ * Stream Health Badge Component
+ *
+ * Quality and latency of a station's stream from its last probe,
+ * or "Offline" when the probe failed.
+ *
+ * SOLID: Single Responsibility - Only renders the stream health badge
+ */
+
+"use client";
+
+import { Activity, WifiOff } from "lucide-react";
+import type { StreamProbeResult } from "~/lib/types/stream.types";
+import {
+  getStreamLatency,
+  getStreamQuality,
+  type StreamLatency,
+  type StreamQuality,
+} from "~/lib/utils/stream-probe";
+
+interface StreamHealthBadgeProps {
+  probe: StreamProbeResult | null;
+  /**
+   * Bitrate from the station directory, shown until a probe measures one
+   */
+  bitrate: number | null;
+}
+
+const QUALITY_STYLES: Record<StreamQuality, string> = {
+  high: "bg-green-500/10 text-green-600 dark:text-green-400",
+  standard: "bg-muted text-foreground",
+  low: "bg-amber-500/10 text-amber-600 dark:text-amber-400",
+};
+
+const LATENCY_LABELS: Record<StreamLatency, string> = {
+  fast: "Fast start",
+  average: "Starts in a moment",
+  slow: "Slow to start",
+};
+
+export function StreamHealthBadge({ probe, bitrate }: StreamHealthBadgeProps) {
+  if (probe && !probe.ok) {
+    return (
+      <span
+        className="flex items-center gap-1.5 px-2 py-0.5 rounded-md bg-destructive/10 text-destructive text-xs font-medium"
+        title={probe.error ?? "The stream did not respond"}
+      >
+        <WifiOff className="h-3.5 w-3.5" />
+        Offline
+      </span>
+    );
+  }
+
+  const kbps = probe?.declaredKbps ?? probe?.measuredKbps ?? bitrate;
+  if (!kbps) return null;
+
+  const quality = getStreamQuality(kbps);
+  const ttfbMs = probe?.ttfbMs ?? null;
+  const title = [
+    probe?.measuredKbps ? `Measured ${probe.measuredKbps} kbps` : null,
+    ttfbMs !== null ? `${LATENCY_LABELS[getStreamLatency(ttfbMs)]} (${ttfbMs} ms)` : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+  return (
+    <span
+      className={`flex items-center gap-1.5 px-2 py-0.5 rounded-md text-xs font-medium ${QUALITY_STYLES[quality]}`}
+      title={title || undefined}
+    >
+      <Activity className="h-3.5 w-3.5" />
+      {kbps} kbps
+      {ttfbMs !== null && (
+        <span className="text-muted-foreground font-normal">· {ttfbMs} ms</span>
+      )}
+    </span>
+  );
+}
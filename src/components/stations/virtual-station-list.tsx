@@ -0,0 +1,172 @@
+/**
+ * Virtual Station List Component
+ *
+ * Long, growing station lists (search results, favorites) where only
+ * the cards near the viewport are rendered.
+ *
+ * SOLID: Single Responsibility - Only handles windowed rendering of a station list
+ *
+ * The list scrolls with the page, so infinite-scroll triggers placed
+ * after it keep working. It also:
+ * - Restores the scroll position when coming back to the list, loading
+ *   further pages through the caller's trigger if needed
+ * - Keeps the card holding keyboard focus rendered while it is
+ *   scrolled out of view, so focus is never lost
+ */
+
+"use client";
+
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState, type ReactNode } from "react";
+import {
+  defaultRangeExtractor,
+  useWindowVirtualizer,
+  type Range,
+  type VirtualItem,
+} from "@tanstack/react-virtual";
+import type { RadioStation } from "~/lib/types/api.types";
+import { getListScrollState, saveListScrollState } from "~/lib/utils/list-scroll-state";
+
+const ESTIMATED_CARD_HEIGHT = 130;
+const CARD_GAP = 12;
+const OVERSCAN = 5;
+
+interface VirtualStationListProps {
+  stations: RadioStation[];
+  /**
+   * Identifies the list for scroll restoration, e.g. the search it shows
+   */
+  listKey: string;
+  renderStation: (station: RadioStation) => ReactNode;
+}
+
+function getStationKey(station: RadioStation): string | number {
+  return station.stationUuid ?? station.id;
+}
+
+export function VirtualStationList({ stations, listKey, renderStation }: VirtualStationListProps) {
+  const listRef = useRef<HTMLDivElement>(null);
+  const [scrollMargin, setScrollMargin] = useState(0);
+  const [focusedKey, setFocusedKey] = useState<VirtualItem["key"] | null>(null);
+  const [savedState] = useState(() =>
+    typeof window === "undefined" ? null : getListScrollState(listKey),
+  );
+  // Saved position to go back to, until it is reached or the user scrolls
+  const pendingRestoreRef = useRef<number | null>(null);
+  const lastSavedOffsetRef = useRef<number | null>(null);
+
+  const focusedIndex = useMemo(
+    () => (focusedKey === null ? -1 : stations.findIndex((s) => getStationKey(s) === focusedKey)),
+    [stations, focusedKey],
+  );
+
+  const rangeExtractor = useCallback(
+    (range: Range) => {
+      const indexes = defaultRangeExtractor(range);
+      if (focusedIndex < 0 || indexes.includes(focusedIndex)) return indexes;
+      return [...indexes, focusedIndex].sort((a, b) => a - b);
+    },
+    [focusedIndex],
+  );
+
+  const virtualizer = useWindowVirtualizer({
+    count: stations.length,
+    estimateSize: () => ESTIMATED_CARD_HEIGHT,
+    gap: CARD_GAP,
+    overscan: OVERSCAN,
+    scrollMargin,
+    getItemKey: (index) => (stations[index] ? getStationKey(stations[index]) : index),
+    rangeExtractor,
+    initialMeasurementsCache: savedState?.measurements,
+    onChange: (instance) => {
+      const offset = instance.scrollOffset;
+      if (
+        instance.isScrolling ||
+        offset === null ||
+        offset === lastSavedOffsetRef.current ||
+        pendingRestoreRef.current !== null
+      ) {
+        return;
+      }
+      lastSavedOffsetRef.current = offset;
+      saveListScrollState(listKey, { offset, measurements: instance.takeSnapshot() });
+    },
+  });
+
+  // The list's distance from the top of the page, which moves with the content above it
+  useLayoutEffect(() => {
+    const list = listRef.current;
+    if (!list) return;
+
+    const updateScrollMargin = () => {
+      setScrollMargin(list.getBoundingClientRect().top + window.scrollY);
+    };
+    updateScrollMargin();
+
+    const observer = new ResizeObserver(updateScrollMargin);
+    observer.observe(document.body);
+    return () => observer.disconnect();
+  }, []);
+
+  // A list coming back (remount or back/forward to it) returns to where it was left
+  useEffect(() => {
+    const offset = getListScrollState(listKey)?.offset ?? null;
+    pendingRestoreRef.current = offset !== null && offset > 0 ? offset : null;
+    lastSavedOffsetRef.current = offset;
+    if (pendingRestoreRef.current === null) return;
+
+    const cancelRestore = () => {
+      pendingRestoreRef.current = null;
+    };
+    const events = ["wheel", "touchstart", "keydown", "pointerdown"] as const;
+    events.forEach((event) => window.addEventListener(event, cancelRestore, { passive: true }));
+    return () => {
+      events.forEach((event) => window.removeEventListener(event, cancelRestore));
+    };
+  }, [listKey]);
+
+  // Scroll as far towards the saved position as the loaded stations allow.
+  // Stopping short at the bottom reveals the caller's load-more trigger,
+  // and the next page brings us here again.
+  useEffect(() => {
+    const target = pendingRestoreRef.current;
+    if (target === null || stations.length === 0) return;
+
+    window.scrollTo(0, target);
+    if (window.scrollY >= target - 1) pendingRestoreRef.current = null;
+  }, [stations.length, scrollMargin]);
+
+  return (
+    <div
+      ref={listRef}
+      role="list"
+      className="relative w-full"
+      style={{ height: virtualizer.getTotalSize() }}
+    >
+      {virtualizer.getVirtualItems().map((item) => {
+        const station = stations[item.index];
+        if (!station) return null;
+
+        return (
+          <div
+            key={item.key}
+            ref={virtualizer.measureElement}
+            data-index={item.index}
+            role="listitem"
+            aria-setsize={stations.length}
+            aria-posinset={item.index + 1}
+            className="absolute left-0 w-full"
+            // Positioned with top rather than a transform, so card menus
+            // can still overlap the cards after them
+            style={{ top: item.start - scrollMargin }}
+            onFocus={() => setFocusedKey(item.key)}
+            onBlur={(e) => {
+              if (!e.currentTarget.contains(e.relatedTarget)) setFocusedKey(null);
+            }}
+          >
+            {renderStation(station)}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+/**
+ * Audio Graph
+ *
+ * Shared Web Audio processing chain for the player's <audio> elements:
+ *
+ *   element source → 10-band equalizer → normalizer gain → compressor
+ *                  → analyser → destination
+ *
+ * A second analyser taps the equalizer output to measure the stream's
+ * loudness before normalization.
+ *
+ * SOLID: Single Responsibility - Only manages Web Audio nodes
+ *
+ * The AudioContext is created lazily on the first attach, since browsers
+ * only allow it to run after a user gesture. An element can only be
+ * attached when its stream was loaded with CORS ("crossOrigin"), otherwise
+ * the browser taints it and the graph would output silence, so callers
+ * fall back to plain element playback for such stations.
+ */
+
+import { EQ_BAND_FREQUENCIES } from "./equalizer";
+
+const PEAKING_Q = 1.4;
+const ANALYSER_FFT_SIZE = 2048;
+const SILENCE_DB = -90;
+
+class AudioGraph {
+  private context: AudioContext | null = null;
+  private input: GainNode | null = null;
+  private equalizerBands: BiquadFilterNode[] = [];
+  private analyser: AnalyserNode | null = null;
+  private loudnessAnalyser: AnalyserNode | null = null;
+  private normalizerGain: GainNode | null = null;
+  private compressor: DynamicsCompressorNode | null = null;
+  private normalizationEnabled = false;
+  private normalizationGainDb = 0;
+  private sources = new WeakMap<HTMLMediaElement, MediaElementAudioSourceNode>();
+  private equalizerGains: number[] = EQ_BAND_FREQUENCIES.map(() => 0);
+
+  /**
+   * Whether the browser supports Web Audio
+   */
+  isSupported(): boolean {
+    return typeof window !== "undefined" && typeof window.AudioContext !== "undefined";
+  }
+
+  /**
+   * Route an element through the graph. Returns false if Web Audio is
+   * unavailable, in which case the element keeps playing directly.
+   */
+  attach(element: HTMLMediaElement): boolean {
+    const context = this.ensureContext();
+    if (!context || !this.input) return false;
+
+    // An element can only ever get one source node, so reconnect it
+    const existing = this.sources.get(element);
+    if (existing) {
+      existing.connect(this.input);
+      return true;
+    }
+
+    try {
+      const source = context.createMediaElementSource(element);
+      source.connect(this.input);
+      this.sources.set(element, source);
+      return true;
+    } catch (error) {
+      console.error("Failed to attach audio element to Web Audio:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Disconnect an element, e.g. before it is removed from the page
+   */
+  detach(element: HTMLMediaElement): void {
+    this.sources.get(element)?.disconnect();
+  }
+
+  /**
+   * Resume the context. Call before playback: a suspended context
+   * would silence every attached element.
+   */
+  async resume(): Promise<void> {
+    if (this.context?.state === "suspended") {
+      await this.context.resume();
+    }
+  }
+
+  /**
+   * Analyser for visualizations, available once an element is attached
+   */
+  getAnalyser(): AnalyserNode | null {
+    return this.analyser;
+  }
+
+  /**
+   * Set the gain (dB) of each equalizer band
+   */
+  setEqualizerGains(gains: number[]): void {
+    this.equalizerGains = EQ_BAND_FREQUENCIES.map((_, index) => gains[index] ?? 0);
+    if (!this.context) return;
+
+    this.equalizerBands.forEach((band, index) => {
+      band.gain.setTargetAtTime(this.equalizerGains[index] ?? 0, this.context!.currentTime, 0.05);
+    });
+  }
+
+  /**
+   * Turn the normalization stage on or off. When off, the gain is
+   * unity and the compressor passes audio through untouched.
+   */
+  setNormalizationEnabled(enabled: boolean): void {
+    this.normalizationEnabled = enabled;
+    this.applyCompressorSettings();
+    if (!enabled) this.setNormalizationGain(0);
+  }
+
+  /**
+   * Set the normalization gain (dB), ramping smoothly to avoid jumps
+   */
+  setNormalizationGain(gainDb: number, timeConstantSec = 1): void {
+    this.normalizationGainDb = gainDb;
+    if (!this.context || !this.normalizerGain) return;
+    this.normalizerGain.gain.setTargetAtTime(
+      this.getNormalizationGain(),
+      this.context.currentTime,
+      timeConstantSec,
+    );
+  }
+
+  /**
+   * Short-term RMS level (dBFS) of the stream before normalization
+   */
+  measureLoudness(): number {
+    if (!this.loudnessAnalyser) return SILENCE_DB;
+
+    const samples = new Float32Array(this.loudnessAnalyser.fftSize);
+    this.loudnessAnalyser.getFloatTimeDomainData(samples);
+    let sumOfSquares = 0;
+    for (const sample of samples) {
+      sumOfSquares += sample * sample;
+    }
+    const rms = Math.sqrt(sumOfSquares / samples.length);
+    return rms > 0 ? Math.max(SILENCE_DB, 20 * Math.log10(rms)) : SILENCE_DB;
+  }
+
+  private getNormalizationGain(): number {
+    return this.normalizationEnabled ? Math.pow(10, this.normalizationGainDb / 20) : 1;
+  }
+
+  private applyCompressorSettings(): void {
+    if (!this.compressor) return;
+
+    // Catch peaks the normalization gain pushes up; neutral when disabled
+    this.compressor.threshold.value = this.normalizationEnabled ? -18 : 0;
+    this.compressor.knee.value = this.normalizationEnabled ? 12 : 0;
+    this.compressor.ratio.value = this.normalizationEnabled ? 4 : 1;
+    this.compressor.attack.value = 0.005;
+    this.compressor.release.value = 0.25;
+  }
+
+  private ensureContext(): AudioContext | null {
+    if (this.context) return this.context;
+    if (!this.isSupported()) return null;
+
+    try {
+      const context = new AudioContext();
+      const input = context.createGain();
+
+      // Shelving filters at the edges, peaking filters in between
+      const bands = EQ_BAND_FREQUENCIES.map((frequency, index) => {
+        const band = context.createBiquadFilter();
+        band.type =
+          index === 0
+            ? "lowshelf"
+            : index === EQ_BAND_FREQUENCIES.length - 1
+              ? "highshelf"
+              : "peaking";
+        band.frequency.value = frequency;
+        band.Q.value = PEAKING_Q;
+        band.gain.value = this.equalizerGains[index] ?? 0;
+        return band;
+      });
+
+      const normalizerGain = context.createGain();
+      normalizerGain.gain.value = this.getNormalizationGain();
+      const compressor = context.createDynamicsCompressor();
+      const loudnessAnalyser = context.createAnalyser();
+      loudnessAnalyser.fftSize = ANALYSER_FFT_SIZE;
+
+      const analyser = context.createAnalyser();
+      analyser.fftSize = ANALYSER_FFT_SIZE;
+      analyser.smoothingTimeConstant = 0.8;
+
+      let node: AudioNode = input;
+      for (const band of bands) {
+        node.connect(band);
+        node = band;
+      }
+      node.connect(loudnessAnalyser);
+      node.connect(normalizerGain);
+      normalizerGain.connect(compressor);
+      compressor.connect(analyser);
+      analyser.connect(context.destination);
+
+      this.context = context;
+      this.input = input;
+      this.equalizerBands = bands;
+      this.analyser = analyser;
+      this.loudnessAnalyser = loudnessAnalyser;
+      this.normalizerGain = normalizerGain;
+      this.compressor = compressor;
+      this.applyCompressorSettings();
+      return context;
+    } catch (error) {
+      console.error("Failed to create AudioContext:", error);
+      return null;
+    }
+  }
+}
+
+export const audioGraph = new AudioGraph();
@@ -0,0 +1,23 @@
+/**
+ * Crossfade Curves
+ *
+ * Volume curves for fading between two stations.
+ *
+ * SOLID: Single Responsibility - Only computes crossfade gains
+ */
+
+export const CROSSFADE_DURATION_OPTIONS_SEC = [0, 1, 2, 3, 5, 8];
+
+export const DEFAULT_CROSSFADE_SEC = 3;
+
+/**
+ * Equal-power gains at a point in the crossfade (0 → 1), so the
+ * overall loudness doesn't dip halfway through
+ */
+export function getCrossfadeGains(progress: number): { fadeOut: number; fadeIn: number } {
+  const clamped = Math.min(1, Math.max(0, progress));
+  return {
+    fadeOut: Math.cos((clamped * Math.PI) / 2),
+    fadeIn: Math.sin((clamped * Math.PI) / 2),
+  };
+}
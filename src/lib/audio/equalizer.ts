@@ -0,0 +1,49 @@
+/**
+ * Equalizer Definitions
+ *
+ * Band layout and presets for the 10-band graphic equalizer.
+ *
+ * SOLID: Single Responsibility - Only defines equalizer data
+ */
+
+export const EQ_BAND_FREQUENCIES = [31, 62, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
+
+export const EQ_MIN_GAIN_DB = -12;
+export const EQ_MAX_GAIN_DB = 12;
+
+export type EqualizerPresetId = "flat" | "bass-boost" | "vocal" | "classical" | "spoken-word";
+
+export interface EqualizerPreset {
+  id: EqualizerPresetId;
+  name: string;
+  gains: number[];
+}
+
+export const EQ_PRESETS: EqualizerPreset[] = [
+  { id: "flat", name: "Flat", gains: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0] },
+  { id: "bass-boost", name: "Bass Boost", gains: [7, 6, 5, 3, 1, 0, 0, 0, 0, 0] },
+  { id: "vocal", name: "Vocal", gains: [-2, -2, -1, 1, 3, 4, 4, 2, 0, -1] },
+  { id: "classical", name: "Classical", gains: [4, 3, 2, 1, -1, -1, 0, 2, 3, 4] },
+  { id: "spoken-word", name: "Spoken Word", gains: [-6, -4, -2, 1, 3, 5, 5, 3, 0, -3] },
+];
+
+/**
+ * Equalizer state: the preset it started from ("custom" once bands are edited)
+ * and the gain in dB for each band
+ */
+export interface EqualizerSetting {
+  presetId: EqualizerPresetId | "custom";
+  gains: number[];
+}
+
+export const FLAT_EQUALIZER: EqualizerSetting = {
+  presetId: "flat",
+  gains: EQ_PRESETS[0]!.gains,
+};
+
+/**
+ * Short label for a band frequency, e.g. "62" or "2k"
+ */
+export function formatBandFrequency(frequency: number): string {
+  return frequency >= 1000 ? `${frequency / 1000}k` : `${frequency}`;
+}
@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { startStreamCapture } from "./stream-capture";
+
+const STREAM_URL = "https://radio.example.com/live.mp3";
+
+const fetchMock = vi.fn<typeof fetch>();
+
+function chunkedResponse(chunks: number[][], headers: HeadersInit = {}): Response {
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(new Uint8Array(chunk));
+      controller.close();
+    },
+  });
+  return new Response(body, { headers });
+}
+
+beforeEach(() => {
+  vi.stubGlobal("fetch", fetchMock);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  fetchMock.mockReset();
+});
+
+describe("startStreamCapture", () => {
+  it("passes on the stream's bytes and reports its end", async () => {
+    fetchMock.mockResolvedValue(chunkedResponse([[1, 2], [3]], { "content-type": "audio/mpeg" }));
+    const onData = vi.fn();
+    let onEnd!: () => void;
+    const ended = new Promise<void>((resolve) => {
+      onEnd = resolve;
+    });
+
+    const capture = await startStreamCapture(STREAM_URL, { onData, onEnd });
+    await ended;
+
+    expect(capture?.mimeType).toBe("audio/mpeg");
+    expect(fetchMock).toHaveBeenCalledWith(
+      `/api/stream?url=${encodeURIComponent(STREAM_URL)}`,
+      expect.anything(),
+    );
+    expect(onData.mock.calls).toEqual([[new Uint8Array([1, 2])], [new Uint8Array([3])]]);
+  });
+
+  it("defaults to a generic type without a Content-Type", async () => {
+    fetchMock.mockResolvedValue(new Response(new ReadableStream<Uint8Array>()));
+
+    const capture = await startStreamCapture(STREAM_URL, { onData: vi.fn(), onEnd: vi.fn() });
+
+    expect(capture?.mimeType).toBe("application/octet-stream");
+    capture?.stop();
+  });
+
+  it("does not report an end after stop", async () => {
+    fetchMock.mockResolvedValue(new Response(new ReadableStream<Uint8Array>()));
+    const onEnd = vi.fn();
+
+    const capture = await startStreamCapture(STREAM_URL, { onData: vi.fn(), onEnd });
+    capture?.stop();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(fetchMock.mock.calls[0]![1]!.signal?.aborted).toBe(true);
+    expect(onEnd).not.toHaveBeenCalled();
+  });
+
+  it("resolves null when the stream can't be reached", async () => {
+    fetchMock.mockRejectedValueOnce(new TypeError("offline"));
+    await expect(startStreamCapture(STREAM_URL, { onData: vi.fn(), onEnd: vi.fn() })).resolves.toBeNull();
+
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 404 }));
+    await expect(startStreamCapture(STREAM_URL, { onData: vi.fn(), onEnd: vi.fn() })).resolves.toBeNull();
+  });
+});
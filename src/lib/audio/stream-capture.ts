@@ -0,0 +1,75 @@
+/**
+ * Stream Capture
+ *
+ * Reads a station's audio bytes exactly as broadcast, for recording.
+ * Keeping the original encoding means no quality loss and files that
+ * can be cut between any two chunks (MP3 and AAC frames are
+ * self-contained).
+ *
+ * SOLID: Single Responsibility - Only downloads raw stream audio
+ */
+
+import { getStreamProxyUrl } from "~/lib/utils/stream-proxy";
+
+export interface StreamCapture {
+  /**
+   * Content-Type of the captured audio
+   */
+  mimeType: string;
+  stop: () => void;
+}
+
+interface StreamCaptureCallbacks {
+  onData: (chunk: Uint8Array) => void;
+  /**
+   * The stream ended or dropped; not called after stop()
+   */
+  onEnd: () => void;
+}
+
+/**
+ * Start capturing a stream. Resolves null if it can't be reached.
+ */
+export async function startStreamCapture(
+  url: string,
+  { onData, onEnd }: StreamCaptureCallbacks,
+): Promise<StreamCapture | null> {
+  const controller = new AbortController();
+
+  let response: Response;
+  try {
+    response = await fetch(getStreamProxyUrl(url), { signal: controller.signal });
+  } catch {
+    return null;
+  }
+
+  if (!response.ok || !response.body) {
+    controller.abort();
+    return null;
+  }
+
+  const reader = response.body.getReader();
+  let isStopped = false;
+
+  const pump = async () => {
+    try {
+      while (!isStopped) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        onData(value);
+      }
+    } catch {
+      // Aborted by stop() or the connection dropped
+    }
+    if (!isStopped) onEnd();
+  };
+  void pump();
+
+  return {
+    mimeType: response.headers.get("content-type") ?? "application/octet-stream",
+    stop: () => {
+      isStopped = true;
+      controller.abort();
+    },
+  };
+}
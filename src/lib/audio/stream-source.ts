@@ -0,0 +1,167 @@
+/**
+ * Stream Source
+ *
+ * Loads a stream URL into an <audio> element. HLS streams play natively
+ * where the browser supports them (Safari, iOS) and through hls.js
+ * (Media Source Extensions) everywhere else. Other streams can be loaded
+ * through the time-shift buffer, falling back to direct playback.
+ *
+ * SOLID: Single Responsibility - Only attaches stream sources to media elements
+ *
+ * hls.js and time-shift failures don't set `audio.error`, so they are
+ * recorded here as the equivalent MediaError code and reported with a
+ * synthetic "error" event, letting players handle every path the same way.
+ */
+
+import type Hls from "hls.js";
+import { startTimeshiftSession, isTimeshiftSupported } from "./timeshift-buffer";
+
+const HLS_MIME_TYPE = "application/vnd.apple.mpegurl";
+
+interface StreamSession {
+  kind: "hls" | "timeshift";
+  destroy: () => void;
+}
+
+export interface LoadStreamOptions {
+  /**
+   * The station's `hls` flag
+   */
+  hls?: boolean | null;
+  /**
+   * Buffer the stream so it can be paused and rewound
+   */
+  timeshift?: boolean;
+}
+
+const sessions = new WeakMap<HTMLMediaElement, StreamSession>();
+const sessionErrorCodes = new WeakMap<HTMLMediaElement, number>();
+// Latest load per element, so a slow import or fetch can't override a newer source
+const loadTokens = new WeakMap<HTMLMediaElement, symbol>();
+
+/**
+ * Whether a stream is HLS, from the station's `hls` flag or a .m3u8 URL
+ */
+export function isHlsStream(url: string, hlsFlag?: boolean | null): boolean {
+  if (hlsFlag) return true;
+  try {
+    return new URL(url, window.location.href).pathname.toLowerCase().endsWith(".m3u8");
+  } catch {
+    return false;
+  }
+}
+
+function destroySession(audio: HTMLMediaElement): void {
+  sessions.get(audio)?.destroy();
+  sessions.delete(audio);
+}
+
+function reportSessionError(audio: HTMLMediaElement, code: number): void {
+  sessionErrorCodes.set(audio, code);
+  destroySession(audio);
+  audio.dispatchEvent(new Event("error"));
+}
+
+function loadDirect(audio: HTMLMediaElement, url: string): void {
+  audio.src = url;
+  audio.load();
+}
+
+/**
+ * Load a stream into the element. Completion and failures are reported
+ * through the element's usual "canplay" and "error" events.
+ */
+export async function loadStreamSource(
+  audio: HTMLMediaElement,
+  url: string,
+  { hls: hlsFlag, timeshift = false }: LoadStreamOptions = {},
+): Promise<void> {
+  const token = Symbol(url);
+  const isCurrent = () => loadTokens.get(audio) === token;
+  loadTokens.set(audio, token);
+  destroySession(audio);
+  sessionErrorCodes.delete(audio);
+
+  if (!isHlsStream(url, hlsFlag)) {
+    if (timeshift && isTimeshiftSupported()) {
+      const session = await startTimeshiftSession(audio, url, {
+        isCurrent,
+        onError: (code) => {
+          if (isCurrent()) reportSessionError(audio, code);
+        },
+        // Paused too long to resume; empty the element so the player reloads live
+        onExpire: () => {
+          if (isCurrent()) resetStreamSource(audio);
+        },
+      });
+      if (!isCurrent()) {
+        session?.destroy();
+        return;
+      }
+      if (session) {
+        sessions.set(audio, { kind: "timeshift", destroy: session.destroy });
+        return;
+      }
+    }
+    loadDirect(audio, url);
+    return;
+  }
+
+  if (audio.canPlayType(HLS_MIME_TYPE) !== "") {
+    loadDirect(audio, url);
+    return;
+  }
+
+  const { default: HlsPlayer } = await import("hls.js");
+  if (!isCurrent()) return;
+
+  if (!HlsPlayer.isSupported()) {
+    // Let the browser fail with its own "not supported" error
+    loadDirect(audio, url);
+    return;
+  }
+
+  const hls: Hls = new HlsPlayer({ enableWorker: true });
+  sessions.set(audio, { kind: "hls", destroy: () => hls.destroy() });
+
+  hls.on(HlsPlayer.Events.ERROR, (_event, data) => {
+    if (!data.fatal) return;
+
+    reportSessionError(
+      audio,
+      data.type === HlsPlayer.ErrorTypes.NETWORK_ERROR
+        ? MediaError.MEDIA_ERR_NETWORK
+        : data.type === HlsPlayer.ErrorTypes.MEDIA_ERROR
+          ? MediaError.MEDIA_ERR_DECODE
+          : MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED,
+    );
+  });
+
+  hls.loadSource(url);
+  hls.attachMedia(audio);
+}
+
+/**
+ * Stop loading and empty the element, including any HLS or time-shift session
+ */
+export function resetStreamSource(audio: HTMLMediaElement): void {
+  loadTokens.delete(audio);
+  destroySession(audio);
+  sessionErrorCodes.delete(audio);
+  audio.removeAttribute("src");
+  audio.load();
+}
+
+/**
+ * MediaError code of the element's last failure, native or session
+ */
+export function getStreamErrorCode(audio: HTMLMediaElement): number | null {
+  return audio.error?.code ?? sessionErrorCodes.get(audio) ?? null;
+}
+
+/**
+ * Whether the element plays through the time-shift buffer
+ */
+export function isTimeshifting(audio: HTMLMediaElement): boolean {
+  return sessions.get(audio)?.kind === "timeshift";
+}
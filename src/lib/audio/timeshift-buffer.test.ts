@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi, type MockInstance } from "vitest";
+import { isTimeshiftSupported, startTimeshiftSession } from "./timeshift-buffer";
+
+const STREAM_URL = "https://radio.example.com/live.mp3";
+
+class FakeMediaSource extends EventTarget {
+  static isTypeSupported = vi.fn((type: string) => type === "audio/mpeg" || type === "audio/aac");
+  readyState = "closed";
+}
+
+function createAudio() {
+  return Object.assign(new EventTarget(), { src: "", currentTime: 0 }) as unknown as HTMLMediaElement;
+}
+
+function streamResponse(contentType: string, init: ResponseInit = {}): Response {
+  // Never ends, like a live stream
+  return new Response(new ReadableStream<Uint8Array>(), {
+    ...init,
+    headers: { "content-type": contentType },
+  });
+}
+
+const fetchMock = vi.fn<typeof fetch>();
+let revokeObjectURL: MockInstance<typeof URL.revokeObjectURL>;
+const callbacks = () => ({ isCurrent: () => true, onError: vi.fn(), onExpire: vi.fn() });
+
+beforeEach(() => {
+  vi.stubGlobal("fetch", fetchMock);
+  vi.stubGlobal("MediaSource", FakeMediaSource);
+  vi.spyOn(URL, "createObjectURL").mockReturnValue("blob:timeshift");
+  revokeObjectURL = vi.spyOn(URL, "revokeObjectURL").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  fetchMock.mockReset();
+});
+
+describe("isTimeshiftSupported", () => {
+  it("needs Media Source Extensions in a browser", () => {
+    expect(isTimeshiftSupported()).toBe(false);
+
+    vi.stubGlobal("window", { MediaSource: FakeMediaSource });
+    expect(isTimeshiftSupported()).toBe(true);
+  });
+});
+
+describe("startTimeshiftSession", () => {
+  it("reads the stream through the proxy", async () => {
+    fetchMock.mockResolvedValue(streamResponse("audio/mpeg"));
+
+    await startTimeshiftSession(createAudio(), STREAM_URL, callbacks());
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      `/api/stream?url=${encodeURIComponent(STREAM_URL)}`,
+      expect.objectContaining({ signal: expect.any(AbortSignal) as AbortSignal }),
+    );
+  });
+
+  it("buffers supported streams into the element", async () => {
+    fetchMock.mockResolvedValue(streamResponse("audio/aacp; charset=binary"));
+    const audio = createAudio();
+
+    const session = await startTimeshiftSession(audio, STREAM_URL, callbacks());
+
+    expect(session).not.toBeNull();
+    expect(audio.src).toBe("blob:timeshift");
+  });
+
+  it("stops the download and releases the element's source on destroy", async () => {
+    fetchMock.mockResolvedValue(streamResponse("audio/mpeg"));
+
+    const session = await startTimeshiftSession(createAudio(), STREAM_URL, callbacks());
+    session?.destroy();
+
+    const { signal } = fetchMock.mock.calls[0]![1]!;
+    expect(signal?.aborted).toBe(true);
+    expect(revokeObjectURL).toHaveBeenCalledWith("blob:timeshift");
+  });
+
+  it("falls back when the proxy can't be reached or fails", async () => {
+    const audio = createAudio();
+
+    fetchMock.mockRejectedValueOnce(new TypeError("offline"));
+    await expect(startTimeshiftSession(audio, STREAM_URL, callbacks())).resolves.toBeNull();
+
+    fetchMock.mockResolvedValueOnce(streamResponse("audio/mpeg", { status: 502 }));
+    await expect(startTimeshiftSession(audio, STREAM_URL, callbacks())).resolves.toBeNull();
+
+    expect(audio.src).toBe("");
+  });
+
+  it("falls back for formats Media Source Extensions can't take", async () => {
+    fetchMock.mockResolvedValue(streamResponse("audio/ogg"));
+    const audio = createAudio();
+
+    await expect(startTimeshiftSession(audio, STREAM_URL, callbacks())).resolves.toBeNull();
+    expect(fetchMock.mock.calls[0]![1]!.signal?.aborted).toBe(true);
+    expect(audio.src).toBe("");
+  });
+
+  it("gives up when a newer load took over while connecting", async () => {
+    fetchMock.mockResolvedValue(streamResponse("audio/mpeg"));
+    const audio = createAudio();
+
+    const session = await startTimeshiftSession(audio, STREAM_URL, {
+      ...callbacks(),
+      isCurrent: () => false,
+    });
+
+    expect(session).toBeNull();
+    expect(audio.src).toBe("");
+  });
+});
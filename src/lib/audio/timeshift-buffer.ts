@@ -0,0 +1,217 @@
+/**
+ * Time-Shift Buffer
+ *
+ * Plays a live MP3/AAC stream through Media Source Extensions while keeping
+ * a rolling window of the received audio. Pausing keeps the download going,
+ * so playback resumes where it stopped and the element can seek anywhere
+ * inside the window, up to the live edge.
+ *
+ * SOLID: Single Responsibility - Only buffers live streams for time-shifting
+ *
+ * The stream is read through the /api/stream proxy, since stations rarely
+ * allow cross-origin fetches.
+ */
+
+import { getStreamProxyUrl } from "~/lib/utils/stream-proxy";
+
+export const TIMESHIFT_WINDOW_SEC = 30 * 60;
+
+// Trim in batches rather than after every append
+const TRIM_SLACK_SEC = 60;
+// Oldest audio dropped to make room when the browser's buffer quota is full
+const QUOTA_TRIM_SEC = 120;
+// Stop downloading when paused this long; the paused position is gone by then
+const PAUSED_EXPIRY_MS = TIMESHIFT_WINDOW_SEC * 1000;
+
+// Stream Content-Types that MSE can take as-is
+const MSE_TYPES: Record<string, string> = {
+  "audio/mpeg": "audio/mpeg",
+  "audio/mp3": "audio/mpeg",
+  "audio/aac": "audio/aac",
+  "audio/aacp": "audio/aac",
+  "audio/x-aac": "audio/aac",
+};
+
+export interface TimeshiftSession {
+  destroy: () => void;
+}
+
+interface TimeshiftCallbacks {
+  /**
+   * False once a newer load took over the element
+   */
+  isCurrent: () => boolean;
+  /**
+   * The download failed or ended, with the equivalent MediaError code
+   */
+  onError: (code: number) => void;
+  /**
+   * The element stayed paused past the window and the session stopped
+   */
+  onExpire: () => void;
+}
+
+function concatChunks(chunks: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const data = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.byteLength, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return data;
+}
+
+export function isTimeshiftSupported(): boolean {
+  return typeof window !== "undefined" && "MediaSource" in window;
+}
+
+function getMseType(contentType: string | null): string | null {
+  const mimeType = contentType?.split(";")[0]?.trim().toLowerCase();
+  const mseType = mimeType ? MSE_TYPES[mimeType] : undefined;
+  return mseType && MediaSource.isTypeSupported(mseType) ? mseType : null;
+}
+
+/**
+ * Start buffering a stream into the element
+ *
+ * Resolves null, leaving the element untouched, when the stream can't be
+ * reached through the proxy or its format can't be buffered; the caller
+ * should then play the URL directly.
+ */
+export async function startTimeshiftSession(
+  audio: HTMLMediaElement,
+  url: string,
+  { isCurrent, onError, onExpire }: TimeshiftCallbacks,
+): Promise<TimeshiftSession | null> {
+  const controller = new AbortController();
+
+  let response: Response;
+  try {
+    response = await fetch(getStreamProxyUrl(url), { signal: controller.signal });
+  } catch {
+    return null;
+  }
+
+  const mseType = response.ok ? getMseType(response.headers.get("content-type")) : null;
+  if (!mseType || !response.body || !isCurrent()) {
+    controller.abort();
+    return null;
+  }
+
+  const mediaSource = new MediaSource();
+  const objectUrl = URL.createObjectURL(mediaSource);
+  const reader = response.body.getReader();
+  const pendingChunks: Uint8Array[] = [];
+  let sourceBuffer: SourceBuffer | null = null;
+  let pausedTimer: ReturnType<typeof setTimeout> | null = null;
+  let isDestroyed = false;
+
+  const clearPausedTimer = () => {
+    if (pausedTimer) clearTimeout(pausedTimer);
+    pausedTimer = null;
+  };
+
+  const destroy = () => {
+    if (isDestroyed) return;
+    isDestroyed = true;
+    clearPausedTimer();
+    controller.abort();
+    audio.removeEventListener("pause", handlePause);
+    audio.removeEventListener("play", clearPausedTimer);
+    URL.revokeObjectURL(objectUrl);
+  };
+
+  const fail = (code: number) => {
+    if (isDestroyed) return;
+    destroy();
+    onError(code);
+  };
+
+  const handlePause = () => {
+    clearPausedTimer();
+    pausedTimer = setTimeout(() => {
+      destroy();
+      onExpire();
+    }, PAUSED_EXPIRY_MS);
+  };
+
+  const getBufferedRange = (): { start: number; end: number } | null => {
+    const buffered = sourceBuffer?.buffered;
+    if (!buffered?.length) return null;
+    return { start: buffered.start(0), end: buffered.end(buffered.length - 1) };
+  };
+
+  const removeBefore = (time: number) => {
+    // Keep a listener who paused long ago inside the remaining audio
+    if (audio.currentTime < time) audio.currentTime = time;
+    sourceBuffer?.remove(0, time);
+  };
+
+  const appendNext = () => {
+    if (isDestroyed || !sourceBuffer || sourceBuffer.updating) return;
+    if (mediaSource.readyState !== "open") return;
+
+    const range = getBufferedRange();
+    if (range && range.end - range.start > TIMESHIFT_WINDOW_SEC + TRIM_SLACK_SEC) {
+      removeBefore(range.end - TIMESHIFT_WINDOW_SEC);
+      return;
+    }
+    if (pendingChunks.length === 0) return;
+
+    const data = concatChunks(pendingChunks.splice(0));
+    try {
+      sourceBuffer.appendBuffer(data);
+    } catch (error) {
+      const isQuotaExceeded = error instanceof DOMException && error.name === "QuotaExceededError";
+      if (isQuotaExceeded && range && range.end - range.start > QUOTA_TRIM_SEC) {
+        pendingChunks.unshift(data);
+        removeBefore(range.start + QUOTA_TRIM_SEC);
+      } else {
+        fail(MediaError.MEDIA_ERR_DECODE);
+      }
+    }
+  };
+
+  const pump = async () => {
+    try {
+      while (!isDestroyed) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        pendingChunks.push(value);
+        appendNext();
+      }
+    } catch {
+      // Aborted by destroy() or the connection dropped
+    }
+    fail(MediaError.MEDIA_ERR_NETWORK);
+  };
+
+  mediaSource.addEventListener(
+    "sourceopen",
+    () => {
+      if (isDestroyed) return;
+      try {
+        sourceBuffer = mediaSource.addSourceBuffer(mseType);
+        // Live streams carry no timestamps; lay the chunks end to end
+        sourceBuffer.mode = "sequence";
+      } catch {
+        fail(MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED);
+        return;
+      }
+      sourceBuffer.addEventListener("updateend", appendNext);
+      sourceBuffer.addEventListener("error", () => fail(MediaError.MEDIA_ERR_DECODE));
+      appendNext();
+    },
+    { once: true },
+  );
+
+  // The element moved on to another source without telling us
+  mediaSource.addEventListener("sourceclose", destroy);
+
+  audio.addEventListener("pause", handlePause);
+  audio.addEventListener("play", clearPausedTimer);
+  audio.src = objectUrl;
+  void pump();
+
+  return { destroy };
+}
@@ -0,0 +1,130 @@
+/**
+ * Visualizer Rendering
+ *
+ * Canvas drawing routines for the audio spectrum visualizer.
+ * Each mode draws one frame from the analyser's current data.
+ *
+ * SOLID: Single Responsibility - Only draws visualizer frames
+ */
+
+export type VisualizerMode = "bars" | "waveform" | "radial";
+
+export const VISUALIZER_MODES: { id: VisualizerMode; name: string }[] = [
+  { id: "bars", name: "Bars" },
+  { id: "waveform", name: "Waveform" },
+  { id: "radial", name: "Radial" },
+];
+
+// Most stream energy sits in the lower part of the spectrum
+const USABLE_SPECTRUM_RATIO = 0.6;
+
+/**
+ * Pick `count` values from the frequency data, spaced so low
+ * frequencies get more resolution than high ones
+ */
+function sampleSpectrum(data: Uint8Array, count: number): number[] {
+  const usableBins = Math.floor(data.length * USABLE_SPECTRUM_RATIO);
+  return Array.from({ length: count }, (_, i) => {
+    const index = Math.floor(Math.pow(i / count, 1.6) * usableBins);
+    return (data[index] ?? 0) / 255;
+  });
+}
+
+function drawBars(
+  ctx: CanvasRenderingContext2D,
+  analyser: AnalyserNode,
+  width: number,
+  height: number,
+) {
+  const data = new Uint8Array(analyser.frequencyBinCount);
+  analyser.getByteFrequencyData(data);
+
+  const barCount = Math.max(8, Math.min(96, Math.floor(width / 6)));
+  const gap = Math.max(1, width / barCount / 4);
+  const barWidth = width / barCount - gap;
+
+  sampleSpectrum(data, barCount).forEach((value, i) => {
+    const barHeight = Math.max(1, value * height);
+    ctx.fillRect(i * (barWidth + gap) + gap / 2, height - barHeight, barWidth, barHeight);
+  });
+}
+
+function drawWaveform(
+  ctx: CanvasRenderingContext2D,
+  analyser: AnalyserNode,
+  width: number,
+  height: number,
+) {
+  const data = new Uint8Array(analyser.fftSize);
+  analyser.getByteTimeDomainData(data);
+
+  ctx.lineWidth = Math.max(1.5, height / 60);
+  ctx.beginPath();
+  const step = width / (data.length - 1);
+  data.forEach((sample, i) => {
+    const y = (sample / 255) * height;
+    if (i === 0) {
+      ctx.moveTo(0, y);
+    } else {
+      ctx.lineTo(i * step, y);
+    }
+  });
+  ctx.stroke();
+}
+
+function drawRadial(
+  ctx: CanvasRenderingContext2D,
+  analyser: AnalyserNode,
+  width: number,
+  height: number,
+) {
+  const data = new Uint8Array(analyser.frequencyBinCount);
+  analyser.getByteFrequencyData(data);
+
+  const size = Math.min(width, height);
+  const innerRadius = size * 0.22;
+  const maxLength = size * 0.26;
+  const spokeCount = size < 120 ? 32 : 96;
+  const centerX = width / 2;
+  const centerY = height / 2;
+
+  ctx.lineWidth = Math.max(1.5, ((2 * Math.PI * innerRadius) / spokeCount) * 0.5);
+  ctx.lineCap = "round";
+  ctx.beginPath();
+  sampleSpectrum(data, spokeCount).forEach((value, i) => {
+    const angle = (i / spokeCount) * 2 * Math.PI - Math.PI / 2;
+    const length = Math.max(1, value * maxLength);
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    ctx.moveTo(centerX + cos * innerRadius, centerY + sin * innerRadius);
+    ctx.lineTo(centerX + cos * (innerRadius + length), centerY + sin * (innerRadius + length));
+  });
+  ctx.stroke();
+}
+
+/**
+ * Clear the canvas and draw one frame in the given mode and color
+ */
+export function drawVisualizerFrame(
+  ctx: CanvasRenderingContext2D,
+  analyser: AnalyserNode,
+  mode: VisualizerMode,
+  color: string,
+) {
+  const { width, height } = ctx.canvas;
+  ctx.clearRect(0, 0, width, height);
+  ctx.fillStyle = color;
+  ctx.strokeStyle = color;
+
+  switch (mode) {
+    case "bars":
+      drawBars(ctx, analyser, width, height);
+      break;
+    case "waveform":
+      drawWaveform(ctx, analyser, width, height);
+      break;
+    case "radial":
+      drawRadial(ctx, analyser, width, height);
+      break;
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * useAlarmRamp Hook
+ *
+ * Volume ramp-up for a ringing wake-up alarm.
+ *
+ * SOLID: Single Responsibility - Only computes the alarm volume ramp
+ */
+
+import { useEffect, useState } from "react";
+import { useAlarmStore } from "~/lib/store/alarm-store";
+import { getRampMultiplier } from "~/lib/utils/alarm-schedule";
+
+const RAMP_TICK_MS = 250;
+
+export function useAlarmRamp() {
+  const { alarms, ringing } = useAlarmStore();
+  const [now, setNow] = useState(() => Date.now());
+
+  const ringingAlarm = ringing
+    ? (alarms.find((alarm) => alarm.id === ringing.alarmId) ?? null)
+    : null;
+  const startedAt = ringing?.playbackStartedAt ?? null;
+  const rampDurationSec = ringingAlarm?.rampDurationSec ?? 0;
+
+  // Stay quiet while the stream is still loading so playback never starts loud
+  const elapsedMs = startedAt === null ? 0 : now - startedAt;
+  const rampMultiplier = ringing ? getRampMultiplier(elapsedMs, rampDurationSec) : 1;
+
+  useEffect(() => {
+    if (startedAt === null || rampMultiplier >= 1) return;
+
+    const interval = setInterval(() => setNow(Date.now()), RAMP_TICK_MS);
+    return () => clearInterval(interval);
+  }, [startedAt, rampMultiplier]);
+
+  return {
+    ringing,
+    ringingAlarm,
+    rampMultiplier,
+  };
+}
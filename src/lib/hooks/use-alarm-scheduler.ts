@@ -0,0 +1,65 @@
+/**
+ * useAlarmScheduler Hook
+ *
+ * Watches the stored alarms and starts the wake-up station when one is due.
+ *
+ * SOLID: Single Responsibility - Only decides when alarms fire
+ *
+ * Alarms can only ring while an eRadio tab is open. With several tabs
+ * open, each sees the alarm come due, so firing takes a Web Lock and
+ * re-reads the stored alarms first: the tab that fires stores the new
+ * `lastTriggeredAt`, and the others find the alarm no longer due.
+ */
+
+import { useEffect } from "react";
+import { useAlarmStore } from "~/lib/store/alarm-store";
+import { usePlayerStore } from "~/lib/store/player-store";
+import { isAlarmDue } from "~/lib/utils/alarm-schedule";
+
+const CHECK_INTERVAL_MS = 10 * 1000;
+const ALARM_LOCK_NAME = "eradio-alarm-trigger";
+
+/**
+ * Run a callback while holding a lock shared by all tabs, or right away
+ * where the Web Locks API is missing
+ */
+async function withTabLock(name: string, callback: () => Promise<void>): Promise<void> {
+  if (typeof navigator !== "undefined" && "locks" in navigator) {
+    await navigator.locks.request(name, callback);
+    return;
+  }
+  await callback();
+}
+
+export function useAlarmScheduler() {
+  const { alarms, triggerAlarm } = useAlarmStore();
+  const { setCurrentStation, showPlayer } = usePlayerStore();
+
+  useEffect(() => {
+    if (!alarms.some((alarm) => alarm.enabled)) return;
+
+    const fireDueAlarm = async () => {
+      // Another tab may have fired it since this one last read storage
+      await useAlarmStore.persist.rehydrate();
+      const dueAlarm = useAlarmStore.getState().alarms.find((alarm) => isAlarmDue(alarm));
+      if (!dueAlarm) return;
+
+      triggerAlarm(dueAlarm.id);
+      setCurrentStation(dueAlarm.station);
+      showPlayer();
+    };
+
+    const checkAlarms = () => {
+      if (!alarms.some((alarm) => isAlarmDue(alarm))) return;
+
+      withTabLock(ALARM_LOCK_NAME, fireDueAlarm).catch((error: unknown) => {
+        console.error("Error triggering alarm:", error);
+      });
+    };
+
+    checkAlarms();
+    const interval = setInterval(checkAlarms, CHECK_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [alarms, triggerAlarm, setCurrentStation, showPlayer]);
+}
@@ -0,0 +1,98 @@
+/**
+ * useCountryStationCounts Hook
+ *
+ * Station counts per country for the station map.
+ *
+ * SOLID: Single Responsibility - Only loads country station counts
+ *
+ * This hook provides:
+ * - Each map country's station total, from a one-station search by its
+ *   directory name (the total comes with every search page), a few
+ *   countries at a time and added as each arrives
+ * - Cached counts right away when there are some
+ * - Loading and error states
+ */
+
+import { useEffect, useState } from "react";
+import { stationsApi } from "~/lib/api/stations.api";
+import { extractErrorMessage } from "~/lib/utils/error-handler";
+import { getDirectoryCountryName } from "~/lib/utils/directory-countries";
+import { loadWorldCountries } from "~/lib/utils/world-map";
+import {
+  getCachedCountryCounts,
+  setCachedCountryCounts,
+  type CountryStationCounts,
+} from "~/lib/utils/country-station-counts";
+
+const PARALLEL_COUNTS = 6;
+
+export function useCountryStationCounts() {
+  const [counts, setCounts] = useState<CountryStationCounts>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const cached = getCachedCountryCounts();
+    if (cached) {
+      setCounts(cached);
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    let counted: CountryStationCounts = {};
+    let lastError: unknown = null;
+
+    const countCountry = async (countryCode: string, name: string) => {
+      try {
+        const result = await stationsApi.search({
+          country: getDirectoryCountryName(countryCode) ?? name,
+          size: 1,
+        });
+        if (cancelled) return;
+
+        counted = { ...counted, [countryCode]: result.totalElements };
+        setCounts(counted);
+      } catch (err) {
+        lastError = err;
+      }
+    };
+
+    const load = async () => {
+      const names = new Map<string, string>();
+      for (const { countryCode, name } of await loadWorldCountries()) {
+        if (countryCode && !names.has(countryCode)) names.set(countryCode, name);
+      }
+      const queue = Array.from(names);
+
+      // A few searches at a time, each taking the next country when done
+      const worker = async () => {
+        for (let entry = queue.shift(); entry && !cancelled; entry = queue.shift()) {
+          await countCountry(...entry);
+        }
+      };
+      await Promise.all(Array.from({ length: PARALLEL_COUNTS }, worker));
+      if (cancelled) return;
+
+      if (lastError === null) {
+        setCachedCountryCounts(counted);
+      } else if (Object.keys(counted).length === 0) {
+        setError(extractErrorMessage(lastError));
+      }
+    };
+
+    load()
+      .catch((err: unknown) => {
+        if (!cancelled) setError(extractErrorMessage(err));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { counts, isLoading, error };
+}
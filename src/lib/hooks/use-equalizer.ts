@@ -0,0 +1,83 @@
+/**
+ * useEqualizer Hook
+ *
+ * Resolves the equalizer for the current station and applies it
+ * to the audio graph.
+ *
+ * SOLID: Single Responsibility - Only handles equalizer settings
+ *
+ * This hook provides:
+ * - The active setting (station override, else the global equalizer)
+ * - Preset and per-band edits, saved to wherever the active setting lives
+ * - Switching the station override on or off
+ */
+
+import { useCallback, useEffect } from "react";
+import { useAudioSettingsStore } from "~/lib/store/audio-settings-store";
+import { audioGraph } from "~/lib/audio/audio-graph";
+import { EQ_PRESETS, type EqualizerPresetId, type EqualizerSetting } from "~/lib/audio/equalizer";
+
+export function useEqualizer(stationUuid: string | null) {
+  const { equalizer, stationEqualizers, setEqualizer, setStationEqualizer, clearStationEqualizer } =
+    useAudioSettingsStore();
+
+  const stationSetting = stationUuid ? stationEqualizers[stationUuid] : undefined;
+  const setting = stationSetting ?? equalizer;
+  const isStationOverride = stationSetting !== undefined;
+
+  useEffect(() => {
+    audioGraph.setEqualizerGains(setting.gains);
+  }, [setting]);
+
+  const save = useCallback(
+    (next: EqualizerSetting) => {
+      if (isStationOverride && stationUuid) {
+        setStationEqualizer(stationUuid, next);
+      } else {
+        setEqualizer(next);
+      }
+    },
+    [isStationOverride, stationUuid, setStationEqualizer, setEqualizer],
+  );
+
+  const applyPreset = useCallback(
+    (presetId: EqualizerPresetId) => {
+      const preset = EQ_PRESETS.find((p) => p.id === presetId);
+      if (preset) save({ presetId, gains: [...preset.gains] });
+    },
+    [save],
+  );
+
+  const setBandGain = useCallback(
+    (index: number, gain: number) => {
+      const gains = [...setting.gains];
+      gains[index] = gain;
+      save({ presetId: "custom", gains });
+    },
+    [setting, save],
+  );
+
+  /**
+   * Start a station override from the current sound, or drop it
+   * and go back to the global equalizer
+   */
+  const setStationOverride = useCallback(
+    (enabled: boolean) => {
+      if (!stationUuid) return;
+      if (enabled) {
+        setStationEqualizer(stationUuid, setting);
+      } else {
+        clearStationEqualizer(stationUuid);
+      }
+    },
+    [stationUuid, setting, setStationEqualizer, clearStationEqualizer],
+  );
+
+  return {
+    setting,
+    isStationOverride,
+    applyPreset,
+    setBandGain,
+    setStationOverride,
+  };
+}
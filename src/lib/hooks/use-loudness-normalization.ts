@@ -0,0 +1,89 @@
+/**
+ * useLoudnessNormalization Hook
+ *
+ * Adapts the audio graph's normalization gain so every station plays
+ * at roughly the same loudness.
+ *
+ * SOLID: Single Responsibility - Only handles loudness adaptation
+ *
+ * This hook provides:
+ * - Short-term RMS measurement while the station plays
+ * - A slowly adapting gain towards the target loudness
+ * - The learned gain per station, saved and restored on the next play
+ */
+
+import { useEffect, useRef } from "react";
+import { useAudioSettingsStore } from "~/lib/store/audio-settings-store";
+import { audioGraph } from "~/lib/audio/audio-graph";
+import { getStationGainOffset, setStationGainOffset } from "~/lib/utils/station-loudness";
+
+const TARGET_LOUDNESS_DB = -20;
+const MIN_GAIN_DB = -12;
+const MAX_GAIN_DB = 12;
+const SILENCE_THRESHOLD_DB = -60;
+const MEASURE_INTERVAL_MS = 250;
+const SAVE_INTERVAL_MS = 10000;
+// Share of each measurement blended into the running estimate (~5s to settle)
+const ADAPT_RATE = 0.05;
+
+/**
+ * @param stationUuid - Station whose learned gain to use
+ * @param isActive - Whether audio is playing through the graph
+ * @param elementVolume - Current <audio> volume (0-1), which also scales the measured level
+ */
+export function useLoudnessNormalization(
+  stationUuid: string | null,
+  isActive: boolean,
+  elementVolume: number,
+) {
+  const isEnabled = useAudioSettingsStore((state) => state.normalizationEnabled);
+  const volumeRef = useRef(elementVolume);
+
+  useEffect(() => {
+    volumeRef.current = elementVolume;
+  }, [elementVolume]);
+
+  useEffect(() => {
+    audioGraph.setNormalizationEnabled(isEnabled);
+  }, [isEnabled]);
+
+  useEffect(() => {
+    if (!isEnabled || !stationUuid) return;
+
+    // Start from what was learned last time, if anything
+    const learnedGainDb = getStationGainOffset(stationUuid);
+    let gainDb = learnedGainDb ?? 0;
+    let loudnessDb = learnedGainDb !== null ? TARGET_LOUDNESS_DB - learnedGainDb : null;
+    audioGraph.setNormalizationGain(gainDb, 0.1);
+
+    if (!isActive) return;
+
+    let hasMeasured = false;
+    let lastSavedAt = Date.now();
+
+    const interval = setInterval(() => {
+      const volume = volumeRef.current;
+      if (volume < 0.01) return;
+
+      // Undo the element volume (user setting, sleep fade, alarm ramp)
+      // so turning it down isn't mistaken for a quiet stream
+      const measuredDb = audioGraph.measureLoudness() - 20 * Math.log10(volume);
+      if (measuredDb < SILENCE_THRESHOLD_DB) return;
+
+      loudnessDb = loudnessDb === null ? measuredDb : loudnessDb + ADAPT_RATE * (measuredDb - loudnessDb);
+      gainDb = Math.min(MAX_GAIN_DB, Math.max(MIN_GAIN_DB, TARGET_LOUDNESS_DB - loudnessDb));
+      audioGraph.setNormalizationGain(gainDb);
+      hasMeasured = true;
+
+      if (Date.now() - lastSavedAt > SAVE_INTERVAL_MS) {
+        setStationGainOffset(stationUuid, gainDb);
+        lastSavedAt = Date.now();
+      }
+    }, MEASURE_INTERVAL_MS);
+
+    return () => {
+      clearInterval(interval);
+      if (hasMeasured) setStationGainOffset(stationUuid, gainDb);
+    };
+  }, [isEnabled, stationUuid, isActive]);
+}
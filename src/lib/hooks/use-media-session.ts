@@ -0,0 +1,118 @@
+/**
+ * useMediaSession Hook
+ *
+ * Publishes the current station to the Media Session API, so lock screens,
+ * hardware media keys and Bluetooth headsets can show and control playback.
+ *
+ * SOLID: Single Responsibility - Only bridges player state to the OS media controls
+ */
+
+import { useEffect, useRef } from "react";
+import type { RadioStation } from "~/lib/types/api.types";
+import type { TrackMetadata } from "~/lib/types/stream.types";
+
+const FALLBACK_ARTWORK: MediaImage[] = [
+  { src: "/icon-192.png", sizes: "192x192", type: "image/png" },
+  { src: "/icon-512.png", sizes: "512x512", type: "image/png" },
+];
+
+interface MediaSessionHandlers {
+  onTogglePlayPause: () => void;
+  onPrevious?: () => void;
+  onNext?: () => void;
+}
+
+/**
+ * Build the artist line from the station's country and first few tags
+ */
+function getStationArtist(station: RadioStation): string {
+  const tags = station.tags
+    ?.split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean)
+    .slice(0, 3)
+    .join(", ");
+
+  return [station.country, tags].filter(Boolean).join(" · ") || "Radio Station";
+}
+
+export function useMediaSession(
+  station: RadioStation | null,
+  track: TrackMetadata | null,
+  isPlaying: boolean,
+  { onTogglePlayPause, onPrevious, onNext }: MediaSessionHandlers,
+) {
+  // Keep the latest handlers in a ref so action handlers are registered only once
+  const handlersRef = useRef({ isPlaying, onTogglePlayPause, onPrevious, onNext });
+  handlersRef.current = { isPlaying, onTogglePlayPause, onPrevious, onNext };
+
+  const hasPrevious = onPrevious !== undefined;
+  const hasNext = onNext !== undefined;
+
+  // Station metadata, or the current song when the stream provides one
+  useEffect(() => {
+    if (typeof navigator === "undefined" || !("mediaSession" in navigator)) return;
+
+    if (!station) {
+      navigator.mediaSession.metadata = null;
+      return;
+    }
+
+    navigator.mediaSession.metadata = new MediaMetadata({
+      title: track?.title ?? station.name,
+      artist: track ? (track.artist ?? station.name) : getStationArtist(station),
+      album: track ? station.name : "eRadio",
+      artwork: station.favicon ? [{ src: station.favicon }] : FALLBACK_ARTWORK,
+    });
+  }, [station, track]);
+
+  // Playback state
+  useEffect(() => {
+    if (typeof navigator === "undefined" || !("mediaSession" in navigator)) return;
+    navigator.mediaSession.playbackState = isPlaying ? "playing" : "paused";
+  }, [isPlaying]);
+
+  // Action handlers
+  useEffect(() => {
+    if (typeof navigator === "undefined" || !("mediaSession" in navigator)) return;
+
+    const actions: [MediaSessionAction, MediaSessionActionHandler | null][] = [
+      [
+        "play",
+        () => {
+          if (!handlersRef.current.isPlaying) handlersRef.current.onTogglePlayPause();
+        },
+      ],
+      [
+        "pause",
+        () => {
+          if (handlersRef.current.isPlaying) handlersRef.current.onTogglePlayPause();
+        },
+      ],
+      ["previoustrack", hasPrevious ? () => handlersRef.current.onPrevious?.() : null],
+      ["nexttrack", hasNext ? () => handlersRef.current.onNext?.() : null],
+    ];
+
+    const setHandlers = (clear: boolean) => {
+      for (const [action, handler] of actions) {
+        try {
+          navigator.mediaSession.setActionHandler(action, clear ? null : handler);
+        } catch {
+          // Action not supported by this browser
+        }
+      }
+    };
+
+    setHandlers(false);
+    return () => setHandlers(true);
+  }, [hasPrevious, hasNext]);
+
+  // Clear the OS controls when the player goes away
+  useEffect(() => {
+    return () => {
+      if (typeof navigator === "undefined" || !("mediaSession" in navigator)) return;
+      navigator.mediaSession.metadata = null;
+      navigator.mediaSession.playbackState = "none";
+    };
+  }, []);
+}
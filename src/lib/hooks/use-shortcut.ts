@@ -0,0 +1,27 @@
+/**
+ * useShortcut Hook
+ *
+ * Handles a keyboard shortcut action while the component is mounted.
+ *
+ * SOLID: Single Responsibility - Only registers a shortcut handler
+ *
+ * The global listener in KeyboardShortcuts maps keys to actions; this
+ * hook makes the component the action's handler. When several components
+ * handle the same action, the one mounted last wins.
+ */
+
+import { useEffect, useRef } from "react";
+import { registerShortcutHandler, type ShortcutAction } from "~/lib/utils/keyboard-shortcuts";
+
+export function useShortcut(action: ShortcutAction, handler: () => void, enabled = true) {
+  // Always call the latest handler without re-registering on every render
+  const handlerRef = useRef(handler);
+  useEffect(() => {
+    handlerRef.current = handler;
+  }, [handler]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    return registerShortcutHandler(action, () => handlerRef.current());
+  }, [action, enabled]);
+}
@@ -0,0 +1,52 @@
+/**
+ * useSleepTimer Hook
+ *
+ * Drives the player sleep timer.
+ *
+ * SOLID: Single Responsibility - Only handles the sleep timer countdown
+ *
+ * This hook provides:
+ * - Remaining time, ticking while a timer is set
+ * - A volume multiplier for the fade-out at the end
+ * - Stopping playback once the timer runs out
+ */
+
+import { useEffect, useState } from "react";
+import { useSleepTimerStore } from "~/lib/store/sleep-timer-store";
+import { usePlayerStore } from "~/lib/store/player-store";
+import { getFadeMultiplier } from "~/lib/utils/sleep-timer";
+
+const TICK_MS = 1000;
+const FADE_TICK_MS = 200;
+
+export function useSleepTimer() {
+  const { endsAt, fadeDurationSec, cancelTimer } = useSleepTimerStore();
+  const { stopAudio } = usePlayerStore();
+  const [now, setNow] = useState(() => Date.now());
+
+  const remainingMs = endsAt ? Math.max(0, endsAt - now) : null;
+  const isFading = remainingMs !== null && remainingMs < fadeDurationSec * 1000;
+
+  useEffect(() => {
+    if (!endsAt) return;
+
+    setNow(Date.now());
+    // Tick faster during the fade so the volume ramp stays smooth
+    const interval = setInterval(() => setNow(Date.now()), isFading ? FADE_TICK_MS : TICK_MS);
+
+    return () => clearInterval(interval);
+  }, [endsAt, isFading]);
+
+  useEffect(() => {
+    if (remainingMs === 0) {
+      cancelTimer();
+      stopAudio();
+    }
+  }, [remainingMs, cancelTimer, stopAudio]);
+
+  return {
+    isActive: remainingMs !== null,
+    remainingMs,
+    fadeMultiplier: remainingMs === null ? 1 : getFadeMultiplier(remainingMs, fadeDurationSec),
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * useStreamMetadata Hook
+ *
+ * Subscribes to live "now playing" information for a stream.
+ *
+ * SOLID: Single Responsibility - Only handles the metadata subscription
+ *
+ * Track titles come from the /api/now-playing route handler, which reads
+ * the stream's ICY metadata server-side and pushes changes over SSE.
+ * The latest track is kept in the player store as `nowPlaying`.
+ */
+
+import { useEffect } from "react";
+import { usePlayerStore } from "~/lib/store/player-store";
+import type { TrackMetadata } from "~/lib/types/stream.types";
+
+/**
+ * @param streamUrl - URL of the playing stream, or null to unsubscribe
+ */
+export function useStreamMetadata(streamUrl: string | null) {
+  const setNowPlaying = usePlayerStore((state) => state.setNowPlaying);
+
+  useEffect(() => {
+    if (!streamUrl || typeof EventSource === "undefined") return;
+
+    const source = new EventSource(`/api/now-playing?url=${encodeURIComponent(streamUrl)}`);
+
+    source.addEventListener("metadata", (event) => {
+      try {
+        setNowPlaying(JSON.parse((event as MessageEvent<string>).data) as TrackMetadata);
+      } catch {
+        // Ignore malformed events
+      }
+    });
+
+    // The station has no ICY metadata, so don't let EventSource reconnect
+    source.addEventListener("unsupported", () => source.close());
+
+    return () => source.close();
+  }, [streamUrl, setNowPlaying]);
+}
@@ -0,0 +1,78 @@
+/**
+ * useStreamProbe Hook
+ *
+ * Health check of a station's stream, for quality badges and
+ * warnings before playback.
+ *
+ * SOLID: Single Responsibility - Only connects a component to stream probes
+ *
+ * This hook provides:
+ * - The cached probe result right away, when there is one
+ * - A new probe once the element scrolls into view, so long lists
+ *   only check the stations the user actually sees
+ * - Dropping that probe when the element scrolls away or unmounts
+ *   before it finished
+ */
+
+import { useEffect, useRef, useState, type RefObject } from "react";
+import type { RadioStation } from "~/lib/types/api.types";
+import type { StreamProbeResult } from "~/lib/types/stream.types";
+import { getCachedProbe, probeStation } from "~/lib/utils/stream-probe";
+
+/**
+ * @param station - Station to check
+ * @param elementRef - Element whose visibility starts the probe
+ */
+export function useStreamProbe(
+  station: RadioStation,
+  elementRef: RefObject<HTMLElement | null>,
+): StreamProbeResult | null {
+  const [probe, setProbe] = useState<StreamProbeResult | null>(null);
+  // Latest station data; only a different station needs a new probe
+  const stationRef = useRef(station);
+
+  useEffect(() => {
+    stationRef.current = station;
+  }, [station]);
+
+  const { stationUuid } = station;
+
+  useEffect(() => {
+    setProbe(getCachedProbe(stationUuid));
+
+    const element = elementRef.current;
+    if (!element || typeof IntersectionObserver === "undefined") return;
+
+    let probeAbort: AbortController | null = null;
+    let done = false;
+
+    const observer = new IntersectionObserver((entries) => {
+      const isVisible = entries.some((entry) => entry.isIntersecting);
+
+      if (!isVisible) {
+        // Scrolled away before the probe ran: give up its place in line
+        probeAbort?.abort();
+        probeAbort = null;
+        return;
+      }
+      if (probeAbort) return;
+
+      const controller = new AbortController();
+      probeAbort = controller;
+      void probeStation(stationRef.current, controller.signal).then((result) => {
+        if (controller.signal.aborted) return;
+        done = true;
+        observer.disconnect();
+        if (result) setProbe(result);
+      });
+    });
+    observer.observe(element);
+
+    return () => {
+      observer.disconnect();
+      if (!done) probeAbort?.abort();
+    };
+  }, [stationUuid, elementRef]);
+
+  return probe;
+}
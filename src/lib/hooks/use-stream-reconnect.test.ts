@@ -0,0 +1,114 @@
+// @vitest-environment jsdom
+import { act, renderHook } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { useStreamReconnect } from "./use-stream-reconnect";
+
+function setOnline(onLine: boolean) {
+  vi.spyOn(navigator, "onLine", "get").mockReturnValue(onLine);
+}
+
+function renderReconnect(reconnect: (attempt: number) => Promise<boolean>, maxAttempts = 3) {
+  return renderHook(() => useStreamReconnect(reconnect, maxAttempts));
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  // No jitter: attempt n waits 2^(n-1) seconds
+  vi.spyOn(Math, "random").mockReturnValue(0.5);
+  setOnline(true);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("useStreamReconnect", () => {
+  it("backs off between attempts until one succeeds", async () => {
+    const reconnect = vi.fn((attempt: number) => Promise.resolve(attempt === 2));
+    const { result } = renderReconnect(reconnect);
+
+    act(() => result.current.start());
+    expect(result.current.status).toEqual({ state: "waiting", attempt: 1 });
+
+    await act(() => vi.advanceTimersByTimeAsync(1000));
+    expect(reconnect).toHaveBeenCalledWith(1);
+    expect(result.current.status).toEqual({ state: "waiting", attempt: 2 });
+
+    await act(() => vi.advanceTimersByTimeAsync(1999));
+    expect(reconnect).toHaveBeenCalledTimes(1);
+
+    await act(() => vi.advanceTimersByTimeAsync(1));
+    expect(reconnect).toHaveBeenCalledWith(2);
+    expect(result.current.status).toEqual({ state: "idle" });
+    expect(result.current.isReconnecting).toBe(false);
+  });
+
+  it("gives up after the last attempt", async () => {
+    const reconnect = vi.fn(() => Promise.resolve(false));
+    const { result } = renderReconnect(reconnect, 3);
+
+    act(() => result.current.start());
+    await act(() => vi.advanceTimersByTimeAsync(1000 + 2000 + 4000));
+
+    expect(reconnect).toHaveBeenCalledTimes(3);
+    expect(result.current.status).toEqual({ state: "failed", attempts: 3 });
+    expect(result.current.isReconnecting).toBe(false);
+  });
+
+  it("waits while offline without using up attempts, then retries right away", async () => {
+    setOnline(false);
+    const reconnect = vi.fn(() => Promise.resolve(true));
+    const { result } = renderReconnect(reconnect);
+
+    act(() => result.current.start());
+    await act(() => vi.advanceTimersByTimeAsync(60_000));
+    expect(result.current.status).toEqual({ state: "offline", attempt: 1 });
+    expect(reconnect).not.toHaveBeenCalled();
+
+    setOnline(true);
+    await act(async () => {
+      window.dispatchEvent(new Event("online"));
+      await vi.advanceTimersByTimeAsync(0);
+    });
+
+    expect(reconnect).toHaveBeenCalledWith(1);
+    expect(result.current.status).toEqual({ state: "idle" });
+  });
+
+  it("stops when cancelled", async () => {
+    const reconnect = vi.fn(() => Promise.resolve(true));
+    const { result } = renderReconnect(reconnect);
+
+    act(() => result.current.start());
+    act(() => result.current.cancel());
+    await act(() => vi.advanceTimersByTimeAsync(60_000));
+
+    expect(reconnect).not.toHaveBeenCalled();
+    expect(result.current.status).toEqual({ state: "idle" });
+  });
+
+  it("runs one reconnect at a time", async () => {
+    const reconnect = vi.fn(() => Promise.resolve(true));
+    const { result } = renderReconnect(reconnect);
+
+    act(() => {
+      result.current.start();
+      result.current.start();
+    });
+    await act(() => vi.advanceTimersByTimeAsync(1000));
+
+    expect(reconnect).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops when the player unmounts", async () => {
+    const reconnect = vi.fn(() => Promise.resolve(true));
+    const { result, unmount } = renderReconnect(reconnect);
+
+    act(() => result.current.start());
+    unmount();
+    await act(() => vi.advanceTimersByTimeAsync(60_000));
+
+    expect(reconnect).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * useStreamReconnect Hook
+ *
+ * Reconnect engine for dropped streams.
+ *
+ * SOLID: Single Responsibility - Only schedules reconnect attempts
+ *
+ * This hook provides:
+ * - Attempts with exponential backoff, up to a budget
+ * - Waiting while the browser is offline, retrying as soon as it is back
+ * - The current status for display ("reconnecting (attempt n)", offline, gave up)
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { getReconnectDelay } from "~/lib/utils/reconnect";
+
+export type ReconnectStatus =
+  | { state: "idle" }
+  | { state: "waiting"; attempt: number }
+  | { state: "offline"; attempt: number }
+  | { state: "connecting"; attempt: number }
+  | { state: "failed"; attempts: number };
+
+const IDLE: ReconnectStatus = { state: "idle" };
+
+interface ReconnectRun {
+  cancelled: boolean;
+  // Ends the current wait early (cancel, or coming back online)
+  wake: () => void;
+}
+
+/**
+ * @param reconnect - Makes one attempt; resolves true once the stream plays again
+ * @param maxAttempts - Attempts before giving up
+ */
+export function useStreamReconnect(
+  reconnect: (attempt: number) => Promise<boolean>,
+  maxAttempts: number,
+) {
+  const [status, setStatus] = useState<ReconnectStatus>(IDLE);
+  const runRef = useRef<ReconnectRun | null>(null);
+  const reconnectRef = useRef(reconnect);
+  const maxAttemptsRef = useRef(maxAttempts);
+
+  useEffect(() => {
+    reconnectRef.current = reconnect;
+    maxAttemptsRef.current = maxAttempts;
+  }, [reconnect, maxAttempts]);
+
+  const cancel = useCallback(() => {
+    const run = runRef.current;
+    if (run) {
+      run.cancelled = true;
+      run.wake();
+      runRef.current = null;
+    }
+    setStatus(IDLE);
+  }, []);
+
+  const start = useCallback(() => {
+    if (runRef.current) return;
+
+    const run: ReconnectRun = { cancelled: false, wake: () => undefined };
+    runRef.current = run;
+
+    const wait = (delayMs: number | null) =>
+      new Promise<void>((resolve) => {
+        const timeout = delayMs === null ? null : setTimeout(done, delayMs);
+        function done() {
+          if (timeout !== null) clearTimeout(timeout);
+          window.removeEventListener("online", done);
+          resolve();
+        }
+        run.wake = done;
+        window.addEventListener("online", done);
+      });
+
+    void (async () => {
+      for (let attempt = 1; attempt <= maxAttemptsRef.current; attempt++) {
+        // Offline time doesn't use up attempts
+        if (!navigator.onLine) {
+          setStatus({ state: "offline", attempt });
+          await wait(null);
+        } else {
+          setStatus({ state: "waiting", attempt });
+          await wait(getReconnectDelay(attempt));
+        }
+        if (run.cancelled) return;
+
+        setStatus({ state: "connecting", attempt });
+        const isConnected = await reconnectRef.current(attempt);
+        if (run.cancelled) return;
+        if (isConnected) {
+          runRef.current = null;
+          setStatus(IDLE);
+          return;
+        }
+      }
+
+      runRef.current = null;
+      setStatus({ state: "failed", attempts: maxAttemptsRef.current });
+    })();
+  }, []);
+
+  // Stop reconnecting when the player goes away
+  useEffect(() => cancel, [cancel]);
+
+  return {
+    status,
+    isReconnecting: status.state !== "idle" && status.state !== "failed",
+    start,
+    cancel,
+  };
+}
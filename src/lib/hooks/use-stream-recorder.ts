@@ -0,0 +1,246 @@
+/**
+ * useStreamRecorder Hook
+ *
+ * Records the playing station into the recordings library.
+ *
+ * SOLID: Single Responsibility - Only handles a recording session
+ *
+ * This hook provides:
+ * - Starting and stopping a recording of the current stream
+ * - One file per track when "split by track" is on and the station
+ *   sends titles, a single file otherwise
+ * - Elapsed time and size, ticking while recording
+ * - Stopping at the storage quota, when the stream drops or the station changes
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { RadioStation } from "~/lib/types/api.types";
+import { usePlayerStore } from "~/lib/store/player-store";
+import { useToastStore } from "~/lib/store/toast-store";
+import { useRecordingSettingsStore } from "~/lib/store/recording-store";
+import { startStreamCapture, type StreamCapture } from "~/lib/audio/stream-capture";
+import { isHlsStream } from "~/lib/audio/stream-source";
+import { getAvailableRecordingSpace, saveRecording } from "~/lib/utils/recordings-db";
+import { formatTrack } from "~/lib/utils/track-history-export";
+
+const TICK_MS = 1000;
+// Don't start a recording with less room than this
+const MIN_FREE_BYTES = 1024 * 1024;
+// Long recordings continue in a new file, so memory use stays bounded
+const MAX_FILE_BYTES = 256 * 1024 * 1024;
+
+type StopReason = "user" | "quota" | "dropped" | "station";
+
+type RecorderStatus = "idle" | "starting" | "recording";
+
+/**
+ * The file currently being captured
+ */
+interface Segment {
+  chunks: Uint8Array[];
+  size: number;
+  startedAt: number;
+  title: string | null;
+}
+
+interface Session {
+  station: RadioStation;
+  mimeType: string;
+  startedAt: number;
+  /**
+   * Bytes this session may still use before hitting the quota
+   */
+  allowance: number;
+  totalBytes: number;
+}
+
+function createSegment(title: string | null): Segment {
+  return { chunks: [], size: 0, startedAt: Date.now(), title };
+}
+
+const STOP_MESSAGES: Record<StopReason, string> = {
+  user: "Recording saved to your library.",
+  station: "Recording saved to your library.",
+  quota: "Recording stopped: the recordings storage limit was reached.",
+  dropped: "Recording stopped: the stream dropped. What was captured is in your library.",
+};
+
+/**
+ * @param station - The station playing, or null when the player is closed
+ * @param streamUrl - URL of the playing stream, or null while nothing plays
+ */
+export function useStreamRecorder(station: RadioStation | null, streamUrl: string | null) {
+  const nowPlaying = usePlayerStore((state) => state.nowPlaying);
+  const showToast = useToastStore((state) => state.showToast);
+  const { splitByTrack, quotaMb } = useRecordingSettingsStore();
+  const [status, setStatus] = useState<RecorderStatus>("idle");
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const [bytes, setBytes] = useState(0);
+  const captureRef = useRef<StreamCapture | null>(null);
+  const sessionRef = useRef<Session | null>(null);
+  const segmentRef = useRef<Segment | null>(null);
+  // Bumped by every stop, so a start still in progress knows it was cancelled
+  const runIdRef = useRef(0);
+
+  const isAvailable = Boolean(station && streamUrl && !isHlsStream(streamUrl, station.hls));
+
+  const saveSegment = useCallback(
+    async (segment: Segment, session: Session): Promise<boolean> => {
+      if (segment.size === 0) return true;
+
+      try {
+        await saveRecording({
+          id: crypto.randomUUID(),
+          stationUuid: session.station.stationUuid,
+          stationName: session.station.name,
+          title: segment.title,
+          mimeType: session.mimeType,
+          startedAt: segment.startedAt,
+          durationSec: Math.round((Date.now() - segment.startedAt) / 1000),
+          size: segment.size,
+          blob: new Blob(segment.chunks as BlobPart[], { type: session.mimeType }),
+        });
+        return true;
+      } catch (error) {
+        console.error("Failed to save recording:", error);
+        showToast("Couldn't save the recording. Your browser's storage may be full.", "error");
+        return false;
+      }
+    },
+    [showToast],
+  );
+
+  const stop = useCallback(
+    (reason: StopReason = "user") => {
+      runIdRef.current += 1;
+      const session = sessionRef.current;
+      const segment = segmentRef.current;
+
+      captureRef.current?.stop();
+      captureRef.current = null;
+      sessionRef.current = null;
+      segmentRef.current = null;
+      setStatus("idle");
+      setElapsedMs(0);
+      setBytes(0);
+
+      if (!session || !segment || session.totalBytes === 0) return;
+      void saveSegment(segment, session).then((saved) => {
+        if (saved) showToast(STOP_MESSAGES[reason], reason === "quota" || reason === "dropped" ? "error" : "info");
+      });
+    },
+    [saveSegment, showToast],
+  );
+
+  const start = useCallback(async () => {
+    if (!station || !streamUrl || !isAvailable || status !== "idle") return;
+
+    const runId = runIdRef.current;
+    setStatus("starting");
+
+    let allowance: number;
+    try {
+      allowance = await getAvailableRecordingSpace(quotaMb);
+    } catch (error) {
+      console.error("Failed to read recordings storage:", error);
+      allowance = 0;
+    }
+    if (runIdRef.current !== runId) return;
+    if (allowance < MIN_FREE_BYTES) {
+      setStatus("idle");
+      showToast("Recordings storage is full. Delete recordings or raise the limit to record.", "error");
+      return;
+    }
+
+    // Ready before the capture starts, which may deliver data right away
+    const session: Session = {
+      station,
+      mimeType: "",
+      startedAt: Date.now(),
+      allowance,
+      totalBytes: 0,
+    };
+    sessionRef.current = session;
+    segmentRef.current = createSegment(splitByTrack && nowPlaying ? formatTrack(nowPlaying) : null);
+
+    const capture = await startStreamCapture(streamUrl, {
+      onData: (chunk) => {
+        const session = sessionRef.current;
+        let segment = segmentRef.current;
+        if (!session || !segment) return;
+
+        if (segment.size + chunk.byteLength > MAX_FILE_BYTES) {
+          void saveSegment(segment, session);
+          segment = createSegment(segment.title);
+          segmentRef.current = segment;
+        }
+        segment.chunks.push(chunk);
+        segment.size += chunk.byteLength;
+        session.totalBytes += chunk.byteLength;
+        if (session.totalBytes >= session.allowance) stop("quota");
+      },
+      onEnd: () => stop("dropped"),
+    });
+    if (runIdRef.current !== runId) {
+      capture?.stop();
+      return;
+    }
+    if (!capture) {
+      sessionRef.current = null;
+      segmentRef.current = null;
+      setStatus("idle");
+      showToast(`Couldn't start recording ${station.name}.`, "error");
+      return;
+    }
+
+    captureRef.current = capture;
+    session.mimeType = capture.mimeType;
+    setStatus("recording");
+  }, [station, streamUrl, isAvailable, status, quotaMb, splitByTrack, nowPlaying, saveSegment, stop, showToast]);
+
+  // Start a new file whenever the track changes
+  useEffect(() => {
+    const session = sessionRef.current;
+    const segment = segmentRef.current;
+    if (!session || !segment || !splitByTrack || !nowPlaying) return;
+
+    const title = formatTrack(nowPlaying);
+    if (segment.title === title) return;
+    // The first title arrives right after connecting and names the audio so far
+    if (segment.title === null) {
+      segment.title = title;
+      return;
+    }
+
+    segmentRef.current = createSegment(title);
+    void saveSegment(segment, session);
+  }, [nowPlaying, splitByTrack, saveSegment]);
+
+  // Elapsed time and size while recording
+  useEffect(() => {
+    if (status !== "recording") return;
+
+    const interval = setInterval(() => {
+      const session = sessionRef.current;
+      if (!session) return;
+      setElapsedMs(Date.now() - session.startedAt);
+      setBytes(session.totalBytes);
+    }, TICK_MS);
+
+    return () => clearInterval(interval);
+  }, [status]);
+
+  // A recording belongs to one station; stop it when the station changes or the player closes
+  const stationUuid = station?.stationUuid;
+  useEffect(() => () => stop("station"), [stationUuid, stop]);
+
+  return {
+    isAvailable,
+    isRecording: status === "recording",
+    isStarting: status === "starting",
+    elapsedMs,
+    bytes,
+    start,
+    stop: () => stop("user"),
+  };
+}
@@ -0,0 +1,107 @@
+/**
+ * useTimeshift Hook
+ *
+ * Follows the time-shift buffer of the playing element.
+ *
+ * SOLID: Single Responsibility - Only tracks and moves the time-shift position
+ *
+ * This hook provides:
+ * - The buffered range and playback position, or null without a buffer
+ * - How far playback is behind the live edge
+ * - Seeking, rewinding and jumping back to live
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { audioGraph } from "~/lib/audio/audio-graph";
+import { isTimeshifting } from "~/lib/audio/stream-source";
+
+const POLL_INTERVAL_MS = 500;
+
+/**
+ * Playback this close to the end of the buffer counts as live
+ */
+export const LIVE_THRESHOLD_SEC = 3;
+
+// Jumping to live lands this far before the end, so playback doesn't stall
+const LIVE_EDGE_SEC = 1;
+
+export interface TimeshiftPosition {
+  bufferStart: number;
+  bufferEnd: number;
+  currentTime: number;
+  behindLiveSec: number;
+}
+
+function readPosition(audio: HTMLMediaElement | null): TimeshiftPosition | null {
+  if (!audio || !isTimeshifting(audio) || audio.buffered.length === 0) return null;
+
+  const { buffered } = audio;
+  // Whole seconds, so the player only re-renders when the display changes
+  const bufferStart = Math.ceil(buffered.start(0));
+  const bufferEnd = Math.floor(buffered.end(buffered.length - 1));
+  const currentTime = Math.min(bufferEnd, Math.round(audio.currentTime));
+  return { bufferStart, bufferEnd, currentTime, behindLiveSec: bufferEnd - currentTime };
+}
+
+function isSamePosition(a: TimeshiftPosition | null, b: TimeshiftPosition | null): boolean {
+  return (
+    a?.bufferStart === b?.bufferStart &&
+    a?.bufferEnd === b?.bufferEnd &&
+    a?.currentTime === b?.currentTime
+  );
+}
+
+/**
+ * @param getAudio Returns the element currently playing
+ */
+export function useTimeshift(getAudio: () => HTMLMediaElement | null) {
+  const [position, setPosition] = useState<TimeshiftPosition | null>(null);
+
+  const refresh = useCallback(() => {
+    const next = readPosition(getAudio());
+    setPosition((current) => (isSamePosition(current, next) ? current : next));
+  }, [getAudio]);
+
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(refresh, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  const seek = useCallback(
+    (time: number) => {
+      const audio = getAudio();
+      if (!audio || audio.buffered.length === 0) return;
+
+      const start = audio.buffered.start(0);
+      const end = audio.buffered.end(audio.buffered.length - 1);
+      audio.currentTime = Math.max(start, Math.min(time, end - LIVE_EDGE_SEC));
+      refresh();
+    },
+    [getAudio, refresh],
+  );
+
+  const rewind = useCallback(
+    (seconds: number) => {
+      const audio = getAudio();
+      if (audio) seek(audio.currentTime - seconds);
+    },
+    [getAudio, seek],
+  );
+
+  // Back to the live edge, resuming playback if paused
+  const jumpToLive = useCallback(() => {
+    const audio = getAudio();
+    if (!audio) return;
+
+    seek(Infinity);
+    if (audio.paused) {
+      audioGraph
+        .resume()
+        .then(() => audio.play())
+        .catch((err) => console.error("Playback error:", err));
+    }
+  }, [getAudio, seek]);
+
+  return { position, seek, rewind, jumpToLive };
+}
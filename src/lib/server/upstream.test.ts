@@ -0,0 +1,199 @@
+import { lookup, type LookupAddress } from "node:dns";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  fetchUpstream,
+  isBlockedAddress,
+  lookupPublicAddress,
+  parseUpstreamUrl,
+  UpstreamBlockedError,
+} from "./upstream";
+
+vi.mock("node:dns", () => ({ lookup: vi.fn() }));
+
+type LookupCallback = (error: Error | null, addresses: LookupAddress[]) => void;
+
+const lookupMock = vi.mocked(
+  lookup as (host: string, options: object, callback: LookupCallback) => void,
+);
+const fetchMock = vi.fn<typeof fetch>();
+
+function resolveTo(...addresses: string[]) {
+  lookupMock.mockImplementation((_host, _options, callback) =>
+    callback(
+      null,
+      addresses.map((address) => ({ address, family: address.includes(":") ? 6 : 4 })),
+    ),
+  );
+}
+
+function lookupPublic(hostname: string, all: boolean) {
+  return new Promise<{ error: Error | null; address: unknown; family?: number }>((resolve) => {
+    lookupPublicAddress(hostname, { all }, (error, address, family) =>
+      resolve({ error, address, family }),
+    );
+  });
+}
+
+function redirectTo(location: string): Response {
+  return new Response(null, { status: 302, headers: { location } });
+}
+
+describe("isBlockedAddress", () => {
+  it.each([
+    "127.0.0.1",
+    "10.1.2.3",
+    "172.16.0.1",
+    "192.168.1.1",
+    "169.254.169.254",
+    "100.64.0.1",
+    "0.0.0.0",
+    "::1",
+    "fe80::1",
+    "fd00::1",
+    "::ffff:7f00:1",
+    "::ffff:192.168.0.1",
+  ])("blocks %s", (address) => {
+    expect(isBlockedAddress(address)).toBe(true);
+  });
+
+  it.each(["8.8.8.8", "93.184.216.34", "2606:4700:4700::1111"])("allows %s", (address) => {
+    expect(isBlockedAddress(address)).toBe(false);
+  });
+
+  it("blocks anything that is not an address", () => {
+    expect(isBlockedAddress("example.com")).toBe(true);
+  });
+});
+
+describe("parseUpstreamUrl", () => {
+  it("accepts public http(s) URLs", () => {
+    expect(parseUpstreamUrl("https://radio.example.com/stream")?.hostname).toBe("radio.example.com");
+  });
+
+  it.each([
+    null,
+    "",
+    "not a url",
+    "ftp://radio.example.com/stream",
+    "file:///etc/passwd",
+    "http://localhost:3000/",
+    "http://printer.local/",
+    "http://127.0.0.1/",
+    "http://2130706433/",
+    "http://0x7f.1/",
+    "http://[::1]/",
+    "http://[::ffff:127.0.0.1]/",
+  ])("rejects %s", (value) => {
+    expect(parseUpstreamUrl(value)).toBeNull();
+  });
+});
+
+describe("lookupPublicAddress", () => {
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("passes on public addresses", async () => {
+    resolveTo("93.184.216.34", "2606:2800:220:1::1");
+
+    await expect(lookupPublic("radio.example.com", false)).resolves.toEqual({
+      error: null,
+      address: "93.184.216.34",
+      family: 4,
+    });
+    await expect(lookupPublic("radio.example.com", true)).resolves.toMatchObject({
+      error: null,
+      address: [
+        { address: "93.184.216.34", family: 4 },
+        { address: "2606:2800:220:1::1", family: 6 },
+      ],
+    });
+  });
+
+  it("fails when any address is private", async () => {
+    resolveTo("93.184.216.34", "127.0.0.1");
+
+    const { error } = await lookupPublic("rebind.example.com", false);
+    expect(error).toBeInstanceOf(UpstreamBlockedError);
+  });
+
+  it("passes on lookup errors", async () => {
+    const notFound = Object.assign(new Error("getaddrinfo ENOTFOUND"), { code: "ENOTFOUND" });
+    lookupMock.mockImplementation((_host, _options, callback) => callback(notFound, []));
+
+    const { error } = await lookupPublic("missing.example.com", false);
+    expect(error).toBe(notFound);
+  });
+});
+
+describe("fetchUpstream", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.resetAllMocks();
+  });
+
+  describe("connecting", () => {
+    it("checks the address the connection resolves", async () => {
+      // No separate check runs first that a rebinding host could answer differently
+      resolveTo("127.0.0.1");
+
+      await expect(
+        fetchUpstream(new URL("http://rebind.example.com:8000/")),
+      ).rejects.toBeInstanceOf(UpstreamBlockedError);
+      expect(lookupMock).toHaveBeenCalledWith(
+        "rebind.example.com",
+        expect.anything(),
+        expect.any(Function),
+      );
+    });
+  });
+
+  describe("redirects", () => {
+    beforeEach(() => {
+      vi.stubGlobal("fetch", fetchMock);
+    });
+
+    it("fetches public hosts without following redirects automatically", async () => {
+      fetchMock.mockResolvedValue(new Response("ok"));
+
+      const response = await fetchUpstream(new URL("https://radio.example.com/stream"));
+
+      expect(await response.text()).toBe("ok");
+      expect(fetchMock).toHaveBeenCalledWith(
+        new URL("https://radio.example.com/stream"),
+        expect.objectContaining({ redirect: "manual", dispatcher: expect.anything() as unknown }),
+      );
+    });
+
+    it("follows redirects to public hosts", async () => {
+      fetchMock
+        .mockResolvedValueOnce(redirectTo("/live.mp3"))
+        .mockResolvedValueOnce(new Response("audio"));
+
+      const response = await fetchUpstream(new URL("https://radio.example.com/stream"));
+
+      expect(await response.text()).toBe("audio");
+      expect(fetchMock).toHaveBeenLastCalledWith(
+        new URL("https://radio.example.com/live.mp3"),
+        expect.anything(),
+      );
+    });
+
+    it("rejects a redirect to a private address before connecting", async () => {
+      fetchMock.mockResolvedValueOnce(redirectTo("http://169.254.169.254/latest/meta-data/"));
+
+      await expect(
+        fetchUpstream(new URL("https://radio.example.com/stream")),
+      ).rejects.toBeInstanceOf(UpstreamBlockedError);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("gives up after too many redirects", async () => {
+      fetchMock.mockImplementation(() => Promise.resolve(redirectTo("/again")));
+
+      await expect(fetchUpstream(new URL("https://radio.example.com/stream"))).rejects.toThrow(
+        "The stream redirected too many times",
+      );
+    });
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Upstream Stream Helpers
+ *
+ * Shared helpers for route handlers that fetch station streams server-side.
+ *
+ * SOLID: Single Responsibility - Only validates and performs upstream requests
+ *
+ * Route handlers take a stream URL from the client, so every request is
+ * checked before connecting: only http(s) URLs whose host resolves to
+ * public addresses are allowed, and redirects are followed by hand so
+ * each hop gets the same check. This keeps the handlers from being used
+ * to reach the server's own network.
+ *
+ * Names are resolved by the connection itself (see lookupPublicAddress),
+ * so the address that was checked is the one connected to, and a host
+ * can't answer the check with a public address and the connection with
+ * a private one.
+ */
+
+import { lookup, type LookupAddress, type LookupOptions } from "node:dns";
+import { BlockList, isIP } from "node:net";
+import { Agent, type Dispatcher } from "undici";
+
+export const UPSTREAM_USER_AGENT = "eRadio/0.1";
+
+const MAX_REDIRECTS = 5;
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+/**
+ * Loopback, private, link-local, shared, reserved and multicast ranges.
+ * BlockList checks IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) against
+ * the IPv4 ranges; NAT64 and 6to4 addresses, which can wrap any IPv4
+ * address, are blocked as a whole.
+ */
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 96],
+  ["64:ff9b::", 96],
+  ["2002::", 16],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * Thrown when a URL, a redirect target or a resolved address is not public
+ */
+export class UpstreamBlockedError extends Error {
+  constructor(message = "The stream URL does not point to a public host") {
+    super(message);
+    this.name = "UpstreamBlockedError";
+  }
+}
+
+/**
+ * Whether an IP address literal is in a non-public range
+ */
+export function isBlockedAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 0) return true;
+  return blockedAddresses.check(address, version === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * DNS lookup for upstream connections that fails unless every address
+ * the name resolves to is public
+ */
+export function lookupPublicAddress(
+  hostname: string,
+  options: LookupOptions,
+  callback: (
+    error: NodeJS.ErrnoException | null,
+    address: string | LookupAddress[],
+    family?: number,
+  ) => void,
+): void {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, "");
+      return;
+    }
+
+    const [first] = addresses;
+    if (!first || addresses.some(({ address }) => isBlockedAddress(address))) {
+      callback(new UpstreamBlockedError(), "");
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, first.address, first.family);
+    }
+  });
+}
+
+const upstreamAgent = new Agent({ connect: { lookup: lookupPublicAddress } });
+
+interface UpstreamRequestInit extends RequestInit {
+  dispatcher: Dispatcher;
+}
+
+function getHost(url: URL): string {
+  return url.hostname.toLowerCase().replace(/^\[|\]$/g, "");
+}
+
+function isPrivateHostname(host: string): boolean {
+  if (isIP(host)) return isBlockedAddress(host);
+  return host === "localhost" || host.endsWith(".localhost") || host.endsWith(".local");
+}
+
+/**
+ * Parse and validate a client-supplied stream URL
+ *
+ * Returns null when the URL is missing, malformed, not http(s)
+ * or names a private host. Names are only resolved when fetching.
+ */
+export function parseUpstreamUrl(value: string | null): URL | null {
+  if (!value) return null;
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return null;
+  }
+
+  if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+  if (isPrivateHostname(getHost(url))) return null;
+
+  return url;
+}
+
+/**
+ * Make sure the URL is http(s) and doesn't name a private host; names
+ * are checked when connecting
+ */
+function assertPublicUrl(url: URL): void {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new UpstreamBlockedError();
+  }
+  if (isPrivateHostname(getHost(url))) throw new UpstreamBlockedError();
+}
+
+/**
+ * Fetch a client-supplied URL with a GET request, following at most
+ * MAX_REDIRECTS redirects and checking every hop before connecting
+ *
+ * Throws UpstreamBlockedError for non-public targets; network errors and
+ * aborts are thrown as from fetch. The response's `url` is the final hop.
+ */
+export async function fetchUpstream(
+  url: URL,
+  init: Omit<RequestInit, "redirect" | "method"> = {},
+): Promise<Response> {
+  let target = url;
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    assertPublicUrl(target);
+
+    const requestInit: UpstreamRequestInit = {
+      ...init,
+      redirect: "manual",
+      cache: "no-store",
+      dispatcher: upstreamAgent,
+    };
+    let response: Response;
+    try {
+      response = await fetch(target, requestInit);
+    } catch (error) {
+      // fetch wraps errors from the connection's lookup
+      if (error instanceof TypeError && error.cause instanceof UpstreamBlockedError) {
+        throw error.cause;
+      }
+      throw error;
+    }
+
+    const location = response.headers.get("location");
+    if (!REDIRECT_STATUSES.has(response.status) || !location) {
+      return response;
+    }
+
+    await response.body?.cancel();
+    try {
+      target = new URL(location, target);
+    } catch {
+      throw new UpstreamBlockedError("The stream redirected to an invalid URL");
+    }
+  }
+
+  throw new UpstreamBlockedError("The stream redirected too many times");
+}
@@ -0,0 +1,74 @@
+/**
+ * Stations Service
+ *
+ * Business logic layer for radio stations.
+ * Separates API calls from business logic.
+ *
+ * SOLID:
+ * - Single Responsibility: Only handles station business logic
+ * - Dependency Inversion: Depends on API abstraction, not concrete implementation
+ *
+ * This service adds business logic on top of API calls:
+ * - Finding stations similar to a given one
+ */
+
+import { stationsApi } from "~/lib/api/stations.api";
+import type { RadioStation } from "~/lib/types/api.types";
+
+const SIMILAR_CANDIDATES_PER_QUERY = 20;
+
+/**
+ * Lowercased tags of a station
+ */
+export function getStationTags(station: RadioStation): string[] {
+  return (station.tags ?? "")
+    .split(",")
+    .map((tag) => tag.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function isSameStation(a: RadioStation, b: RadioStation): boolean {
+  return (a.stationUuid ?? a.id) === (b.stationUuid ?? b.id);
+}
+
+export const stationsService = {
+  /**
+   * Stations sharing tags or the country with a station, best match first:
+   * each shared tag counts once, the same country counts once, votes break ties.
+   * Searches that fail are skipped.
+   */
+  getSimilar: async (station: RadioStation, limit = 6): Promise<RadioStation[]> => {
+    const tags = getStationTags(station);
+    const queries = [
+      ...tags.slice(0, 2).map((tag) => ({ tags: tag })),
+      ...(station.country ? [{ country: station.country }] : []),
+    ];
+
+    const results = await Promise.allSettled(
+      queries.map((params) =>
+        stationsApi.search({ ...params, page: 0, size: SIMILAR_CANDIDATES_PER_QUERY }),
+      ),
+    );
+
+    const candidates = new Map<string | number, RadioStation>();
+    for (const result of results) {
+      if (result.status !== "fulfilled") continue;
+      for (const candidate of result.value.content) {
+        if (!isSameStation(candidate, station)) {
+          candidates.set(candidate.stationUuid ?? candidate.id, candidate);
+        }
+      }
+    }
+
+    const score = (candidate: RadioStation) =>
+      getStationTags(candidate).filter((tag) => tags.includes(tag)).length +
+      (station.country && candidate.country === station.country ? 1 : 0);
+
+    return [...candidates.values()]
+      .map((candidate) => ({ candidate, score: score(candidate) }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score || (b.candidate.votes ?? 0) - (a.candidate.votes ?? 0))
+      .slice(0, limit)
+      .map(({ candidate }) => candidate);
+  },
+};
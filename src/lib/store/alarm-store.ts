@@ -0,0 +1,135 @@
+/**
+ * Alarm Store (Zustand)
+ *
+ * Global state for wake-up alarms.
+ *
+ * SOLID: Single Responsibility - Only manages alarm state
+ *
+ * This store provides:
+ * - Persisted alarm definitions (station, time, repeat days)
+ * - The currently ringing alarm, shared between the scheduler and the player
+ */
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { RadioStation } from "~/lib/types/api.types";
+
+export interface Alarm {
+  id: string;
+  station: RadioStation;
+  /**
+   * Local time of day in "HH:MM" format
+   */
+  time: string;
+  /**
+   * Days of the week the alarm repeats on (0 = Sunday ... 6 = Saturday).
+   * An empty list means the alarm rings once and then disables itself.
+   */
+  days: number[];
+  enabled: boolean;
+  rampDurationSec: number;
+  lastTriggeredAt: number | null;
+}
+
+export type AlarmInput = Pick<Alarm, "station" | "time" | "days" | "rampDurationSec">;
+
+export interface RingingAlarm {
+  alarmId: string;
+  /**
+   * Set once audio actually starts; the volume ramp-up counts from here
+   */
+  playbackStartedAt: number | null;
+  autoplayBlocked: boolean;
+  usingFallbackTone: boolean;
+}
+
+interface AlarmState {
+  alarms: Alarm[];
+  ringing: RingingAlarm | null;
+  addAlarm: (input: AlarmInput) => void;
+  updateAlarm: (id: string, input: Partial<AlarmInput>) => void;
+  removeAlarm: (id: string) => void;
+  setAlarmEnabled: (id: string, enabled: boolean) => void;
+  triggerAlarm: (id: string) => void;
+  updateRinging: (update: Partial<Omit<RingingAlarm, "alarmId">>) => void;
+  stopRinging: () => void;
+}
+
+export const useAlarmStore = create<AlarmState>()(
+  persist(
+    (set) => ({
+      alarms: [],
+      ringing: null,
+
+      addAlarm: (input) =>
+        set((state) => ({
+          alarms: [
+            ...state.alarms,
+            {
+              ...input,
+              id: crypto.randomUUID(),
+              enabled: true,
+              lastTriggeredAt: null,
+            },
+          ],
+        })),
+
+      updateAlarm: (id, input) =>
+        set((state) => ({
+          alarms: state.alarms.map((alarm) =>
+            alarm.id === id ? { ...alarm, ...input } : alarm,
+          ),
+        })),
+
+      removeAlarm: (id) =>
+        set((state) => ({
+          alarms: state.alarms.filter((alarm) => alarm.id !== id),
+          ringing: state.ringing?.alarmId === id ? null : state.ringing,
+        })),
+
+      setAlarmEnabled: (id, enabled) =>
+        set((state) => ({
+          alarms: state.alarms.map((alarm) =>
+            alarm.id === id ? { ...alarm, enabled } : alarm,
+          ),
+        })),
+
+      /**
+       * Mark an alarm as fired and make it the ringing alarm.
+       * One-time alarms are disabled as soon as they fire.
+       */
+      triggerAlarm: (id) =>
+        set((state) => ({
+          alarms: state.alarms.map((alarm) =>
+            alarm.id === id
+              ? {
+                  ...alarm,
+                  lastTriggeredAt: Date.now(),
+                  enabled: alarm.days.length > 0,
+                }
+              : alarm,
+          ),
+          ringing: {
+            alarmId: id,
+            playbackStartedAt: null,
+            autoplayBlocked: false,
+            usingFallbackTone: false,
+          },
+        })),
+
+      updateRinging: (update) =>
+        set((state) => ({
+          ringing: state.ringing ? { ...state.ringing, ...update } : null,
+        })),
+
+      stopRinging: () => set({ ringing: null }),
+    }),
+    {
+      name: "alarm-storage", // localStorage key
+      // A ringing alarm belongs to the current page session only
+      partialize: (state) => ({
+        alarms: state.alarms,
+      }),
+    },
+  ),
+);
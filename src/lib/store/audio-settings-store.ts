@@ -0,0 +1,83 @@
+/**
+ * Audio Settings Store (Zustand)
+ *
+ * Sound processing preferences for the player: the global equalizer,
+ * per-station equalizer overrides, loudness normalization, the
+ * visualizer style, the crossfade between stations, how hard to
+ * try reconnecting dropped streams and live time-shifting.
+ *
+ * SOLID: Single Responsibility - Only manages audio processing settings
+ */
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { FLAT_EQUALIZER, type EqualizerSetting } from "~/lib/audio/equalizer";
+import type { VisualizerMode } from "~/lib/audio/visualizer";
+import { DEFAULT_CROSSFADE_SEC } from "~/lib/audio/crossfade";
+import { DEFAULT_RECONNECT_ATTEMPTS } from "~/lib/utils/reconnect";
+
+interface AudioSettingsState {
+  equalizer: EqualizerSetting;
+  stationEqualizers: Record<string, EqualizerSetting>;
+  setEqualizer: (setting: EqualizerSetting) => void;
+  setStationEqualizer: (stationUuid: string, setting: EqualizerSetting) => void;
+  clearStationEqualizer: (stationUuid: string) => void;
+  normalizationEnabled: boolean;
+  setNormalizationEnabled: (enabled: boolean) => void;
+  visualizerMode: VisualizerMode;
+  setVisualizerMode: (mode: VisualizerMode) => void;
+  crossfadeSec: number;
+  setCrossfadeSec: (seconds: number) => void;
+  reconnectAttempts: number;
+  setReconnectAttempts: (attempts: number) => void;
+  timeshiftEnabled: boolean;
+  setTimeshiftEnabled: (enabled: boolean) => void;
+}
+
+export const useAudioSettingsStore = create<AudioSettingsState>()(
+  persist(
+    (set) => ({
+      equalizer: FLAT_EQUALIZER,
+      stationEqualizers: {},
+
+      setEqualizer: (equalizer) => set({ equalizer }),
+
+      setStationEqualizer: (stationUuid, setting) =>
+        set((state) => ({
+          stationEqualizers: { ...state.stationEqualizers, [stationUuid]: setting },
+        })),
+
+      clearStationEqualizer: (stationUuid) =>
+        set((state) => {
+          const stationEqualizers = { ...state.stationEqualizers };
+          delete stationEqualizers[stationUuid];
+          return { stationEqualizers };
+        }),
+
+      normalizationEnabled: false,
+
+      setNormalizationEnabled: (normalizationEnabled) => set({ normalizationEnabled }),
+
+      visualizerMode: "bars",
+
+      setVisualizerMode: (visualizerMode) => set({ visualizerMode }),
+
+      crossfadeSec: DEFAULT_CROSSFADE_SEC,
+
+      setCrossfadeSec: (crossfadeSec) => set({ crossfadeSec }),
+
+      reconnectAttempts: DEFAULT_RECONNECT_ATTEMPTS,
+
+      setReconnectAttempts: (reconnectAttempts) => set({ reconnectAttempts }),
+
+      // Off unless the user opts in: time-shifting relays the stream
+      // through this app's server (/api/stream)
+      timeshiftEnabled: false,
+
+      setTimeshiftEnabled: (timeshiftEnabled) => set({ timeshiftEnabled }),
+    }),
+    {
+      name: "audio-settings-storage", // localStorage key
+    },
+  ),
+);
@@ -4,56 +4,138 @@
  * Global state management for the radio player.
  *
  * SOLID: Single Responsibility - Only manages player state
+ *
+ * The station, volume and mute survive a reload. A restored station
+ * waits in a paused "ready to resume" state, since browsers block
+ * autoplay until the user interacts with the page.
  */
 
 import { create } from "zustand";
+import { persist } from "zustand/middleware";
 import type { RadioStation } from "~/lib/types/api.types";
+import type { TrackMetadata } from "~/lib/types/stream.types";
 
 interface PlayerState {
   currentStation: RadioStation | null;
   stations: RadioStation[];
   isPlayerVisible: boolean;
   isPlaying: boolean;
+  nowPlaying: TrackMetadata | null;
+  volume: number;
+  isMuted: boolean;
+  /**
+   * The station was restored after a reload and waits for the user to press play
+   */
+  isResumePending: boolean;
+  /**
+   * Play a station. Always an explicit request (a tap, the queue, an
+   * alarm), so it ends a pending resume even for the restored station.
+   */
   setCurrentStation: (station: RadioStation | null) => void;
+  /**
+   * Replace the current station's data (e.g. favorite toggled) without
+   * touching playback; ignored when another station is current
+   */
+  updateCurrentStation: (station: RadioStation) => void;
   setStations: (stations: RadioStation[]) => void;
   setIsPlaying: (isPlaying: boolean) => void;
+  setNowPlaying: (nowPlaying: TrackMetadata | null) => void;
+  setVolume: (volume: number) => void;
+  setIsMuted: (isMuted: boolean) => void;
+  setIsResumePending: (isResumePending: boolean) => void;
   showPlayer: () => void;
   hidePlayer: () => void;
   togglePlayer: () => void;
   stopAudio: () => void;
 }
 
-export const usePlayerStore = create<PlayerState>((set, get) => ({
-  currentStation: null,
-  stations: [],
-  isPlayerVisible: false,
-  isPlaying: false,
-
-  setCurrentStation: (station) =>
-    set({
-      currentStation: station,
-      isPlayerVisible: station !== null,
+export const usePlayerStore = create<PlayerState>()(
+  persist(
+    (set) => ({
+      currentStation: null,
+      stations: [],
+      isPlayerVisible: false,
       isPlaying: false,
-    }),
+      nowPlaying: null,
+      volume: 0.7,
+      isMuted: false,
+      isResumePending: false,
+
+      setCurrentStation: (station) =>
+        set((state) => ({
+          currentStation: station,
+          isPlayerVisible: station !== null,
+          isPlaying: false,
+          isResumePending: false,
+          // Keep the track when only the station object changed (e.g. favorite toggled)
+          nowPlaying:
+            station && state.currentStation?.stationUuid === station.stationUuid
+              ? state.nowPlaying
+              : null,
+        })),
+
+      updateCurrentStation: (station) =>
+        set((state) =>
+          state.currentStation?.stationUuid === station.stationUuid
+            ? { currentStation: station }
+            : {},
+        ),
+
+      setStations: (stations) => set({ stations }),
 
-  setStations: (stations) => set({ stations }),
+      setIsPlaying: (isPlaying) => set({ isPlaying }),
 
-  setIsPlaying: (isPlaying) => set({ isPlaying }),
+      setNowPlaying: (nowPlaying) => set({ nowPlaying }),
 
-  showPlayer: () => set({ isPlayerVisible: true }),
+      setVolume: (volume) => set({ volume }),
 
-  hidePlayer: () => set({ isPlayerVisible: false }),
+      setIsMuted: (isMuted) => set({ isMuted }),
 
-  togglePlayer: () =>
-    set((state) => ({ isPlayerVisible: !state.isPlayerVisible })),
+      setIsResumePending: (isResumePending) => set({ isResumePending }),
+
+      showPlayer: () => set({ isPlayerVisible: true }),
+
+      hidePlayer: () => set({ isPlayerVisible: false }),
+
+      togglePlayer: () =>
+        set((state) => ({ isPlayerVisible: !state.isPlayerVisible })),
+
+      stopAudio: () => {
+        const audioElements = document.querySelectorAll("audio");
+        audioElements.forEach((audio) => {
+          audio.pause();
+          audio.src = "";
+        });
+        set({
+          isPlaying: false,
+          currentStation: null,
+          isPlayerVisible: false,
+          nowPlaying: null,
+          isResumePending: false,
+        });
+      },
+    }),
+    {
+      name: "player-storage", // localStorage key
+      partialize: (state) => ({
+        currentStation: state.currentStation,
+        isPlayerVisible: state.isPlayerVisible,
+        volume: state.volume,
+        isMuted: state.isMuted,
+      }),
+      onRehydrateStorage: () => {
+        return (state, error) => {
+          if (error) {
+            console.error("Error rehydrating player state:", error);
+          }
 
-  stopAudio: () => {
-    const audioElements = document.querySelectorAll("audio");
-    audioElements.forEach((audio) => {
-      audio.pause();
-      audio.src = "";
-    });
-    set({ isPlaying: false, currentStation: null, isPlayerVisible: false });
-  },
-}));
+          // Autoplay is blocked after a reload, so wait for a tap on play
+          if (state?.currentStation) {
+            state.setIsResumePending(true);
+          }
+        };
+      },
+    },
+  ),
+);
 
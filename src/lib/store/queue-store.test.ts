@@ -0,0 +1,129 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { RadioStation } from "~/lib/types/api.types";
+import { useQueueStore } from "./queue-store";
+
+function station(name: string): RadioStation {
+  return { name } as RadioStation;
+}
+
+function queue(...names: string[]) {
+  for (const name of names) useQueueStore.getState().addToQueue(station(name));
+}
+
+function queuedNames() {
+  return useQueueStore.getState().items.map((item) => item.station.name);
+}
+
+function playItem(index: number) {
+  const { items, setCurrentItem } = useQueueStore.getState();
+  setCurrentItem(items[index]!.id);
+}
+
+function stepName(direction: 1 | -1) {
+  return useQueueStore.getState().step(direction)?.station.name ?? null;
+}
+
+beforeEach(() => {
+  localStorage.clear();
+  useQueueStore.setState({
+    items: [],
+    currentId: null,
+    shuffle: false,
+    repeat: false,
+    unshuffledIds: null,
+  });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("useQueueStore", () => {
+  it("adds to the end and plays next after the current item", () => {
+    queue("A", "B", "C");
+    playItem(0);
+
+    useQueueStore.getState().playNext(station("Next"));
+
+    expect(queuedNames()).toEqual(["A", "Next", "B", "C"]);
+  });
+
+  it("plays next at the front when nothing is playing", () => {
+    queue("A", "B");
+
+    useQueueStore.getState().playNext(station("Next"));
+
+    expect(queuedNames()).toEqual(["Next", "A", "B"]);
+  });
+
+  it("keeps the position when the current item is removed", () => {
+    queue("A", "B", "C");
+    playItem(1);
+
+    useQueueStore.getState().removeFromQueue(useQueueStore.getState().currentId!);
+
+    expect(queuedNames()).toEqual(["A", "C"]);
+    expect(stepName(1)).toBe("C");
+  });
+
+  it("moves items and ignores moves out of range", () => {
+    queue("A", "B", "C");
+    const [first] = useQueueStore.getState().items;
+
+    useQueueStore.getState().moveItem(first!.id, 2);
+    expect(queuedNames()).toEqual(["B", "C", "A"]);
+
+    useQueueStore.getState().moveItem(first!.id, 3);
+    expect(queuedNames()).toEqual(["B", "C", "A"]);
+  });
+
+  it("steps through the queue and stops at either end", () => {
+    queue("A", "B");
+
+    expect(stepName(1)).toBe("A");
+    expect(stepName(1)).toBe("B");
+    expect(stepName(1)).toBeNull();
+    expect(stepName(-1)).toBe("A");
+    expect(stepName(-1)).toBeNull();
+  });
+
+  it("wraps around with repeat", () => {
+    queue("A", "B");
+    useQueueStore.getState().toggleRepeat();
+    playItem(1);
+
+    expect(stepName(1)).toBe("A");
+    expect(stepName(-1)).toBe("B");
+  });
+
+  it("shuffles only the upcoming items and restores their order", () => {
+    queue("A", "B", "C", "D");
+    playItem(1);
+    // Always swap with the first upcoming item: C, D becomes D, C
+    vi.spyOn(Math, "random").mockReturnValue(0);
+
+    useQueueStore.getState().toggleShuffle();
+    expect(queuedNames()).toEqual(["A", "B", "D", "C"]);
+    expect(stepName(1)).toBe("D");
+
+    useQueueStore.getState().addToQueue(station("E"));
+    useQueueStore.getState().toggleShuffle();
+    expect(queuedNames()).toEqual(["A", "B", "C", "D", "E"]);
+    expect(useQueueStore.getState().unshuffledIds).toBeNull();
+  });
+
+  it("forgets the position and shuffle order when cleared", () => {
+    queue("A", "B");
+    playItem(0);
+    useQueueStore.getState().toggleShuffle();
+
+    useQueueStore.getState().clearQueue();
+
+    expect(useQueueStore.getState()).toMatchObject({
+      items: [],
+      currentId: null,
+      unshuffledIds: null,
+    });
+  });
+});
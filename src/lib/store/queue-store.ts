@@ -0,0 +1,167 @@
+/**
+ * Queue Store (Zustand)
+ *
+ * The listening queue: stations the user lined up with "play next" and
+ * "add to queue", independent of whichever list they were browsing.
+ *
+ * SOLID: Single Responsibility - Only manages the play queue
+ *
+ * This store provides:
+ * - Persisted queue items and the position of the one playing
+ * - Adding, reordering and removing items
+ * - Shuffle (of the upcoming items, reversible) and repeat-list
+ * - Stepping to the next or previous item
+ */
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { RadioStation } from "~/lib/types/api.types";
+
+export interface QueueItem {
+  /**
+   * Item id; a station can be queued more than once
+   */
+  id: string;
+  station: RadioStation;
+}
+
+interface QueueState {
+  items: QueueItem[];
+  /**
+   * The item played last; stepping continues from here even after the
+   * user played something outside the queue
+   */
+  currentId: string | null;
+  shuffle: boolean;
+  repeat: boolean;
+  /**
+   * Item order before shuffling, restored when shuffle is turned off
+   */
+  unshuffledIds: string[] | null;
+  addToQueue: (station: RadioStation) => void;
+  playNext: (station: RadioStation) => void;
+  removeFromQueue: (id: string) => void;
+  moveItem: (id: string, toIndex: number) => void;
+  clearQueue: () => void;
+  setCurrentItem: (id: string | null) => void;
+  toggleShuffle: () => void;
+  toggleRepeat: () => void;
+  /**
+   * Move to the next (1) or previous (-1) item and return it,
+   * or null at the end of the queue without repeat
+   */
+  step: (direction: 1 | -1) => QueueItem | null;
+}
+
+function createItem(station: RadioStation): QueueItem {
+  return { id: crypto.randomUUID(), station };
+}
+
+function shuffleItems<T>(items: T[]): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j]!, shuffled[i]!];
+  }
+  return shuffled;
+}
+
+export const useQueueStore = create<QueueState>()(
+  persist(
+    (set, get) => ({
+      items: [],
+      currentId: null,
+      shuffle: false,
+      repeat: false,
+      unshuffledIds: null,
+
+      addToQueue: (station) =>
+        set((state) => ({ items: [...state.items, createItem(station)] })),
+
+      playNext: (station) =>
+        set((state) => {
+          const index = state.items.findIndex((item) => item.id === state.currentId);
+          const items = [...state.items];
+          items.splice(index + 1, 0, createItem(station));
+          return { items };
+        }),
+
+      removeFromQueue: (id) =>
+        set((state) => {
+          const index = state.items.findIndex((item) => item.id === id);
+          if (index === -1) return state;
+
+          return {
+            items: state.items.filter((item) => item.id !== id),
+            // Keep the position: the next item is still the one after the removed one
+            currentId:
+              state.currentId === id ? (state.items[index - 1]?.id ?? null) : state.currentId,
+          };
+        }),
+
+      moveItem: (id, toIndex) =>
+        set((state) => {
+          const index = state.items.findIndex((item) => item.id === id);
+          if (index === -1 || toIndex < 0 || toIndex >= state.items.length) return state;
+
+          const items = [...state.items];
+          const [item] = items.splice(index, 1);
+          items.splice(toIndex, 0, item!);
+          return { items };
+        }),
+
+      clearQueue: () => set({ items: [], currentId: null, unshuffledIds: null }),
+
+      setCurrentItem: (currentId) => set({ currentId }),
+
+      toggleShuffle: () =>
+        set((state) => {
+          if (state.shuffle) {
+            const order = state.unshuffledIds ?? [];
+            const rank = (item: QueueItem) => {
+              const position = order.indexOf(item.id);
+              // Items added while shuffled go after the restored ones
+              return position === -1 ? order.length : position;
+            };
+            return {
+              shuffle: false,
+              unshuffledIds: null,
+              items: [...state.items].sort((a, b) => rank(a) - rank(b)),
+            };
+          }
+
+          // Only what's coming up is shuffled; the history stays in place
+          const splitAt = state.items.findIndex((item) => item.id === state.currentId) + 1;
+          return {
+            shuffle: true,
+            unshuffledIds: state.items.map((item) => item.id),
+            items: [
+              ...state.items.slice(0, splitAt),
+              ...shuffleItems(state.items.slice(splitAt)),
+            ],
+          };
+        }),
+
+      toggleRepeat: () => set((state) => ({ repeat: !state.repeat })),
+
+      step: (direction) => {
+        const { items, currentId, repeat } = get();
+        if (items.length === 0) return null;
+
+        const index = items.findIndex((item) => item.id === currentId);
+        let nextIndex = index === -1 ? (direction === 1 ? 0 : -1) : index + direction;
+        if (repeat) {
+          nextIndex = (nextIndex + items.length) % items.length;
+        }
+
+        const item = items[nextIndex];
+        if (!item) return null;
+        set({ currentId: item.id });
+        return item;
+      },
+    }),
+    {
+      name: "queue-storage", // localStorage key
+    },
+  ),
+);
@@ -0,0 +1,36 @@
+/**
+ * Recording Settings Store (Zustand)
+ *
+ * Preferences for recording streams: splitting recordings into one
+ * file per track and the storage quota for the recordings library.
+ *
+ * SOLID: Single Responsibility - Only manages recording settings
+ */
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { DEFAULT_RECORDING_QUOTA_MB } from "~/lib/utils/recordings-db";
+
+interface RecordingSettingsState {
+  splitByTrack: boolean;
+  setSplitByTrack: (enabled: boolean) => void;
+  quotaMb: number;
+  setQuotaMb: (megabytes: number) => void;
+}
+
+export const useRecordingSettingsStore = create<RecordingSettingsState>()(
+  persist(
+    (set) => ({
+      splitByTrack: false,
+
+      setSplitByTrack: (splitByTrack) => set({ splitByTrack }),
+
+      quotaMb: DEFAULT_RECORDING_QUOTA_MB,
+
+      setQuotaMb: (quotaMb) => set({ quotaMb }),
+    }),
+    {
+      name: "recording-settings-storage", // localStorage key
+    },
+  ),
+);
@@ -0,0 +1,47 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from "vitest";
+import { DEFAULT_SHORTCUT_BINDINGS } from "~/lib/utils/keyboard-shortcuts";
+import { useShortcutStore } from "./shortcut-store";
+
+beforeEach(() => {
+  localStorage.clear();
+  useShortcutStore.setState({ bindings: DEFAULT_SHORTCUT_BINDINGS });
+});
+
+describe("useShortcutStore", () => {
+  it("binds a free key to an action", () => {
+    useShortcutStore.getState().setBinding("mute", "k");
+
+    expect(useShortcutStore.getState().bindings).toEqual({
+      ...DEFAULT_SHORTCUT_BINDINGS,
+      mute: "k",
+    });
+  });
+
+  it("swaps keys with the action already using the key", () => {
+    useShortcutStore.getState().setBinding("mute", "f");
+
+    expect(useShortcutStore.getState().bindings).toMatchObject({ mute: "f", favorite: "m" });
+  });
+
+  it("resets to the default keys", () => {
+    useShortcutStore.getState().setBinding("next", "n");
+    useShortcutStore.getState().resetBindings();
+
+    expect(useShortcutStore.getState().bindings).toEqual(DEFAULT_SHORTCUT_BINDINGS);
+  });
+
+  it("keeps stored keys and fills in defaults for new actions", async () => {
+    localStorage.setItem(
+      "shortcut-storage",
+      JSON.stringify({ state: { bindings: { togglePlay: "k" } }, version: 0 }),
+    );
+
+    await useShortcutStore.persist.rehydrate();
+
+    expect(useShortcutStore.getState().bindings).toEqual({
+      ...DEFAULT_SHORTCUT_BINDINGS,
+      togglePlay: "k",
+    });
+  });
+});
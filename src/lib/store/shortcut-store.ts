@@ -0,0 +1,54 @@
+/**
+ * Shortcut Store (Zustand)
+ *
+ * The user's keyboard shortcut bindings.
+ *
+ * SOLID: Single Responsibility - Only manages shortcut bindings
+ */
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import {
+  DEFAULT_SHORTCUT_BINDINGS,
+  type ShortcutAction,
+  type ShortcutBindings,
+} from "~/lib/utils/keyboard-shortcuts";
+
+interface ShortcutState {
+  bindings: ShortcutBindings;
+  /**
+   * Bind a key to an action. An action already using the key
+   * takes over the action's old key, so no key is bound twice.
+   */
+  setBinding: (action: ShortcutAction, key: string) => void;
+  resetBindings: () => void;
+}
+
+export const useShortcutStore = create<ShortcutState>()(
+  persist(
+    (set) => ({
+      bindings: DEFAULT_SHORTCUT_BINDINGS,
+
+      setBinding: (action, key) =>
+        set((state) => {
+          const bindings = { ...state.bindings };
+          const conflict = (Object.keys(bindings) as ShortcutAction[]).find(
+            (other) => other !== action && bindings[other] === key,
+          );
+          if (conflict) bindings[conflict] = bindings[action];
+          bindings[action] = key;
+          return { bindings };
+        }),
+
+      resetBindings: () => set({ bindings: DEFAULT_SHORTCUT_BINDINGS }),
+    }),
+    {
+      name: "shortcut-storage", // localStorage key
+      // Actions added in later versions get their default key
+      merge: (persisted, current) => {
+        const stored = (persisted as Partial<ShortcutState> | undefined)?.bindings;
+        return { ...current, bindings: { ...DEFAULT_SHORTCUT_BINDINGS, ...stored } };
+      },
+    },
+  ),
+);
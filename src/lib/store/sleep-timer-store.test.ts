@@ -0,0 +1,48 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_FADE_DURATION_SEC, useSleepTimerStore } from "./sleep-timer-store";
+
+const NOW = new Date(2026, 0, 5, 22, 0).getTime();
+
+function storeTimer(endsAt: number | null) {
+  localStorage.setItem(
+    "sleep-timer-storage",
+    JSON.stringify({ state: { endsAt, fadeDurationSec: 60 }, version: 0 }),
+  );
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: NOW });
+  localStorage.clear();
+  useSleepTimerStore.setState({ endsAt: null, fadeDurationSec: DEFAULT_FADE_DURATION_SEC });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("useSleepTimerStore", () => {
+  it("stores the timer as an end time", () => {
+    useSleepTimerStore.getState().startTimer(15 * 60 * 1000);
+    expect(useSleepTimerStore.getState().endsAt).toBe(NOW + 15 * 60 * 1000);
+
+    useSleepTimerStore.getState().cancelTimer();
+    expect(useSleepTimerStore.getState().endsAt).toBeNull();
+  });
+
+  it("keeps a running timer across reloads", async () => {
+    storeTimer(NOW + 60_000);
+
+    await useSleepTimerStore.persist.rehydrate();
+
+    expect(useSleepTimerStore.getState()).toMatchObject({ endsAt: NOW + 60_000, fadeDurationSec: 60 });
+  });
+
+  it("drops a timer that ran out while the page was closed", async () => {
+    storeTimer(NOW - 1);
+
+    await useSleepTimerStore.persist.rehydrate();
+
+    expect(useSleepTimerStore.getState()).toMatchObject({ endsAt: null, fadeDurationSec: 60 });
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Sleep Timer Store (Zustand)
+ *
+ * Global state for the player sleep timer.
+ *
+ * SOLID: Single Responsibility - Only manages sleep timer state
+ *
+ * The timer is stored as an absolute end time (epoch ms) rather than a
+ * countdown, so it survives page reloads without drifting.
+ */
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+
+export const DEFAULT_FADE_DURATION_SEC = 30;
+
+interface SleepTimerState {
+  endsAt: number | null;
+  fadeDurationSec: number;
+  startTimer: (durationMs: number) => void;
+  startTimerUntil: (endsAt: number) => void;
+  cancelTimer: () => void;
+  setFadeDuration: (seconds: number) => void;
+}
+
+export const useSleepTimerStore = create<SleepTimerState>()(
+  persist(
+    (set) => ({
+      endsAt: null,
+      fadeDurationSec: DEFAULT_FADE_DURATION_SEC,
+
+      startTimer: (durationMs) => set({ endsAt: Date.now() + durationMs }),
+
+      startTimerUntil: (endsAt) => set({ endsAt }),
+
+      cancelTimer: () => set({ endsAt: null }),
+
+      setFadeDuration: (fadeDurationSec) => set({ fadeDurationSec }),
+    }),
+    {
+      name: "sleep-timer-storage", // localStorage key
+      onRehydrateStorage: () => {
+        return (state, error) => {
+          if (error) {
+            console.error("Error rehydrating sleep timer state:", error);
+          }
+
+          // A timer that ran out while the tab was closed has nothing left to do
+          if (state?.endsAt && state.endsAt <= Date.now()) {
+            state.cancelTimer();
+          }
+        };
+      },
+    },
+  ),
+);
@@ -0,0 +1,42 @@
+/**
+ * Toast Store (Zustand)
+ *
+ * Short-lived notifications shown above the player.
+ *
+ * SOLID: Single Responsibility - Only manages the toast queue
+ */
+
+import { create } from "zustand";
+
+const TOAST_DURATION_MS = 5000;
+const MAX_TOASTS = 3;
+
+export type ToastVariant = "info" | "error";
+
+export interface Toast {
+  id: string;
+  message: string;
+  variant: ToastVariant;
+}
+
+interface ToastState {
+  toasts: Toast[];
+  showToast: (message: string, variant?: ToastVariant) => void;
+  dismissToast: (id: string) => void;
+}
+
+export const useToastStore = create<ToastState>((set, get) => ({
+  toasts: [],
+
+  /**
+   * Show a toast; it dismisses itself after a few seconds
+   */
+  showToast: (message, variant = "info") => {
+    const toast: Toast = { id: crypto.randomUUID(), message, variant };
+    set((state) => ({ toasts: [...state.toasts, toast].slice(-MAX_TOASTS) }));
+    setTimeout(() => get().dismissToast(toast.id), TOAST_DURATION_MS);
+  },
+
+  dismissToast: (id) =>
+    set((state) => ({ toasts: state.toasts.filter((toast) => toast.id !== id) })),
+}));
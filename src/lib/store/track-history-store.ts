@@ -0,0 +1,67 @@
+/**
+ * Track History Store (Zustand)
+ *
+ * "Recently heard" log of songs from stream metadata.
+ *
+ * SOLID: Single Responsibility - Only manages the track history log
+ *
+ * The log lives in sessionStorage: it survives reloads and navigation
+ * within the tab, and is cleared when the browser session ends.
+ */
+
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+import type { RadioStation } from "~/lib/types/api.types";
+import type { TrackMetadata } from "~/lib/types/stream.types";
+
+const MAX_ENTRIES = 500;
+
+export interface TrackHistoryEntry extends TrackMetadata {
+  id: string;
+  stationUuid: string;
+  stationName: string;
+  playedAt: number;
+}
+
+interface TrackHistoryState {
+  entries: TrackHistoryEntry[];
+  addEntry: (station: RadioStation, track: TrackMetadata) => void;
+  clearHistory: () => void;
+}
+
+export const useTrackHistoryStore = create<TrackHistoryState>()(
+  persist(
+    (set) => ({
+      entries: [],
+
+      /**
+       * Log a track, newest first. A repeat of the station's latest
+       * track (e.g. after a reconnect) is not logged again.
+       */
+      addEntry: (station, track) =>
+        set((state) => {
+          const latestForStation = state.entries.find(
+            (entry) => entry.stationUuid === station.stationUuid,
+          );
+          if (latestForStation?.raw === track.raw) {
+            return state;
+          }
+
+          const entry: TrackHistoryEntry = {
+            ...track,
+            id: crypto.randomUUID(),
+            stationUuid: station.stationUuid,
+            stationName: station.name,
+            playedAt: Date.now(),
+          };
+          return { entries: [entry, ...state.entries].slice(0, MAX_ENTRIES) };
+        }),
+
+      clearHistory: () => set({ entries: [] }),
+    }),
+    {
+      name: "track-history-storage", // sessionStorage key
+      storage: createJSONStorage(() => sessionStorage),
+    },
+  ),
+);
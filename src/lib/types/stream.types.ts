@@ -0,0 +1,68 @@
+/**
+ * Stream Type Definitions
+ *
+ * Types for data read from the audio streams themselves,
+ * as opposed to the backend DTOs in api.types.ts.
+ */
+
+// ==================== Metadata Types ====================
+
+/**
+ * "Now playing" information from a stream's ICY StreamTitle
+ */
+export interface TrackMetadata {
+  /**
+   * StreamTitle exactly as sent by the station
+   */
+  raw: string;
+  artist: string | null;
+  title: string;
+}
+
+// ==================== Stream Resolution Types ====================
+
+/**
+ * Playable stream URLs found behind a station URL (which may be a
+ * PLS/M3U/ASX/XSPF playlist), in the order they should be tried
+ */
+export interface ResolvedStream {
+  streams: string[];
+  /**
+   * The URL is an HLS playlist, to be played as-is
+   */
+  hls: boolean;
+}
+
+// ==================== Stream Probe Types ====================
+
+/**
+ * Health check of a station's stream, from the /api/probe-stream route
+ */
+export interface StreamProbeResult {
+  /**
+   * The stream answered and sent audio data
+   */
+  ok: boolean;
+  /**
+   * HTTP status, or null when the station could not be reached
+   */
+  status: number | null;
+  contentType: string | null;
+  /**
+   * Bitrate the server announces (icy-br header), in kbps
+   */
+  declaredKbps: number | null;
+  /**
+   * Bitrate measured from the bytes received, in kbps
+   */
+  measuredKbps: number | null;
+  /**
+   * Time from sending the request to the first byte of audio
+   */
+  ttfbMs: number | null;
+  /**
+   * Why the probe failed, for display
+   */
+  error: string | null;
+  checkedAt: number;
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import type { Alarm } from "~/lib/store/alarm-store";
+import type { RadioStation } from "~/lib/types/api.types";
+import {
+  formatAlarmDays,
+  getNextTrigger,
+  getRampMultiplier,
+  isAlarmDue,
+} from "./alarm-schedule";
+
+// Monday, 5 January 2026, local time
+const at = (day: number, hours: number, minutes: number, seconds = 0) =>
+  new Date(2026, 0, day, hours, minutes, seconds).getTime();
+
+function makeAlarm(overrides: Partial<Alarm> = {}): Alarm {
+  return {
+    id: "alarm-1",
+    station: { name: "Wake FM" } as RadioStation,
+    time: "07:30",
+    days: [],
+    enabled: true,
+    rampDurationSec: 60,
+    lastTriggeredAt: null,
+    ...overrides,
+  };
+}
+
+describe("isAlarmDue", () => {
+  it("is due at the scheduled time and within the trigger window", () => {
+    const alarm = makeAlarm();
+    expect(isAlarmDue(alarm, at(5, 7, 30))).toBe(true);
+    expect(isAlarmDue(alarm, at(5, 7, 31, 30))).toBe(true);
+  });
+
+  it("is not due before the scheduled time or after the window", () => {
+    const alarm = makeAlarm();
+    expect(isAlarmDue(alarm, at(5, 7, 29, 59))).toBe(false);
+    expect(isAlarmDue(alarm, at(5, 7, 32, 1))).toBe(false);
+  });
+
+  it("is not due when disabled", () => {
+    expect(isAlarmDue(makeAlarm({ enabled: false }), at(5, 7, 30))).toBe(false);
+  });
+
+  it("is not due again once fired for this occurrence", () => {
+    const alarm = makeAlarm({ lastTriggeredAt: at(5, 7, 30, 5) });
+    expect(isAlarmDue(alarm, at(5, 7, 31))).toBe(false);
+  });
+
+  it("is due again for the next occurrence", () => {
+    const alarm = makeAlarm({ days: [1, 2], lastTriggeredAt: at(5, 7, 30, 5) });
+    expect(isAlarmDue(alarm, at(6, 7, 30, 10))).toBe(true);
+  });
+
+  it("only rings on its repeat days", () => {
+    const alarm = makeAlarm({ days: [2, 3] });
+    expect(isAlarmDue(alarm, at(5, 7, 30))).toBe(false);
+    expect(isAlarmDue(alarm, at(6, 7, 30))).toBe(true);
+  });
+
+  it("catches an alarm just before midnight from just after it", () => {
+    const alarm = makeAlarm({ time: "23:59" });
+    expect(isAlarmDue(alarm, at(6, 0, 0, 30))).toBe(true);
+  });
+
+  it("uses the previous day's repeat days across midnight", () => {
+    // 23:59 on Monday, checked early on Tuesday
+    expect(isAlarmDue(makeAlarm({ time: "23:59", days: [1] }), at(6, 0, 0, 30))).toBe(true);
+    expect(isAlarmDue(makeAlarm({ time: "23:59", days: [2] }), at(6, 0, 0, 30))).toBe(false);
+  });
+});
+
+describe("getNextTrigger", () => {
+  it("returns today's time when it is still ahead", () => {
+    expect(getNextTrigger(makeAlarm(), at(5, 6, 0))).toBe(at(5, 7, 30));
+  });
+
+  it("returns tomorrow's time once today's has passed", () => {
+    expect(getNextTrigger(makeAlarm(), at(5, 7, 30))).toBe(at(6, 7, 30));
+  });
+
+  it("skips to the next repeat day", () => {
+    // Monday evening, repeating on Fridays
+    expect(getNextTrigger(makeAlarm({ days: [5] }), at(5, 20, 0))).toBe(at(9, 7, 30));
+  });
+
+  it("returns null when disabled", () => {
+    expect(getNextTrigger(makeAlarm({ enabled: false }), at(5, 6, 0))).toBeNull();
+  });
+});
+
+describe("formatAlarmDays", () => {
+  it("names common repeat patterns", () => {
+    expect(formatAlarmDays([])).toBe("Once");
+    expect(formatAlarmDays([0, 1, 2, 3, 4, 5, 6])).toBe("Every day");
+    expect(formatAlarmDays([5, 4, 3, 2, 1])).toBe("Weekdays");
+    expect(formatAlarmDays([6, 0])).toBe("Weekends");
+  });
+
+  it("lists other days in week order", () => {
+    expect(formatAlarmDays([3, 1])).toBe("Mon, Wed");
+  });
+});
+
+describe("getRampMultiplier", () => {
+  it("is full volume without a ramp or once it is over", () => {
+    expect(getRampMultiplier(0, 0)).toBe(1);
+    expect(getRampMultiplier(60_000, 60)).toBe(1);
+  });
+
+  it("starts just above silence and rises linearly", () => {
+    expect(getRampMultiplier(0, 60)).toBeCloseTo(0.05);
+    expect(getRampMultiplier(30_000, 60)).toBeCloseTo(0.525);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Alarm Schedule Utilities
+ *
+ * Time calculations for wake-up alarms.
+ *
+ * SOLID: Single Responsibility - Only handles alarm scheduling math
+ */
+
+import type { Alarm } from "~/lib/store/alarm-store";
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export const RAMP_DURATION_OPTIONS_SEC = [0, 30, 60, 180, 300];
+
+/**
+ * An alarm that has not started playing within this window is skipped
+ * (e.g. the tab was closed at the scheduled time)
+ */
+const TRIGGER_WINDOW_MS = 2 * 60 * 1000;
+
+function parseTime(time: string): { hours: number; minutes: number } {
+  const [hours = 0, minutes = 0] = time.split(":").map((part) => parseInt(part, 10));
+  return { hours, minutes };
+}
+
+/**
+ * Get the most recent scheduled time at or before `now`, or null if the
+ * alarm is not scheduled on that day. This is yesterday's time when
+ * today's is still ahead, so an alarm at 23:59 is found just after midnight.
+ */
+function getLatestScheduledTime(alarm: Alarm, now: number): number | null {
+  const { hours, minutes } = parseTime(alarm.time);
+  const scheduled = new Date(now);
+  scheduled.setHours(hours, minutes, 0, 0);
+  if (scheduled.getTime() > now) {
+    scheduled.setDate(scheduled.getDate() - 1);
+  }
+
+  if (alarm.days.length > 0 && !alarm.days.includes(scheduled.getDay())) {
+    return null;
+  }
+  return scheduled.getTime();
+}
+
+/**
+ * Check whether an alarm should ring right now
+ */
+export function isAlarmDue(alarm: Alarm, now = Date.now()): boolean {
+  if (!alarm.enabled) return false;
+
+  const scheduled = getLatestScheduledTime(alarm, now);
+  if (scheduled === null) return false;
+
+  if (now - scheduled > TRIGGER_WINDOW_MS) return false;
+
+  // Already fired for this occurrence
+  return alarm.lastTriggeredAt === null || alarm.lastTriggeredAt < scheduled;
+}
+
+/**
+ * Get the next time an alarm will ring, or null if it is disabled
+ */
+export function getNextTrigger(alarm: Alarm, now = Date.now()): number | null {
+  if (!alarm.enabled) return null;
+
+  const { hours, minutes } = parseTime(alarm.time);
+
+  for (let offset = 0; offset <= 7; offset++) {
+    const candidate = new Date(now);
+    candidate.setDate(candidate.getDate() + offset);
+    candidate.setHours(hours, minutes, 0, 0);
+
+    if (candidate.getTime() <= now) continue;
+    if (alarm.days.length === 0 || alarm.days.includes(candidate.getDay())) {
+      return candidate.getTime();
+    }
+  }
+  return null;
+}
+
+/**
+ * Human readable repeat description, e.g. "Weekdays" or "Mon, Wed"
+ */
+export function formatAlarmDays(days: number[]): string {
+  if (days.length === 0) return "Once";
+  if (days.length === 7) return "Every day";
+
+  const sorted = [...days].sort((a, b) => a - b);
+  if (sorted.join() === "1,2,3,4,5") return "Weekdays";
+  if (sorted.join() === "0,6") return "Weekends";
+
+  return sorted.map((day) => WEEKDAY_LABELS[day]).join(", ");
+}
+
+/**
+ * Volume multiplier (0-1) for the wake-up ramp
+ */
+export function getRampMultiplier(elapsedMs: number, rampDurationSec: number): number {
+  const rampMs = rampDurationSec * 1000;
+  if (rampMs <= 0 || elapsedMs >= rampMs) return 1;
+  // Start slightly above silence so the first seconds are audible
+  return Math.min(1, 0.05 + (0.95 * Math.max(0, elapsedMs)) / rampMs);
+}
@@ -0,0 +1,192 @@
+/**
+ * Browse Directory Utility
+ *
+ * The /browse indexes of countries, languages and genre tags, and how
+ * an entry maps to a landing page URL and a station search.
+ *
+ * SOLID: Single Responsibility - Only defines the browse directory
+ *
+ * Country names are the ones the station directory uses (see
+ * directory-countries), which is what the search API matches on.
+ * Only the entries listed here get landing pages: pages are cached
+ * once rendered, so open-ended slugs would grow the cache without bound.
+ */
+
+import type { StationSearchParams } from "~/lib/types/api.types";
+import { DIRECTORY_COUNTRY_NAMES } from "./directory-countries";
+
+export type BrowseKind = "countries" | "languages" | "tags";
+
+export interface BrowseEntry {
+  kind: BrowseKind;
+  /**
+   * URL segment: lowercased country code, language or tag
+   */
+  slug: string;
+  name: string;
+  /**
+   * Flag emoji, for countries
+   */
+  flag?: string;
+}
+
+export const BROWSE_PAGE_SIZE = 24;
+/**
+ * Deepest landing page; later pages are not found, for the same reason
+ */
+export const MAX_BROWSE_PAGE = 50;
+
+export const BROWSE_KIND_LABELS: Record<BrowseKind, { title: string; singular: string }> = {
+  countries: { title: "Countries", singular: "country" },
+  languages: { title: "Languages", singular: "language" },
+  tags: { title: "Genres", singular: "genre" },
+};
+
+const BROWSE_COUNTRY_CODES = [
+  "AR", "AU", "AT", "BE", "BR", "CA", "CL", "CN", "CO", "CZ", "DK", "FI", "FR",
+  "DE", "GR", "HU", "IN", "ID", "IE", "IT", "JP", "MX", "NL", "NZ", "NO", "PE",
+  "PL", "PT", "RO", "RU", "RS", "ZA", "ES", "SE", "CH", "TR", "UA", "GB", "US",
+];
+
+const BROWSE_LANGUAGES = [
+  "arabic",
+  "chinese",
+  "croatian",
+  "czech",
+  "dutch",
+  "english",
+  "french",
+  "german",
+  "greek",
+  "hindi",
+  "hungarian",
+  "indonesian",
+  "italian",
+  "japanese",
+  "korean",
+  "polish",
+  "portuguese",
+  "romanian",
+  "russian",
+  "serbian",
+  "spanish",
+  "swedish",
+  "turkish",
+  "ukrainian",
+];
+
+const BROWSE_TAGS = [
+  "80s",
+  "90s",
+  "ambient",
+  "blues",
+  "chillout",
+  "christian",
+  "classical",
+  "country",
+  "dance",
+  "electronic",
+  "folk",
+  "hip hop",
+  "hits",
+  "house",
+  "indie",
+  "jazz",
+  "latin",
+  "lounge",
+  "metal",
+  "news",
+  "oldies",
+  "pop",
+  "reggae",
+  "rnb",
+  "rock",
+  "soul",
+  "sports",
+  "talk",
+  "techno",
+  "world music",
+];
+
+function capitalize(value: string): string {
+  return value.replace(/(^|\s)\S/g, (letter) => letter.toUpperCase());
+}
+
+/**
+ * Flag emoji for a two-letter country code
+ */
+export function getCountryFlag(countryCode: string): string {
+  if (!/^[a-z]{2}$/i.test(countryCode)) return "";
+  return String.fromCodePoint(
+    ...[...countryCode.toUpperCase()].map((letter) => 0x1f1e6 + letter.charCodeAt(0) - 65),
+  );
+}
+
+export function isBrowseKind(value: string): value is BrowseKind {
+  return value in BROWSE_KIND_LABELS;
+}
+
+/**
+ * The entries listed on the /browse index for a kind
+ */
+export function getBrowseEntries(kind: BrowseKind): BrowseEntry[] {
+  switch (kind) {
+    case "countries":
+      return BROWSE_COUNTRY_CODES.map((code) => ({
+        kind,
+        slug: code.toLowerCase(),
+        name: (DIRECTORY_COUNTRY_NAMES[code] ?? code).replace(/^The /, ""),
+        flag: getCountryFlag(code),
+      }));
+    case "languages":
+      return BROWSE_LANGUAGES.map((language) => ({
+        kind,
+        slug: language,
+        name: capitalize(language),
+      }));
+    case "tags":
+      return BROWSE_TAGS.map((tag) => ({ kind, slug: tag, name: capitalize(tag) }));
+  }
+}
+
+/**
+ * The entry for a landing page slug, or null if it isn't listed
+ */
+export function findBrowseEntry(kind: BrowseKind, slug: string): BrowseEntry | null {
+  let value: string;
+  try {
+    value = decodeURIComponent(slug).trim().toLowerCase();
+  } catch {
+    return null;
+  }
+  if (!value) return null;
+
+  return getBrowseEntries(kind).find((entry) => entry.slug === value) ?? null;
+}
+
+/**
+ * Search API parameters for an entry's stations
+ */
+export function getBrowseSearchParams(entry: BrowseEntry, page: number): StationSearchParams {
+  const params: StationSearchParams = { page, size: BROWSE_PAGE_SIZE };
+  switch (entry.kind) {
+    case "countries":
+      params.country = DIRECTORY_COUNTRY_NAMES[entry.slug.toUpperCase()];
+      break;
+    case "languages":
+      params.language = entry.slug;
+      break;
+    case "tags":
+      params.tags = entry.slug;
+      break;
+  }
+  return params;
+}
+
+/**
+ * Landing page URL of an entry; pages count from 1
+ */
+export function getBrowseHref(entry: Pick<BrowseEntry, "kind" | "slug">, page = 1): string {
+  const base = `/browse/${entry.kind}/${encodeURIComponent(entry.slug)}`;
+  return page > 1 ? `${base}/${page}` : base;
+}
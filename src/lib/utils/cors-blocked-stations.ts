@@ -0,0 +1,48 @@
+/**
+ * CORS-Blocked Stations Utility
+ *
+ * Remembers stations whose streams cannot be loaded with CORS, so the
+ * player goes straight to plain playback (without Web Audio processing)
+ * instead of failing first. Entries expire after a week in case the
+ * station fixes its headers.
+ *
+ * SOLID: Single Responsibility - Only tracks CORS-blocked stations
+ */
+
+const STORAGE_KEY = "eradio_cors_blocked_stations";
+const EXPIRY_MS = 7 * 24 * 60 * 60 * 1000; // 1 week
+
+type BlockedStations = Record<string, number>;
+
+function readBlockedStations(): BlockedStations {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as BlockedStations) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Whether the station's stream is known to reject CORS requests
+ */
+export function isCorsBlocked(stationUuid: string): boolean {
+  const blockedAt = readBlockedStations()[stationUuid];
+  return blockedAt !== undefined && Date.now() - blockedAt < EXPIRY_MS;
+}
+
+/**
+ * Remember that the station's stream only plays without CORS
+ */
+export function markCorsBlocked(stationUuid: string): void {
+  try {
+    const now = Date.now();
+    const blocked = Object.fromEntries(
+      Object.entries(readBlockedStations()).filter(([, blockedAt]) => now - blockedAt < EXPIRY_MS),
+    );
+    blocked[stationUuid] = now;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(blocked));
+  } catch (error) {
+    console.error("Error saving CORS-blocked station:", error);
+  }
+}
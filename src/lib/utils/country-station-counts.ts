@@ -0,0 +1,52 @@
+/**
+ * Country Station Counts Utility
+ *
+ * Station counts per country for the station map, keyed by ISO country
+ * code, and a cache of them (24 hours), since counting takes a search
+ * per country.
+ *
+ * SOLID: Single Responsibility - Only caches country counts
+ */
+
+const CACHE_KEY = "eradio_country_station_counts";
+const CACHE_EXPIRY_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+/**
+ * Number of stations per upper-case country code
+ */
+export type CountryStationCounts = Record<string, number>;
+
+interface CachedCounts {
+  counts: CountryStationCounts;
+  timestamp: number;
+}
+
+/**
+ * Get the cached counts if not expired
+ */
+export function getCachedCountryCounts(): CountryStationCounts | null {
+  try {
+    const cached = localStorage.getItem(CACHE_KEY);
+    if (!cached) return null;
+    const data = JSON.parse(cached) as Partial<CachedCounts>;
+    if (!data.counts || typeof data.timestamp !== "number") return null;
+    if (Date.now() - data.timestamp > CACHE_EXPIRY_MS) return null;
+    return data.counts;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Cache counts with the current timestamp
+ */
+export function setCachedCountryCounts(counts: CountryStationCounts): void {
+  try {
+    localStorage.setItem(
+      CACHE_KEY,
+      JSON.stringify({ counts, timestamp: Date.now() } satisfies CachedCounts),
+    );
+  } catch (error) {
+    console.error("Error caching country station counts:", error);
+  }
+}
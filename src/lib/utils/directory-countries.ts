@@ -0,0 +1,88 @@
+/**
+ * Directory Countries Utility
+ *
+ * Maps ISO 3166-1 alpha-2 codes to the country names the station
+ * directory uses, which is what its `country` search matches on.
+ *
+ * SOLID: Single Responsibility - Only maps country codes to directory names
+ *
+ * The directory spells countries the ISO 3166 way ("The Netherlands",
+ * "Bolivia (Plurinational State Of)"), which differs from everyday names
+ * such as the ones on the world map. Countries not listed here use their
+ * plain English name, which the directory shares for most countries.
+ */
+
+import { getName, registerLocale } from "i18n-iso-countries";
+import englishCountryNames from "i18n-iso-countries/langs/en.json";
+
+registerLocale(englishCountryNames);
+
+export const DIRECTORY_COUNTRY_NAMES: Record<string, string> = {
+  AE: "The United Arab Emirates",
+  AG: "Antigua And Barbuda",
+  AR: "Argentina",
+  AT: "Austria",
+  AU: "Australia",
+  BA: "Bosnia And Herzegovina",
+  BE: "Belgium",
+  BO: "Bolivia (Plurinational State Of)",
+  BR: "Brazil",
+  BS: "The Bahamas",
+  CA: "Canada",
+  CD: "The Democratic Republic Of The Congo",
+  CG: "The Congo",
+  CH: "Switzerland",
+  CL: "Chile",
+  CN: "China",
+  CO: "Colombia",
+  CZ: "Czechia",
+  DE: "Germany",
+  DK: "Denmark",
+  DO: "The Dominican Republic",
+  ES: "Spain",
+  FI: "Finland",
+  FR: "France",
+  GB: "The United Kingdom Of Great Britain And Northern Ireland",
+  GM: "The Gambia",
+  GR: "Greece",
+  HU: "Hungary",
+  ID: "Indonesia",
+  IE: "Ireland",
+  IN: "India",
+  IR: "Iran (Islamic Republic Of)",
+  IT: "Italy",
+  JP: "Japan",
+  KR: "The Republic Of Korea",
+  KN: "Saint Kitts And Nevis",
+  LA: "Lao People's Democratic Republic",
+  MX: "Mexico",
+  NL: "The Netherlands",
+  NO: "Norway",
+  NZ: "New Zealand",
+  PE: "Peru",
+  PH: "The Philippines",
+  PL: "Poland",
+  PT: "Portugal",
+  RO: "Romania",
+  RS: "Serbia",
+  RU: "The Russian Federation",
+  SD: "The Sudan",
+  SE: "Sweden",
+  SY: "Syrian Arab Republic",
+  TR: "Türkiye",
+  TT: "Trinidad And Tobago",
+  UA: "Ukraine",
+  US: "The United States Of America",
+  VC: "Saint Vincent And The Grenadines",
+  VE: "Venezuela (Bolivarian Republic Of)",
+  VN: "Viet Nam",
+  ZA: "South Africa",
+};
+
+/**
+ * The directory's name for a country code, or null for unknown codes
+ */
+export function getDirectoryCountryName(countryCode: string): string | null {
+  const code = countryCode.toUpperCase();
+  return DIRECTORY_COUNTRY_NAMES[code] ?? getName(code, "en") ?? null;
+}
@@ -0,0 +1,35 @@
+/**
+ * Download Utility
+ *
+ * Saves generated content as a file in the browser.
+ *
+ * SOLID: Single Responsibility - Only handles client-side file downloads
+ */
+
+/**
+ * Trigger a download of a Blob under the given file name
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Make a string safe to use as a file name
+ */
+export function toSafeFilename(name: string): string {
+  return (
+    name
+      .replace(/[\\/:*?"<>|]+/g, "")
+      .replace(/\s+/g, " ")
+      .trim()
+      .slice(0, 120) || "download"
+  );
+}
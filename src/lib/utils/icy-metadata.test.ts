@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { IcyMetadataParser, parseStreamTitle, splitStreamTitle } from "./icy-metadata";
+
+const encoder = new TextEncoder();
+
+/**
+ * A metadata block as sent on the wire: length byte, then text padded to 16 bytes
+ */
+function metadataBlock(text: string): Uint8Array {
+  const bytes = encoder.encode(text);
+  const length = Math.ceil(bytes.length / 16);
+  const block = new Uint8Array(1 + length * 16);
+  block[0] = length;
+  block.set(bytes, 1);
+  return block;
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const data = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    data.set(part, offset);
+    offset += part.length;
+  }
+  return data;
+}
+
+const audio = (length: number) => new Uint8Array(length).fill(0xff);
+
+describe("parseStreamTitle", () => {
+  it("reads the StreamTitle field", () => {
+    expect(parseStreamTitle("StreamTitle='Artist - Title';StreamUrl='';")).toBe("Artist - Title");
+  });
+
+  it("keeps quotes inside the title", () => {
+    expect(parseStreamTitle("StreamTitle='Don't Stop Me Now';")).toBe("Don't Stop Me Now");
+    expect(parseStreamTitle("StreamTitle='It's 'Live'';StreamUrl='x';")).toBe("It's 'Live'");
+  });
+
+  it("returns null for empty or missing titles", () => {
+    expect(parseStreamTitle("StreamTitle='';")).toBeNull();
+    expect(parseStreamTitle("StreamTitle='   ';")).toBeNull();
+    expect(parseStreamTitle("StreamUrl='http://example.com';")).toBeNull();
+  });
+});
+
+describe("splitStreamTitle", () => {
+  it("splits artist and title on the first separator", () => {
+    expect(splitStreamTitle("Daft Punk - One More Time - Radio Edit")).toEqual({
+      raw: "Daft Punk - One More Time - Radio Edit",
+      artist: "Daft Punk",
+      title: "One More Time - Radio Edit",
+    });
+  });
+
+  it("uses the whole text as title without a separator or with an empty side", () => {
+    expect(splitStreamTitle("Morning Show")).toEqual({
+      raw: "Morning Show",
+      artist: null,
+      title: "Morning Show",
+    });
+    expect(splitStreamTitle(" - Title")).toEqual({ raw: " - Title", artist: null, title: " - Title" });
+  });
+});
+
+describe("IcyMetadataParser", () => {
+  const text = "StreamTitle='Artist - Title';";
+
+  it("returns the metadata after every metaint bytes of audio", () => {
+    const parser = new IcyMetadataParser(8);
+    const stream = concat(audio(8), metadataBlock(text), audio(8), metadataBlock("StreamTitle='Next';"));
+
+    expect(parser.push(stream)).toEqual([text, "StreamTitle='Next';"]);
+  });
+
+  it("handles blocks split across chunks", () => {
+    const parser = new IcyMetadataParser(8);
+    const stream = concat(audio(8), metadataBlock(text), audio(4));
+
+    const blocks = [];
+    for (let offset = 0; offset < stream.length; offset += 3) {
+      blocks.push(...parser.push(stream.slice(offset, offset + 3)));
+    }
+    expect(blocks).toEqual([text]);
+  });
+
+  it("skips empty metadata blocks", () => {
+    const parser = new IcyMetadataParser(4);
+    const stream = concat(audio(4), new Uint8Array([0]), audio(4), metadataBlock(text));
+
+    expect(parser.push(stream)).toEqual([text]);
+  });
+
+  it("decodes UTF-8 titles", () => {
+    const parser = new IcyMetadataParser(2);
+    const title = "StreamTitle='Sigur Rós - Hoppípolla';";
+
+    expect(parser.push(concat(audio(2), metadataBlock(title)))).toEqual([title]);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * ICY Metadata Utilities
+ *
+ * Parses Shoutcast/Icecast in-band ("ICY") metadata.
+ *
+ * When a client sends `Icy-MetaData: 1`, the server interleaves a metadata
+ * block after every `icy-metaint` bytes of audio. The block starts with one
+ * length byte (length / 16), followed by text like `StreamTitle='Artist - Title';`.
+ *
+ * SOLID: Single Responsibility - Only handles ICY metadata parsing
+ */
+
+import type { TrackMetadata } from "~/lib/types/stream.types";
+
+/**
+ * Extract the StreamTitle value from a metadata block
+ */
+export function parseStreamTitle(block: string): string | null {
+  // Titles may contain quotes, so match up to the last `';` before the next field
+  const match = /StreamTitle='(.*?)';(?=\s*(?:Stream\w*=|$))/s.exec(block);
+  const title = match?.[1]?.trim();
+  if (!title) return null;
+  return title;
+}
+
+/**
+ * Split a StreamTitle into artist and title ("Artist - Title" is the usual convention)
+ */
+export function splitStreamTitle(raw: string): TrackMetadata {
+  const separatorIndex = raw.indexOf(" - ");
+  if (separatorIndex === -1) {
+    return { raw, artist: null, title: raw };
+  }
+
+  const artist = raw.slice(0, separatorIndex).trim();
+  const title = raw.slice(separatorIndex + 3).trim();
+  if (!artist || !title) {
+    return { raw, artist: null, title: raw };
+  }
+  return { raw, artist, title };
+}
+
+/**
+ * Incremental parser for an ICY stream body
+ *
+ * Feed it raw chunks as they arrive; it returns the text of every
+ * non-empty metadata block completed by that chunk.
+ */
+export class IcyMetadataParser {
+  private bytesUntilMetadata: number;
+  private metadataLength = 0;
+  private metadataBytes: number[] = [];
+  private readingMetadata = false;
+  private readonly decoder = new TextDecoder("utf-8");
+
+  constructor(private readonly metaInt: number) {
+    this.bytesUntilMetadata = metaInt;
+  }
+
+  push(chunk: Uint8Array): string[] {
+    const blocks: string[] = [];
+    let offset = 0;
+
+    while (offset < chunk.length) {
+      if (!this.readingMetadata) {
+        // Skip over audio bytes
+        const skip = Math.min(this.bytesUntilMetadata, chunk.length - offset);
+        offset += skip;
+        this.bytesUntilMetadata -= skip;
+
+        if (this.bytesUntilMetadata === 0 && offset < chunk.length) {
+          // Length byte
+          this.metadataLength = (chunk[offset] ?? 0) * 16;
+          offset += 1;
+          this.readingMetadata = this.metadataLength > 0;
+          this.metadataBytes = [];
+          if (!this.readingMetadata) {
+            this.bytesUntilMetadata = this.metaInt;
+          }
+        }
+        continue;
+      }
+
+      const take = Math.min(this.metadataLength - this.metadataBytes.length, chunk.length - offset);
+      for (let i = 0; i < take; i++) {
+        this.metadataBytes.push(chunk[offset + i] ?? 0);
+      }
+      offset += take;
+
+      if (this.metadataBytes.length === this.metadataLength) {
+        const text = this.decoder
+          .decode(new Uint8Array(this.metadataBytes))
+          .replace(/\0+$/, "");
+        if (text) blocks.push(text);
+
+        this.readingMetadata = false;
+        this.bytesUntilMetadata = this.metaInt;
+      }
+    }
+
+    return blocks;
+  }
+}
@@ -0,0 +1,79 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from "vitest";
+import {
+  formatShortcutKey,
+  getShortcutKey,
+  isTypingTarget,
+  registerShortcutHandler,
+  runShortcutHandler,
+} from "./keyboard-shortcuts";
+
+// jsdom doesn't implement isContentEditable
+function element(tagName: string, isContentEditable = false) {
+  const el = document.createElement(tagName);
+  Object.defineProperty(el, "isContentEditable", { value: isContentEditable });
+  return el;
+}
+
+function press(key: string, init: KeyboardEventInit = {}) {
+  return getShortcutKey(new KeyboardEvent("keydown", { key, ...init }));
+}
+
+describe("getShortcutKey", () => {
+  it("lowercases letters and names the space bar", () => {
+    expect(press("M")).toBe("m");
+    expect(press(" ")).toBe("Space");
+    expect(press("ArrowLeft")).toBe("ArrowLeft");
+    expect(press("?", { shiftKey: true })).toBe("?");
+  });
+
+  it("leaves Ctrl, Alt and Meta combinations to the browser", () => {
+    expect(press("f", { ctrlKey: true })).toBeNull();
+    expect(press("f", { altKey: true })).toBeNull();
+    expect(press("f", { metaKey: true })).toBeNull();
+  });
+});
+
+describe("formatShortcutKey", () => {
+  it("shows letters in capitals and arrows as symbols", () => {
+    expect(formatShortcutKey("m")).toBe("M");
+    expect(formatShortcutKey("ArrowUp")).toBe("↑");
+    expect(formatShortcutKey("Space")).toBe("Space");
+    expect(formatShortcutKey("Home")).toBe("Home");
+  });
+});
+
+describe("isTypingTarget", () => {
+  it("is true for form fields and editable content", () => {
+    expect(isTypingTarget(element("input"))).toBe(true);
+    expect(isTypingTarget(element("textarea"))).toBe(true);
+    expect(isTypingTarget(element("select"))).toBe(true);
+    expect(isTypingTarget(element("div", true))).toBe(true);
+  });
+
+  it("is false elsewhere", () => {
+    expect(isTypingTarget(element("button"))).toBe(false);
+    expect(isTypingTarget(window)).toBe(false);
+    expect(isTypingTarget(null)).toBe(false);
+  });
+});
+
+describe("shortcut handlers", () => {
+  it("runs the most recently registered handler", () => {
+    const page = vi.fn();
+    const dialog = vi.fn();
+    const unregisterPage = registerShortcutHandler("next", page);
+    const unregisterDialog = registerShortcutHandler("next", dialog);
+
+    expect(runShortcutHandler("next")).toBe(true);
+    expect(dialog).toHaveBeenCalledOnce();
+    expect(page).not.toHaveBeenCalled();
+
+    unregisterDialog();
+    runShortcutHandler("next");
+    expect(page).toHaveBeenCalledOnce();
+
+    unregisterPage();
+    expect(runShortcutHandler("next")).toBe(false);
+  });
+});
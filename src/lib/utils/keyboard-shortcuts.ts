@@ -0,0 +1,114 @@
+/**
+ * Keyboard Shortcut Utilities
+ *
+ * The app-wide shortcut actions, their default keys and the registry
+ * connecting an action to whichever component currently handles it.
+ *
+ * SOLID: Single Responsibility - Only defines and dispatches shortcut actions
+ *
+ * Keys are stored as KeyboardEvent.key values, lowercased for letters,
+ * with "Space" for the space bar. Modifier combinations are left to
+ * the browser.
+ */
+
+export type ShortcutAction =
+  | "togglePlay"
+  | "volumeUp"
+  | "volumeDown"
+  | "next"
+  | "previous"
+  | "mute"
+  | "favorite"
+  | "focusSearch"
+  | "showHelp";
+
+export type ShortcutBindings = Record<ShortcutAction, string>;
+
+export const SHORTCUT_ACTIONS: { id: ShortcutAction; label: string }[] = [
+  { id: "togglePlay", label: "Play / pause" },
+  { id: "volumeUp", label: "Volume up" },
+  { id: "volumeDown", label: "Volume down" },
+  { id: "next", label: "Next station" },
+  { id: "previous", label: "Previous station" },
+  { id: "mute", label: "Mute / unmute" },
+  { id: "favorite", label: "Favorite the playing station" },
+  { id: "focusSearch", label: "Search stations" },
+  { id: "showHelp", label: "Show keyboard shortcuts" },
+];
+
+export const DEFAULT_SHORTCUT_BINDINGS: ShortcutBindings = {
+  togglePlay: "Space",
+  volumeUp: "ArrowUp",
+  volumeDown: "ArrowDown",
+  next: "ArrowRight",
+  previous: "ArrowLeft",
+  mute: "m",
+  favorite: "f",
+  focusSearch: "/",
+  showHelp: "?",
+};
+
+const KEY_LABELS: Record<string, string> = {
+  Space: "Space",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  ArrowLeft: "←",
+  ArrowRight: "→",
+};
+
+// Handlers per action; the most recently registered one wins
+const handlers = new Map<ShortcutAction, (() => void)[]>();
+
+/**
+ * The shortcut key for a key press, or null for presses with
+ * Ctrl, Alt or Meta, which belong to the browser and OS
+ */
+export function getShortcutKey(e: KeyboardEvent): string | null {
+  if (e.ctrlKey || e.altKey || e.metaKey) return null;
+  if (e.key === " ") return "Space";
+  if (e.key.length === 1) return e.key.toLowerCase();
+  return e.key;
+}
+
+/**
+ * Display label for a stored key, e.g. "M" or "←"
+ */
+export function formatShortcutKey(key: string): string {
+  return KEY_LABELS[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+}
+
+/**
+ * Whether a key press comes from a field the user is typing in
+ */
+export function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement ||
+    target.isContentEditable
+  );
+}
+
+/**
+ * Register the handler for an action. Returns the unregister function.
+ */
+export function registerShortcutHandler(action: ShortcutAction, handler: () => void): () => void {
+  handlers.set(action, [...(handlers.get(action) ?? []), handler]);
+  return () => {
+    handlers.set(
+      action,
+      (handlers.get(action) ?? []).filter((registered) => registered !== handler),
+    );
+  };
+}
+
+/**
+ * Run the current handler for an action. Returns false if none is registered.
+ */
+export function runShortcutHandler(action: ShortcutAction): boolean {
+  const handler = handlers.get(action)?.at(-1);
+  if (!handler) return false;
+  handler();
+  return true;
+}
@@ -0,0 +1,60 @@
+/**
+ * List Scroll State Utility
+ *
+ * Remembers where a virtualized list was scrolled to and the measured
+ * heights of its items, so coming back to the page restores the same
+ * position even though most items are not rendered.
+ *
+ * SOLID: Single Responsibility - Only stores list scroll positions
+ *
+ * Kept in sessionStorage: like the browser's own scroll restoration,
+ * it only applies within the tab's session.
+ */
+
+import type { VirtualItem } from "@tanstack/react-virtual";
+
+const STORAGE_KEY = "eradio_list_scroll";
+const MAX_LISTS = 10;
+
+export interface ListScrollState {
+  /**
+   * Window scroll position
+   */
+  offset: number;
+  measurements: VirtualItem[];
+}
+
+type StoredScrollStates = Record<string, ListScrollState & { savedAt: number }>;
+
+function readStates(): StoredScrollStates {
+  try {
+    const stored = sessionStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as StoredScrollStates) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Saved scroll state of a list, if any
+ */
+export function getListScrollState(listKey: string): ListScrollState | null {
+  return readStates()[listKey] ?? null;
+}
+
+/**
+ * Save a list's scroll state, keeping only the most recent lists
+ */
+export function saveListScrollState(listKey: string, state: ListScrollState): void {
+  try {
+    const states = readStates();
+    states[listKey] = { ...state, savedAt: Date.now() };
+
+    const recent = Object.entries(states)
+      .sort(([, a], [, b]) => b.savedAt - a.savedAt)
+      .slice(0, MAX_LISTS);
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(recent)));
+  } catch (error) {
+    console.error("Error saving list scroll state:", error);
+  }
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import {
+  detectPlaylistFormat,
+  getPlaylistFormatFromUrl,
+  isPlaylistContentType,
+  parsePlaylist,
+} from "./playlist-parser";
+
+const BASE_URL = "https://radio.example.com/listen/station.pls";
+
+describe("getPlaylistFormatFromUrl", () => {
+  it("recognizes playlist extensions, ignoring case and query strings", () => {
+    expect(getPlaylistFormatFromUrl("https://example.com/live.pls")).toBe("pls");
+    expect(getPlaylistFormatFromUrl("https://example.com/LIVE.M3U?sid=1")).toBe("m3u");
+    expect(getPlaylistFormatFromUrl("https://example.com/live.asx")).toBe("asx");
+    expect(getPlaylistFormatFromUrl("https://example.com/live.xspf")).toBe("xspf");
+  });
+
+  it("leaves HLS, plain streams and invalid URLs alone", () => {
+    expect(getPlaylistFormatFromUrl("https://example.com/live.m3u8")).toBeNull();
+    expect(getPlaylistFormatFromUrl("https://example.com/live.mp3")).toBeNull();
+    expect(getPlaylistFormatFromUrl("not a url")).toBeNull();
+  });
+});
+
+describe("isPlaylistContentType", () => {
+  it("accepts playlist, text and unknown types", () => {
+    expect(isPlaylistContentType("audio/x-scpls")).toBe(true);
+    expect(isPlaylistContentType("audio/x-mpegurl; charset=utf-8")).toBe(true);
+    expect(isPlaylistContentType("text/plain")).toBe(true);
+    expect(isPlaylistContentType("application/xml")).toBe(true);
+    expect(isPlaylistContentType(null)).toBe(true);
+  });
+
+  it("rejects audio streams", () => {
+    expect(isPlaylistContentType("audio/mpeg")).toBe(false);
+    expect(isPlaylistContentType("audio/aacp")).toBe(false);
+  });
+});
+
+describe("detectPlaylistFormat", () => {
+  it("detects formats from the content", () => {
+    expect(detectPlaylistFormat("\n[playlist]\nFile1=http://a/", null)).toBe("pls");
+    expect(detectPlaylistFormat('<ASX version="3.0">', null)).toBe("asx");
+    expect(detectPlaylistFormat('<playlist xmlns="http://xspf.org/ns/0/">', null)).toBe("xspf");
+    expect(detectPlaylistFormat("#EXTM3U\n#EXTINF:-1,Radio\nhttp://a/", null)).toBe("m3u");
+  });
+
+  it("tells HLS apart from plain M3U", () => {
+    expect(detectPlaylistFormat("#EXTM3U\n#EXT-X-TARGETDURATION:10\nseg.aac", null)).toBe("hls");
+    expect(detectPlaylistFormat("#EXTM3U\n#EXT-X-STREAM-INF:BANDWIDTH=1\nlow.m3u8", null)).toBe(
+      "hls",
+    );
+  });
+
+  it("falls back to the Content-Type, then to a bare list of URLs", () => {
+    expect(detectPlaylistFormat("File1=http://a/", "audio/x-scpls")).toBe("pls");
+    expect(detectPlaylistFormat("http://a/stream\n", "text/plain")).toBe("m3u");
+    expect(detectPlaylistFormat("<html></html>", "text/html")).toBeNull();
+  });
+});
+
+describe("parsePlaylist", () => {
+  it("reads PLS entries in File order", () => {
+    const body = "[playlist]\nFile2=http://b.example.com/\r\nFile1=http://a.example.com/\nNumberOfEntries=2";
+    expect(parsePlaylist(body, "pls", BASE_URL)).toEqual([
+      "http://a.example.com/",
+      "http://b.example.com/",
+    ]);
+  });
+
+  it("reads M3U entries, skipping comments and blank lines", () => {
+    const body = "#EXTM3U\n#EXTINF:-1,Radio\nhttp://a.example.com/live\n\n  http://b.example.com/live  \n";
+    expect(parsePlaylist(body, "m3u", BASE_URL)).toEqual([
+      "http://a.example.com/live",
+      "http://b.example.com/live",
+    ]);
+  });
+
+  it("reads ASX and XSPF entries and decodes entities", () => {
+    const asx = '<asx><entry><ref href="http://a.example.com/?a=1&amp;b=2" /></entry></asx>';
+    const xspf = "<playlist><trackList><track><location> http://b.example.com/ </location></track></trackList></playlist>";
+
+    expect(parsePlaylist(asx, "asx", BASE_URL)).toEqual(["http://a.example.com/?a=1&b=2"]);
+    expect(parsePlaylist(xspf, "xspf", BASE_URL)).toEqual(["http://b.example.com/"]);
+  });
+
+  it("resolves relative entries and drops duplicates and non-http(s) entries", () => {
+    const body = "stream.mp3\nhttps://radio.example.com/listen/stream.mp3\nrtsp://a.example.com/\njavascript:alert(1)";
+    expect(parsePlaylist(body, "m3u", BASE_URL)).toEqual([
+      "https://radio.example.com/listen/stream.mp3",
+    ]);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Playlist Parser Utilities
+ *
+ * Extracts stream URLs from the playlist files stations often link to
+ * instead of the audio stream itself: PLS, M3U, ASX and XSPF.
+ *
+ * SOLID: Single Responsibility - Only handles playlist parsing
+ */
+
+export type PlaylistFormat = "pls" | "m3u" | "hls" | "asx" | "xspf";
+
+const PLAYLIST_EXTENSIONS: Record<string, PlaylistFormat> = {
+  ".pls": "pls",
+  ".m3u": "m3u",
+  ".asx": "asx",
+  ".xspf": "xspf",
+};
+
+const PLAYLIST_CONTENT_TYPES: Record<string, PlaylistFormat> = {
+  "audio/x-scpls": "pls",
+  "audio/scpls": "pls",
+  "audio/x-mpegurl": "m3u",
+  "audio/mpegurl": "m3u",
+  "application/x-mpegurl": "m3u",
+  "application/vnd.apple.mpegurl": "m3u",
+  "video/x-ms-asf": "asx",
+  "video/x-ms-asx": "asx",
+  "application/xspf+xml": "xspf",
+};
+
+/**
+ * Playlist format implied by a URL's file extension, if any.
+ * (.m3u8 is left out: it is almost always HLS, which plays directly.)
+ */
+export function getPlaylistFormatFromUrl(url: string): PlaylistFormat | null {
+  try {
+    const pathname = new URL(url).pathname.toLowerCase();
+    const extension = Object.keys(PLAYLIST_EXTENSIONS).find((ext) => pathname.endsWith(ext));
+    return extension ? PLAYLIST_EXTENSIONS[extension]! : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a response with this Content-Type may be a playlist worth reading.
+ * Audio types are streams and must not be downloaded.
+ */
+export function isPlaylistContentType(contentType: string | null): boolean {
+  const type = contentType?.split(";")[0]?.trim().toLowerCase() ?? "";
+  if (!type) return true;
+  if (type in PLAYLIST_CONTENT_TYPES) return true;
+  return type.startsWith("text/") || type.endsWith("/xml") || type === "application/octet-stream";
+}
+
+/**
+ * Work out the format from the content, falling back to the Content-Type
+ */
+export function detectPlaylistFormat(body: string, contentType: string | null): PlaylistFormat | null {
+  const text = body.trimStart();
+  const lower = text.slice(0, 512).toLowerCase();
+
+  if (lower.startsWith("[playlist]")) return "pls";
+  if (lower.includes("<asx")) return "asx";
+  if (lower.includes("<playlist") && lower.includes("xspf")) return "xspf";
+  if (lower.startsWith("#extm3u")) {
+    // HLS playlists are played directly, not resolved
+    return /#EXT-X-(TARGETDURATION|STREAM-INF|MEDIA-SEQUENCE)/i.test(text) ? "hls" : "m3u";
+  }
+
+  const type = contentType?.split(";")[0]?.trim().toLowerCase() ?? "";
+  const formatFromType = PLAYLIST_CONTENT_TYPES[type];
+  if (formatFromType) return formatFromType;
+
+  // Plain list of URLs
+  return /^https?:\/\//im.test(text) ? "m3u" : null;
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'");
+}
+
+function toAbsoluteUrl(value: string, baseUrl: string): string | null {
+  try {
+    const url = new URL(value.trim(), baseUrl);
+    return url.protocol === "http:" || url.protocol === "https:" ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+function parsePls(body: string): string[] {
+  return body
+    .split(/\r?\n/)
+    .map((line) => /^File(\d+)\s*=\s*(.+)$/i.exec(line.trim()))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .sort((a, b) => parseInt(a[1]!, 10) - parseInt(b[1]!, 10))
+    .map((match) => match[2]!);
+}
+
+function parseM3u(body: string): string[] {
+  return body
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line !== "" && !line.startsWith("#"));
+}
+
+function parseAsx(body: string): string[] {
+  return Array.from(body.matchAll(/<ref\s+href\s*=\s*["']([^"']+)["']/gi), (match) =>
+    decodeXmlEntities(match[1]!),
+  );
+}
+
+function parseXspf(body: string): string[] {
+  return Array.from(body.matchAll(/<location>\s*([^<]+?)\s*<\/location>/gi), (match) =>
+    decodeXmlEntities(match[1]!),
+  );
+}
+
+/**
+ * Candidate stream URLs in playlist order, made absolute against the
+ * playlist URL, with duplicates and non-http(s) entries removed
+ */
+export function parsePlaylist(body: string, format: PlaylistFormat, baseUrl: string): string[] {
+  const entries =
+    format === "pls"
+      ? parsePls(body)
+      : format === "asx"
+        ? parseAsx(body)
+        : format === "xspf"
+          ? parseXspf(body)
+          : parseM3u(body);
+
+  const urls = entries
+    .map((entry) => toAbsoluteUrl(entry, baseUrl))
+    .filter((url): url is string => url !== null);
+  return Array.from(new Set(urls));
+}
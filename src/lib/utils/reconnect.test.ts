@@ -0,0 +1,29 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getReconnectDelay } from "./reconnect";
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("getReconnectDelay", () => {
+  it("doubles the delay with each attempt", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+
+    expect([1, 2, 3, 4, 5].map(getReconnectDelay)).toEqual([1000, 2000, 4000, 8000, 16000]);
+  });
+
+  it("caps the delay at 30 seconds", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+
+    expect(getReconnectDelay(6)).toBe(30_000);
+    expect(getReconnectDelay(20)).toBe(30_000);
+  });
+
+  it("adds up to 15% jitter either way", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    expect(getReconnectDelay(2)).toBe(1700);
+
+    vi.spyOn(Math, "random").mockReturnValue(0.999999);
+    expect(getReconnectDelay(2)).toBe(2300);
+  });
+});
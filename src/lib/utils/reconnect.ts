@@ -0,0 +1,23 @@
+/**
+ * Reconnect Utilities
+ *
+ * Backoff timing and limits for reconnecting dropped streams.
+ *
+ * SOLID: Single Responsibility - Only handles reconnect timing
+ */
+
+export const RECONNECT_ATTEMPT_OPTIONS = [3, 5, 10, 20];
+
+export const DEFAULT_RECONNECT_ATTEMPTS = 5;
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30 * 1000;
+
+/**
+ * Exponential backoff (1s, 2s, 4s, ... up to 30s) with a little jitter,
+ * so many listeners of one station don't all reconnect at once
+ */
+export function getReconnectDelay(attempt: number): number {
+  const delay = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * Math.pow(2, attempt - 1));
+  return Math.round(delay * (0.85 + Math.random() * 0.3));
+}
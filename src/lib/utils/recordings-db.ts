@@ -0,0 +1,133 @@
+/**
+ * Recordings Database
+ *
+ * Stores recorded audio in IndexedDB, which (unlike localStorage)
+ * can hold large binary files.
+ *
+ * SOLID: Single Responsibility - Only persists recordings
+ *
+ * Components listing recordings subscribe to changes, so a recording
+ * saved by the player shows up without reloading the page.
+ */
+
+const DB_NAME = "eradio_recordings";
+const DB_VERSION = 1;
+const STORE_NAME = "recordings";
+
+export const RECORDING_QUOTA_OPTIONS_MB = [100, 250, 500, 1000, 2000];
+export const DEFAULT_RECORDING_QUOTA_MB = 500;
+
+export interface Recording {
+  id: string;
+  stationUuid: string;
+  stationName: string;
+  /**
+   * Track title for recordings split by track, null otherwise
+   */
+  title: string | null;
+  mimeType: string;
+  startedAt: number;
+  durationSec: number;
+  size: number;
+  blob: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const listeners = new Set<() => void>();
+
+function openDatabase(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("Failed to open recordings database"));
+  }).catch((error: unknown) => {
+    // Allow a later call to try again
+    dbPromise = null;
+    throw error;
+  });
+  return dbPromise;
+}
+
+async function runRequest<T>(
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = createRequest(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? new Error("Recordings database error"));
+    transaction.onabort = () => reject(transaction.error ?? new Error("Recordings database error"));
+  });
+}
+
+function notifyChange(): void {
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * All recordings, newest first
+ */
+export async function listRecordings(): Promise<Recording[]> {
+  const recordings = await runRequest("readonly", (store) => store.getAll() as IDBRequest<Recording[]>);
+  return recordings.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export async function saveRecording(recording: Recording): Promise<void> {
+  await runRequest("readwrite", (store) => store.put(recording));
+  notifyChange();
+}
+
+export async function deleteRecording(id: string): Promise<void> {
+  await runRequest("readwrite", (store) => store.delete(id));
+  notifyChange();
+}
+
+/**
+ * Total size of all recordings, in bytes
+ */
+export async function getRecordingsUsage(): Promise<number> {
+  const recordings = await listRecordings();
+  return recordings.reduce((total, recording) => total + recording.size, 0);
+}
+
+/**
+ * Bytes left for new recordings: the user's quota minus what is stored,
+ * capped by the space the browser still grants this site
+ */
+export async function getAvailableRecordingSpace(quotaMb: number): Promise<number> {
+  let available = quotaMb * 1024 * 1024 - (await getRecordingsUsage());
+
+  if ("storage" in navigator && "estimate" in navigator.storage) {
+    const { quota, usage } = await navigator.storage.estimate();
+    if (quota !== undefined && usage !== undefined) {
+      available = Math.min(available, quota - usage);
+    }
+  }
+  return Math.max(0, available);
+}
+
+/**
+ * Call `listener` whenever a recording is saved or deleted.
+ * Returns the unsubscribe function.
+ */
+export function subscribeToRecordings(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Human-readable file size, e.g. "12.4 MB"
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildSearchUrl,
+  DEFAULT_SEARCH_URL_STATE,
+  parseSearchUrl,
+  toUrlSearchParams,
+  type SearchUrlState,
+} from "./search-url";
+
+const FULL_STATE: SearchUrlState = {
+  query: "jazz fm",
+  filters: {
+    country: "Germany",
+    language: "german",
+    tags: ["jazz", "smooth jazz"],
+    minBitrate: 128,
+    codec: "AAC+",
+  },
+  onlyWorking: true,
+  sortOrder: "working-first",
+  page: 3,
+};
+
+describe("buildSearchUrl", () => {
+  it("is empty for the default state", () => {
+    expect(buildSearchUrl(DEFAULT_SEARCH_URL_STATE)).toBe("");
+  });
+
+  it("writes every non-default value", () => {
+    expect(buildSearchUrl(FULL_STATE)).toBe(
+      "q=jazz+fm&country=Germany&language=german&tags=jazz%2Csmooth+jazz&bitrate=128&codec=AAC%2B&working=1&sort=working-first&page=3",
+    );
+  });
+
+  it("trims text and leaves out blank values", () => {
+    const state: SearchUrlState = {
+      ...DEFAULT_SEARCH_URL_STATE,
+      query: "  rock  ",
+      filters: { ...DEFAULT_SEARCH_URL_STATE.filters, country: "   " },
+    };
+    expect(buildSearchUrl(state)).toBe("q=rock");
+  });
+});
+
+describe("parseSearchUrl", () => {
+  it("reads back what buildSearchUrl writes", () => {
+    expect(parseSearchUrl(new URLSearchParams(buildSearchUrl(FULL_STATE)))).toEqual(FULL_STATE);
+  });
+
+  it("gives the default state for no parameters", () => {
+    expect(parseSearchUrl(new URLSearchParams())).toEqual(DEFAULT_SEARCH_URL_STATE);
+  });
+
+  it("normalizes tags and codecs", () => {
+    const { filters } = parseSearchUrl(new URLSearchParams("tags=Jazz, ,POP,&codec=mp3"));
+    expect(filters.tags).toEqual(["jazz", "pop"]);
+    expect(filters.codec).toBe("MP3");
+  });
+
+  it("falls back to defaults for malformed values", () => {
+    const state = parseSearchUrl(
+      new URLSearchParams("bitrate=fast&page=-2&sort=newest&working=yes"),
+    );
+    expect(state.filters.minBitrate).toBeNull();
+    expect(state.page).toBe(0);
+    expect(state.sortOrder).toBe("relevance");
+    expect(state.onlyWorking).toBe(false);
+  });
+
+  it("starts over at the first page when too many pages are asked for", () => {
+    expect(parseSearchUrl(new URLSearchParams("page=9")).page).toBe(9);
+    expect(parseSearchUrl(new URLSearchParams("page=10")).page).toBe(0);
+  });
+});
+
+describe("toUrlSearchParams", () => {
+  it("takes the first of repeated values and skips missing ones", () => {
+    const params = toUrlSearchParams({ q: "rock", tags: ["jazz", "pop"], page: undefined });
+    expect(params.toString()).toBe("q=rock&tags=jazz");
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Search URL Utility
+ *
+ * Converts the state of a station search (term, filters, sorting and
+ * how many pages are loaded) to and from /search query parameters,
+ * so searches can be bookmarked, shared and stepped through with the
+ * browser's back and forward buttons.
+ *
+ * SOLID: Single Responsibility - Only maps search state to URLs
+ *
+ * Parameters left at their defaults are omitted, so the same search
+ * always has the same URL.
+ */
+
+import { EMPTY_STATION_FILTERS, type StationFilters } from "./station-filters";
+
+export type SearchSortOrder = "relevance" | "working-first";
+
+export interface SearchUrlState {
+  query: string;
+  filters: StationFilters;
+  onlyWorking: boolean;
+  sortOrder: SearchSortOrder;
+  /**
+   * Index of the last loaded page
+   */
+  page: number;
+}
+
+export const DEFAULT_SEARCH_URL_STATE: SearchUrlState = {
+  query: "",
+  filters: EMPTY_STATION_FILTERS,
+  onlyWorking: false,
+  sortOrder: "relevance",
+  page: 0,
+};
+
+/**
+ * Pages restored from a URL are loaded one request each; a URL asking
+ * for more than this many starts over at the first page
+ */
+const MAX_RESTORED_PAGE = 9;
+
+function parsePositiveInt(value: string | null): number | null {
+  const parsed = parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+/**
+ * Read the search state from query parameters. Unknown or malformed
+ * values fall back to the defaults.
+ */
+export function parseSearchUrl(params: URLSearchParams): SearchUrlState {
+  const page = parsePositiveInt(params.get("page")) ?? 0;
+
+  return {
+    query: params.get("q") ?? "",
+    filters: {
+      country: params.get("country") ?? "",
+      language: params.get("language") ?? "",
+      tags: (params.get("tags") ?? "")
+        .split(",")
+        .map((tag) => tag.trim().toLowerCase())
+        .filter(Boolean),
+      minBitrate: parsePositiveInt(params.get("bitrate")),
+      codec: params.get("codec")?.toUpperCase() ?? null,
+    },
+    onlyWorking: params.get("working") === "1",
+    sortOrder: params.get("sort") === "working-first" ? "working-first" : "relevance",
+    page: page <= MAX_RESTORED_PAGE ? page : 0,
+  };
+}
+
+/**
+ * Query string (without "?") for a search state
+ */
+export function buildSearchUrl(state: SearchUrlState): string {
+  const params = new URLSearchParams();
+  const { filters } = state;
+
+  if (state.query.trim()) params.set("q", state.query.trim());
+  if (filters.country.trim()) params.set("country", filters.country.trim());
+  if (filters.language.trim()) params.set("language", filters.language.trim());
+  if (filters.tags.length > 0) params.set("tags", filters.tags.join(","));
+  if (filters.minBitrate !== null) params.set("bitrate", filters.minBitrate.toString());
+  if (filters.codec) params.set("codec", filters.codec);
+  if (state.onlyWorking) params.set("working", "1");
+  if (state.sortOrder !== "relevance") params.set("sort", state.sortOrder);
+  if (state.page > 0) params.set("page", state.page.toString());
+
+  return params.toString();
+}
+
+/**
+ * Query parameters from the `searchParams` a page receives on the server
+ */
+export function toUrlSearchParams(
+  searchParams: Record<string, string | string[] | undefined>,
+): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(searchParams)) {
+    const first = Array.isArray(value) ? value[0] : value;
+    if (first !== undefined) params.set(key, first);
+  }
+  return params;
+}
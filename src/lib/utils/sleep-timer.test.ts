@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { formatRemaining, getEndOfHour, getFadeMultiplier } from "./sleep-timer";
+
+describe("getEndOfHour", () => {
+  it("returns the next full hour", () => {
+    const now = new Date(2026, 0, 5, 21, 17, 42).getTime();
+    expect(getEndOfHour(now)).toBe(new Date(2026, 0, 5, 22, 0, 0).getTime());
+  });
+
+  it("moves on to the next hour on the hour", () => {
+    const now = new Date(2026, 0, 5, 22, 0, 0).getTime();
+    expect(getEndOfHour(now)).toBe(new Date(2026, 0, 5, 23, 0, 0).getTime());
+  });
+
+  it("rolls over midnight", () => {
+    const now = new Date(2026, 0, 5, 23, 30).getTime();
+    expect(getEndOfHour(now)).toBe(new Date(2026, 0, 6, 0, 0).getTime());
+  });
+});
+
+describe("formatRemaining", () => {
+  it("formats minutes and seconds, rounding up", () => {
+    expect(formatRemaining(65_000)).toBe("1:05");
+    expect(formatRemaining(59_001)).toBe("1:00");
+    expect(formatRemaining(999)).toBe("0:01");
+  });
+
+  it("adds hours above one hour", () => {
+    expect(formatRemaining(3_600_000)).toBe("1:00:00");
+    expect(formatRemaining(5_430_000)).toBe("1:30:30");
+  });
+
+  it("never goes below zero", () => {
+    expect(formatRemaining(-5_000)).toBe("0:00");
+  });
+});
+
+describe("getFadeMultiplier", () => {
+  it("keeps full volume until the fade starts", () => {
+    expect(getFadeMultiplier(60_000, 30)).toBe(1);
+    expect(getFadeMultiplier(30_000, 30)).toBe(1);
+  });
+
+  it("fades linearly to silence", () => {
+    expect(getFadeMultiplier(15_000, 30)).toBeCloseTo(0.5);
+    expect(getFadeMultiplier(0, 30)).toBe(0);
+    expect(getFadeMultiplier(-1_000, 30)).toBe(0);
+  });
+
+  it("doesn't fade without a fade duration", () => {
+    expect(getFadeMultiplier(0, 0)).toBe(1);
+  });
+});
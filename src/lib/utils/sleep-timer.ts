@@ -0,0 +1,47 @@
+/**
+ * Sleep Timer Utilities
+ *
+ * Presets and time helpers for the player sleep timer.
+ *
+ * SOLID: Single Responsibility - Only handles sleep timer calculations
+ */
+
+export const SLEEP_TIMER_PRESETS_MIN = [15, 30, 60, 90];
+
+export const FADE_DURATION_OPTIONS_SEC = [10, 30, 60, 120];
+
+/**
+ * Get the timestamp of the next full hour (e.g. 22:00 when it is 21:17)
+ */
+export function getEndOfHour(now = Date.now()): number {
+  const date = new Date(now);
+  date.setHours(date.getHours() + 1, 0, 0, 0);
+  return date.getTime();
+}
+
+/**
+ * Format remaining milliseconds as m:ss, or h:mm:ss above one hour
+ */
+export function formatRemaining(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => value.toString().padStart(2, "0");
+
+  if (hours > 0) {
+    return `${hours}:${pad(minutes)}:${pad(seconds)}`;
+  }
+  return `${minutes}:${pad(seconds)}`;
+}
+
+/**
+ * Volume multiplier (0-1) for the fade-out at the end of the timer
+ *
+ * Stays at 1 until the fade window starts, then falls linearly to 0.
+ */
+export function getFadeMultiplier(remainingMs: number, fadeDurationSec: number): number {
+  const fadeMs = fadeDurationSec * 1000;
+  if (fadeMs <= 0 || remainingMs >= fadeMs) return 1;
+  return Math.max(0, remainingMs / fadeMs);
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import type { RadioStation } from "~/lib/types/api.types";
+import {
+  EMPTY_STATION_FILTERS,
+  getFilterChips,
+  getFilterSearchParams,
+  getFiltersCacheKey,
+  matchesStationFilters,
+  removeFilterChip,
+  type StationFilters,
+} from "./station-filters";
+
+const FILTERS: StationFilters = {
+  country: " Germany ",
+  language: "german",
+  tags: ["rock", "pop"],
+  minBitrate: 128,
+  codec: "AAC",
+};
+
+function station(bitrate: number | null, codec: string | null): RadioStation {
+  return { bitrate, codec } as RadioStation;
+}
+
+describe("getFilterSearchParams", () => {
+  it("sends country, language and tags but not bitrate or codec", () => {
+    expect(getFilterSearchParams(FILTERS)).toEqual({
+      country: "Germany",
+      language: "german",
+      tags: "rock,pop",
+    });
+  });
+
+  it("sends nothing for empty filters", () => {
+    expect(getFilterSearchParams(EMPTY_STATION_FILTERS)).toEqual({});
+  });
+});
+
+describe("getFiltersCacheKey", () => {
+  it("is the search term alone without API filters", () => {
+    expect(getFiltersCacheKey("jazz")).toBe("jazz");
+    expect(getFiltersCacheKey("jazz", EMPTY_STATION_FILTERS)).toBe("jazz");
+  });
+
+  it("adds the API filters, ignoring case", () => {
+    expect(getFiltersCacheKey("jazz", FILTERS)).toBe(
+      "jazz|country=germany|language=german|tags=rock,pop",
+    );
+    expect(getFiltersCacheKey("jazz", { ...FILTERS, country: "GERMANY" })).toBe(
+      getFiltersCacheKey("jazz", FILTERS),
+    );
+  });
+
+  it("leaves out the client-side filters", () => {
+    expect(getFiltersCacheKey("jazz", { ...FILTERS, minBitrate: null, codec: null })).toBe(
+      getFiltersCacheKey("jazz", FILTERS),
+    );
+  });
+});
+
+describe("matchesStationFilters", () => {
+  it("keeps stations at or above the lowest bitrate", () => {
+    const filters = { ...EMPTY_STATION_FILTERS, minBitrate: 128 };
+
+    expect(matchesStationFilters(station(128, null), filters)).toBe(true);
+    expect(matchesStationFilters(station(96, null), filters)).toBe(false);
+    expect(matchesStationFilters(station(null, null), filters)).toBe(false);
+  });
+
+  it("matches the codec without regard to case", () => {
+    const filters = { ...EMPTY_STATION_FILTERS, codec: "AAC" };
+
+    expect(matchesStationFilters(station(null, "aac"), filters)).toBe(true);
+    expect(matchesStationFilters(station(null, "MP3"), filters)).toBe(false);
+    expect(matchesStationFilters(station(null, null), filters)).toBe(false);
+  });
+
+  it("keeps every station without filters", () => {
+    expect(matchesStationFilters(station(null, null), EMPTY_STATION_FILTERS)).toBe(true);
+  });
+});
+
+describe("getFilterChips", () => {
+  it("shows a chip per filter and per tag", () => {
+    expect(getFilterChips(FILTERS).map((chip) => chip.label)).toEqual([
+      "Country: Germany",
+      "Language: german",
+      "#rock",
+      "#pop",
+      "128+ kbps",
+      "AAC",
+    ]);
+  });
+
+  it("removes the filter a chip stands for", () => {
+    const [, , rock, , bitrate] = getFilterChips(FILTERS);
+
+    expect(removeFilterChip(FILTERS, rock!).tags).toEqual(["pop"]);
+    expect(removeFilterChip(FILTERS, bitrate!).minBitrate).toBeNull();
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Station Filters Utility
+ *
+ * The advanced search filters of StationSearch: what can be filtered
+ * on, how filters become API parameters and cache keys, and how they
+ * are shown as chips.
+ *
+ * The station search API takes country, language and tags. It has no
+ * bitrate or codec parameters, so those two filters only apply to the
+ * results loaded so far, on the client.
+ *
+ * SOLID: Single Responsibility - Only defines station search filters
+ */
+
+import type { RadioStation, StationSearchParams } from "~/lib/types/api.types";
+
+export interface StationFilters {
+  country: string;
+  language: string;
+  tags: string[];
+  /**
+   * Lowest bitrate in kbps, or null for any
+   */
+  minBitrate: number | null;
+  codec: string | null;
+}
+
+export type StationFilterKey = keyof StationFilters;
+
+export interface StationFilterChip {
+  key: StationFilterKey;
+  /**
+   * The tag a chip removes, for tag chips
+   */
+  value?: string;
+  label: string;
+}
+
+export const EMPTY_STATION_FILTERS: StationFilters = {
+  country: "",
+  language: "",
+  tags: [],
+  minBitrate: null,
+  codec: null,
+};
+
+export const MIN_BITRATE_OPTIONS = [64, 128, 192, 256, 320];
+
+export const CODEC_OPTIONS = ["MP3", "AAC", "AAC+", "OGG", "OPUS", "FLAC"];
+
+/**
+ * Suggestions for the pickers, completed with values from loaded stations
+ */
+export const COMMON_COUNTRIES = [
+  "Australia",
+  "Austria",
+  "Brazil",
+  "Canada",
+  "France",
+  "Germany",
+  "Greece",
+  "India",
+  "Italy",
+  "Japan",
+  "Mexico",
+  "Netherlands",
+  "Poland",
+  "Russia",
+  "Spain",
+  "Switzerland",
+  "The United Kingdom Of Great Britain And Northern Ireland",
+  "The United States Of America",
+  "Turkey",
+  "Ukraine",
+];
+
+export const COMMON_LANGUAGES = [
+  "arabic",
+  "chinese",
+  "dutch",
+  "english",
+  "french",
+  "german",
+  "greek",
+  "hindi",
+  "italian",
+  "japanese",
+  "polish",
+  "portuguese",
+  "russian",
+  "spanish",
+  "turkish",
+];
+
+export const COMMON_TAGS = [
+  "pop",
+  "rock",
+  "news",
+  "jazz",
+  "classical",
+  "dance",
+  "electronic",
+  "talk",
+  "hits",
+  "oldies",
+  "country",
+  "hiphop",
+];
+
+/**
+ * Whether any filter is set
+ */
+export function hasActiveFilters(filters: StationFilters): boolean {
+  return getFilterChips(filters).length > 0;
+}
+
+/**
+ * Search API parameters for the filters; bitrate and codec have none
+ */
+export function getFilterSearchParams(filters: StationFilters): StationSearchParams {
+  const params: StationSearchParams = {};
+  if (filters.country.trim()) params.country = filters.country.trim();
+  if (filters.language.trim()) params.language = filters.language.trim();
+  if (filters.tags.length > 0) params.tags = filters.tags.join(",");
+  return params;
+}
+
+/**
+ * Cache key for a search term with filters. Only filters sent to the API
+ * are part of it, and without them it is the term alone, so results
+ * cached before filters existed stay valid.
+ */
+export function getFiltersCacheKey(searchTerm: string, filters?: StationFilters): string {
+  if (!filters) return searchTerm;
+
+  const parts = Object.entries(getFilterSearchParams(filters)).map(
+    ([key, value]) => `${key}=${String(value).toLowerCase()}`,
+  );
+  return [searchTerm, ...parts].join("|");
+}
+
+/**
+ * Whether a station passes the bitrate and codec filters, which are
+ * only applied to loaded results since the search API can't
+ */
+export function matchesStationFilters(station: RadioStation, filters: StationFilters): boolean {
+  if (filters.minBitrate !== null && (station.bitrate ?? 0) < filters.minBitrate) {
+    return false;
+  }
+  if (filters.codec && station.codec?.toUpperCase() !== filters.codec) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * One chip per active filter, and one per tag
+ */
+export function getFilterChips(filters: StationFilters): StationFilterChip[] {
+  const chips: StationFilterChip[] = [];
+  if (filters.country.trim()) {
+    chips.push({ key: "country", label: `Country: ${filters.country.trim()}` });
+  }
+  if (filters.language.trim()) {
+    chips.push({ key: "language", label: `Language: ${filters.language.trim()}` });
+  }
+  for (const tag of filters.tags) {
+    chips.push({ key: "tags", value: tag, label: `#${tag}` });
+  }
+  if (filters.minBitrate !== null) {
+    chips.push({ key: "minBitrate", label: `${filters.minBitrate}+ kbps` });
+  }
+  if (filters.codec) {
+    chips.push({ key: "codec", label: filters.codec });
+  }
+  return chips;
+}
+
+/**
+ * The filters without the one a chip stands for
+ */
+export function removeFilterChip(filters: StationFilters, chip: StationFilterChip): StationFilters {
+  if (chip.key === "tags") {
+    return { ...filters, tags: filters.tags.filter((tag) => tag !== chip.value) };
+  }
+  return { ...filters, [chip.key]: EMPTY_STATION_FILTERS[chip.key] };
+}
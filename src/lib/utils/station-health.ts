@@ -0,0 +1,97 @@
+/**
+ * Station Health Utility
+ *
+ * Remembers stations that failed to play in this browser, and combines
+ * that with the station directory's `lastCheckOk` to filter and sort
+ * out broken stations. Failures are forgotten after two weeks without
+ * a new one, or as soon as the station plays again.
+ *
+ * SOLID: Single Responsibility - Only tracks and judges station health
+ */
+
+import type { RadioStation } from "~/lib/types/api.types";
+
+const STORAGE_KEY = "eradio_playback_failures";
+const EXPIRY_MS = 14 * 24 * 60 * 60 * 1000; // 2 weeks
+
+/**
+ * Failures in a row after which a station is marked "often offline"
+ */
+export const OFTEN_OFFLINE_FAILURES = 3;
+
+interface PlaybackFailures {
+  count: number;
+  lastFailedAt: number;
+}
+
+type FailureStore = Record<string, PlaybackFailures>;
+
+function readFailures(): FailureStore {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as FailureStore) : {};
+  } catch {
+    return {};
+  }
+}
+
+function writeFailures(failures: FailureStore): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(failures));
+  } catch (error) {
+    console.error("Error saving playback failures:", error);
+  }
+}
+
+/**
+ * Count a failed attempt to play the station
+ */
+export function recordPlaybackFailure(stationUuid: string): void {
+  const now = Date.now();
+  const failures = Object.fromEntries(
+    Object.entries(readFailures()).filter(([, entry]) => now - entry.lastFailedAt < EXPIRY_MS),
+  );
+  failures[stationUuid] = { count: (failures[stationUuid]?.count ?? 0) + 1, lastFailedAt: now };
+  writeFailures(failures);
+}
+
+/**
+ * Forget the failures of a station that played
+ */
+export function clearPlaybackFailures(stationUuid: string): void {
+  const failures = readFailures();
+  if (!(stationUuid in failures)) return;
+  delete failures[stationUuid];
+  writeFailures(failures);
+}
+
+/**
+ * Whether the station failed to play several times in a row recently
+ */
+export function isOftenOffline(stationUuid: string): boolean {
+  const entry = readFailures()[stationUuid];
+  return (
+    entry !== undefined &&
+    Date.now() - entry.lastFailedAt < EXPIRY_MS &&
+    entry.count >= OFTEN_OFFLINE_FAILURES
+  );
+}
+
+/**
+ * Whether the station is probably broken: its last directory check
+ * failed or it keeps failing to play here
+ */
+export function isStationBroken(station: RadioStation): boolean {
+  return station.lastCheckOk === false || isOftenOffline(station.stationUuid);
+}
+
+/**
+ * Stations in the same order, with broken ones moved to the end
+ */
+export function sortBrokenLast(stations: RadioStation[]): RadioStation[] {
+  const broken = new Set(stations.filter(isStationBroken));
+  return [
+    ...stations.filter((station) => !broken.has(station)),
+    ...stations.filter((station) => broken.has(station)),
+  ];
+}
@@ -0,0 +1,52 @@
+/**
+ * Station Loudness Utility
+ *
+ * Remembers the normalization gain learned for each station, so a
+ * station starts at a consistent level the next time it is played
+ * instead of re-adapting from scratch.
+ *
+ * SOLID: Single Responsibility - Only stores learned station gains
+ */
+
+const STORAGE_KEY = "eradio_station_loudness";
+const MAX_STATIONS = 500;
+
+interface StationGain {
+  gainDb: number;
+  updatedAt: number;
+}
+
+type StationGains = Record<string, StationGain>;
+
+function readStationGains(): StationGains {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as StationGains) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Learned normalization gain (dB) for a station, if it was played before
+ */
+export function getStationGainOffset(stationUuid: string): number | null {
+  return readStationGains()[stationUuid]?.gainDb ?? null;
+}
+
+/**
+ * Save the learned gain, keeping only the most recently played stations
+ */
+export function setStationGainOffset(stationUuid: string, gainDb: number): void {
+  try {
+    const gains = readStationGains();
+    gains[stationUuid] = { gainDb: Math.round(gainDb * 10) / 10, updatedAt: Date.now() };
+
+    const recent = Object.entries(gains)
+      .sort(([, a], [, b]) => b.updatedAt - a.updatedAt)
+      .slice(0, MAX_STATIONS);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(recent)));
+  } catch (error) {
+    console.error("Error saving station loudness:", error);
+  }
+}
@@ -0,0 +1,61 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { RadioStation } from "~/lib/types/api.types";
+import { EMPTY_STATION_FILTERS, type StationFilters } from "./station-filters";
+import { appendCachedStations, getCachedStations, setCachedStations } from "./stations-cache";
+
+const ROCK: StationFilters = { ...EMPTY_STATION_FILTERS, tags: ["rock"] };
+
+function station(stationUuid: string): RadioStation {
+  return { id: 1, stationUuid } as RadioStation;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: new Date(2026, 0, 5, 12, 0) });
+  localStorage.clear();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("stations cache", () => {
+  it("caches results per search term and filters", () => {
+    setCachedStations([station("plain")], "jazz");
+    setCachedStations([station("rock")], "jazz", ROCK);
+
+    expect(getCachedStations("jazz")).toEqual([station("plain")]);
+    expect(getCachedStations("jazz", ROCK)).toEqual([station("rock")]);
+    expect(getCachedStations("jazz", { ...ROCK, tags: ["pop"] })).toBeNull();
+  });
+
+  it("shares results between filters the API doesn't take", () => {
+    setCachedStations([station("rock")], "jazz", ROCK);
+
+    expect(getCachedStations("jazz", { ...ROCK, minBitrate: 320, codec: "FLAC" })).toEqual([
+      station("rock"),
+    ]);
+  });
+
+  it("reads results cached without filters for empty filters", () => {
+    setCachedStations([station("plain")], "jazz");
+
+    expect(getCachedStations("jazz", EMPTY_STATION_FILTERS)).toEqual([station("plain")]);
+  });
+
+  it("appends only new stations", () => {
+    setCachedStations([station("a")], "", ROCK);
+
+    appendCachedStations([station("a"), station("b")], "", ROCK);
+
+    expect(getCachedStations("", ROCK)).toEqual([station("a"), station("b")]);
+  });
+
+  it("expires results after an hour", () => {
+    setCachedStations([station("a")], "", ROCK);
+
+    vi.advanceTimersByTime(60 * 60 * 1000 + 1);
+
+    expect(getCachedStations("", ROCK)).toBeNull();
+  });
+});
@@ -3,11 +3,13 @@
  *
  * Handles caching of radio stations with expiration (1 hour).
  * Used to show stations when user logs in without saving to DB.
+ * Results are cached per search term and search filters.
  *
  * SOLID: Single Responsibility - Only handles station caching
  */
 
 import type { RadioStation } from "~/lib/types/api.types";
+import { getFiltersCacheKey, type StationFilters } from "./station-filters";
 
 const CACHE_KEY = "eradio_stations_cache";
 const CACHE_EXPIRY_MS = 60 * 60 * 1000; // 1 hour
@@ -25,14 +27,17 @@ interface CacheStore {
 /**
  * Get cached stations if they exist and are not expired
  */
-export function getCachedStations(searchTerm: string = ""): RadioStation[] | null {
+export function getCachedStations(
+  searchTerm: string = "",
+  filters?: StationFilters,
+): RadioStation[] | null {
   try {
     const cached = localStorage.getItem(CACHE_KEY);
     if (!cached) return null;
 
     const cacheStore: CacheStore = JSON.parse(cached);
     const now = Date.now();
-    const cacheKey = searchTerm || "__default__";
+    const cacheKey = getFiltersCacheKey(searchTerm, filters) || "__default__";
 
     const data = cacheStore[cacheKey];
     if (!data) return null;
@@ -56,9 +61,10 @@ export function getCachedStations(searchTerm: string = ""): RadioStation[] | nul
 export function setCachedStations(
   stations: RadioStation[],
   searchTerm: string = "",
+  filters?: StationFilters,
 ): void {
   try {
-    const cacheKey = searchTerm || "__default__";
+    const cacheKey = getFiltersCacheKey(searchTerm, filters) || "__default__";
     let cacheStore: CacheStore = {};
 
     // Load existing cache
@@ -91,18 +97,19 @@ export function setCachedStations(
 export function appendCachedStations(
   newStations: RadioStation[],
   searchTerm: string = "",
+  filters?: StationFilters,
 ): void {
   try {
-    const cached = getCachedStations(searchTerm);
+    const cached = getCachedStations(searchTerm, filters);
     if (cached) {
       // Merge and deduplicate by stationUuid
       const existingUuids = new Set(cached.map((s) => s.stationUuid ?? s.id));
       const uniqueNewStations = newStations.filter(
         (s) => !existingUuids.has(s.stationUuid ?? s.id),
       );
-      setCachedStations([...cached, ...uniqueNewStations], searchTerm);
+      setCachedStations([...cached, ...uniqueNewStations], searchTerm, filters);
     } else {
-      setCachedStations(newStations, searchTerm);
+      setCachedStations(newStations, searchTerm, filters);
     }
   } catch {
     // Ignore errors
@@ -123,7 +130,7 @@ export function clearStationsCache(): void {
 /**
  * Check if cache exists and is valid
  */
-export function hasValidCache(searchTerm: string = ""): boolean {
-  return getCachedStations(searchTerm) !== null;
+export function hasValidCache(searchTerm: string = "", filters?: StationFilters): boolean {
+  return getCachedStations(searchTerm, filters) !== null;
 }
 
@@ -0,0 +1,214 @@
+/**
+ * Stream Probe Utility
+ *
+ * Checks station streams with the /api/probe-stream route handler and
+ * remembers the result per station (30 minutes), so every card showing
+ * a station doesn't open its stream again.
+ *
+ * SOLID: Single Responsibility - Only handles stream health checks
+ *
+ * Probes hold a stream open for a few seconds server-side, so only a
+ * couple run at a time; the rest wait in line until started or aborted.
+ */
+
+import type { RadioStation } from "~/lib/types/api.types";
+import type { StreamProbeResult } from "~/lib/types/stream.types";
+import { getCachedStream } from "./stream-resolver";
+
+const CACHE_KEY = "eradio_stream_probes";
+const CACHE_EXPIRY_MS = 30 * 60 * 1000; // 30 minutes
+const MAX_CONCURRENT_PROBES = 2;
+
+type CacheStore = Record<string, StreamProbeResult>;
+
+export type StreamQuality = "high" | "standard" | "low";
+export type StreamLatency = "fast" | "average" | "slow";
+
+interface ProbeRequest {
+  promise: Promise<StreamProbeResult | null>;
+  controller: AbortController;
+  /**
+   * Callers still waiting for the result; the probe is aborted when all give up
+   */
+  subscribers: number;
+}
+
+const inFlight = new Map<string, ProbeRequest>();
+// Probes waiting for a slot, each started by handing it one
+const waiting: (() => void)[] = [];
+let running = 0;
+
+function readCache(): CacheStore {
+  try {
+    const cached = localStorage.getItem(CACHE_KEY);
+    return cached ? (JSON.parse(cached) as CacheStore) : {};
+  } catch {
+    return {};
+  }
+}
+
+function writeCache(cacheStore: CacheStore): void {
+  try {
+    localStorage.setItem(CACHE_KEY, JSON.stringify(cacheStore));
+  } catch (error) {
+    console.error("Error caching stream probe:", error);
+  }
+}
+
+function cacheProbe(stationUuid: string, result: StreamProbeResult): void {
+  const now = Date.now();
+  const cacheStore = Object.fromEntries(
+    Object.entries(readCache()).filter(([, cached]) => now - cached.checkedAt <= CACHE_EXPIRY_MS),
+  );
+  cacheStore[stationUuid] = result;
+  writeCache(cacheStore);
+}
+
+/**
+ * Wait for one of the probe slots; rejects if aborted while in line,
+ * which also takes the probe out of the line
+ */
+function acquireProbeSlot(signal: AbortSignal): Promise<void> {
+  if (signal.aborted) return Promise.reject(new Error("Probe aborted"));
+  if (running < MAX_CONCURRENT_PROBES) {
+    running++;
+    return Promise.resolve();
+  }
+
+  return new Promise<void>((resolve, reject) => {
+    const start = () => {
+      signal.removeEventListener("abort", leaveLine);
+      resolve();
+    };
+    const leaveLine = () => {
+      const index = waiting.indexOf(start);
+      if (index >= 0) waiting.splice(index, 1);
+      reject(new Error("Probe aborted"));
+    };
+    waiting.push(start);
+    signal.addEventListener("abort", leaveLine, { once: true });
+  });
+}
+
+/**
+ * Free a slot. It goes straight to the next probe in line, so a probe
+ * arriving meanwhile can't take it as well.
+ */
+function releaseProbeSlot(): void {
+  const next = waiting.shift();
+  if (next) {
+    next();
+  } else {
+    running--;
+  }
+}
+
+function startProbe(station: RadioStation): ProbeRequest {
+  const controller = new AbortController();
+  // Prefer the stream that last played over a URL that may be a playlist
+  const url = getCachedStream(station.stationUuid)?.url ?? (station.urlResolved || station.url);
+
+  const run = async (): Promise<StreamProbeResult | null> => {
+    try {
+      await acquireProbeSlot(controller.signal);
+    } catch {
+      return null;
+    }
+
+    try {
+      const response = await fetch(`/api/probe-stream?url=${encodeURIComponent(url)}`, {
+        signal: controller.signal,
+      });
+      if (!response.ok) return null;
+      const result = (await response.json()) as StreamProbeResult;
+      cacheProbe(station.stationUuid, result);
+      return result;
+    } catch (error) {
+      if (!controller.signal.aborted) console.error("Error probing stream:", error);
+      return null;
+    } finally {
+      releaseProbeSlot();
+    }
+  };
+
+  const request: ProbeRequest = {
+    promise: run().finally(() => {
+      if (inFlight.get(station.stationUuid) === request) inFlight.delete(station.stationUuid);
+    }),
+    controller,
+    subscribers: 0,
+  };
+  return request;
+}
+
+/**
+ * Get the last probe of a station, if not expired
+ */
+export function getCachedProbe(stationUuid: string): StreamProbeResult | null {
+  const cached = readCache()[stationUuid];
+  if (!cached || Date.now() - cached.checkedAt > CACHE_EXPIRY_MS) return null;
+  return cached;
+}
+
+/**
+ * Probe a station's stream, or return the cached result.
+ * Returns null if the prober can't be reached or `signal` aborts.
+ *
+ * Callers asking for the same station share one probe, which is only
+ * dropped (from the line or mid-request) once every caller has aborted.
+ */
+export function probeStation(
+  station: RadioStation,
+  signal?: AbortSignal,
+): Promise<StreamProbeResult | null> {
+  const cached = getCachedProbe(station.stationUuid);
+  if (cached) return Promise.resolve(cached);
+  if (signal?.aborted) return Promise.resolve(null);
+
+  let request = inFlight.get(station.stationUuid);
+  if (!request || request.controller.signal.aborted) {
+    request = startProbe(station);
+    inFlight.set(station.stationUuid, request);
+  }
+
+  const shared = request;
+  shared.subscribers++;
+  signal?.addEventListener(
+    "abort",
+    () => {
+      shared.subscribers--;
+      if (shared.subscribers === 0) shared.controller.abort();
+    },
+    { once: true },
+  );
+  return shared.promise;
+}
+
+/**
+ * Whether to warn before playing: the station directory's last check
+ * or our own probe says the stream is down
+ */
+export function isStationLikelyDown(
+  station: RadioStation,
+  probe: StreamProbeResult | null,
+): boolean {
+  return station.lastCheckOk === false || probe?.ok === false;
+}
+
+/**
+ * Quality tier for a bitrate in kbps
+ */
+export function getStreamQuality(kbps: number): StreamQuality {
+  if (kbps >= 192) return "high";
+  if (kbps >= 96) return "standard";
+  return "low";
+}
+
+/**
+ * Latency tier for a time to first byte
+ */
+export function getStreamLatency(ttfbMs: number): StreamLatency {
+  if (ttfbMs < 500) return "fast";
+  if (ttfbMs < 1500) return "average";
+  return "slow";
+}
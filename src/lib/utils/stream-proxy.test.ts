@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { getAudioFileExtension, getStreamProxyUrl } from "./stream-proxy";
+
+describe("getStreamProxyUrl", () => {
+  it("encodes the stream URL as a query parameter", () => {
+    expect(getStreamProxyUrl("https://radio.example.com/live?sid=1&type=mp3")).toBe(
+      "/api/stream?url=https%3A%2F%2Fradio.example.com%2Flive%3Fsid%3D1%26type%3Dmp3",
+    );
+  });
+});
+
+describe("getAudioFileExtension", () => {
+  it.each([
+    ["audio/mpeg", "mp3"],
+    ["audio/MP3", "mp3"],
+    ["audio/aacp; charset=binary", "aac"],
+    ["audio/x-aac", "aac"],
+    ["application/ogg", "ogg"],
+    ["audio/opus", "opus"],
+    ["audio/flac", "flac"],
+  ])("maps %s to .%s", (mimeType, extension) => {
+    expect(getAudioFileExtension(mimeType)).toBe(extension);
+  });
+
+  it("falls back to a generic extension", () => {
+    expect(getAudioFileExtension("application/octet-stream")).toBe("audio");
+    expect(getAudioFileExtension("")).toBe("audio");
+  });
+});
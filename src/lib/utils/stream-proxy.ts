@@ -0,0 +1,39 @@
+/**
+ * Stream Proxy Utility
+ *
+ * Builds URLs for the /api/stream route handler, which relays a station's
+ * audio from our own origin so its bytes can be read with fetch.
+ *
+ * SOLID: Single Responsibility - Only addresses the stream proxy
+ */
+
+/**
+ * Same-origin URL serving the raw audio of a stream
+ */
+export function getStreamProxyUrl(streamUrl: string): string {
+  return `/api/stream?url=${encodeURIComponent(streamUrl)}`;
+}
+
+/**
+ * File extension for a stream's Content-Type, for saved recordings
+ */
+export function getAudioFileExtension(mimeType: string): string {
+  switch (mimeType.split(";")[0]?.trim().toLowerCase()) {
+    case "audio/mpeg":
+    case "audio/mp3":
+      return "mp3";
+    case "audio/aac":
+    case "audio/aacp":
+    case "audio/x-aac":
+      return "aac";
+    case "audio/ogg":
+    case "application/ogg":
+      return "ogg";
+    case "audio/opus":
+      return "opus";
+    case "audio/flac":
+      return "flac";
+    default:
+      return "audio";
+  }
+}
@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { ResolvedStream } from "~/lib/types/stream.types";
+import {
+  clearCachedStream,
+  getCachedStream,
+  isPlaylistUrl,
+  resolveStream,
+  setCachedStream,
+} from "./stream-resolver";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function createStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => Array.from(items.keys())[index] ?? null,
+    removeItem: (key) => items.delete(key),
+    setItem: (key, value) => items.set(key, value),
+  };
+}
+
+beforeEach(() => {
+  vi.stubGlobal("localStorage", createStorage());
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("isPlaylistUrl", () => {
+  it("is true for playlist files only", () => {
+    expect(isPlaylistUrl("https://example.com/live.pls")).toBe(true);
+    expect(isPlaylistUrl("https://example.com/live.mp3")).toBe(false);
+  });
+});
+
+describe("resolveStream", () => {
+  it("asks the resolver route for the URL", async () => {
+    const resolved: ResolvedStream = { streams: ["https://example.com/live.mp3"], hls: false };
+    const fetchMock = vi.fn<typeof fetch>().mockResolvedValue(Response.json(resolved));
+    vi.stubGlobal("fetch", fetchMock);
+
+    await expect(resolveStream("https://example.com/live.pls?a=1")).resolves.toEqual(resolved);
+    expect(fetchMock).toHaveBeenCalledWith(
+      "/api/resolve-stream?url=https%3A%2F%2Fexample.com%2Flive.pls%3Fa%3D1",
+    );
+  });
+
+  it("returns null when the resolver fails or can't be reached", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+    vi.stubGlobal("fetch", vi.fn<typeof fetch>().mockResolvedValue(new Response(null, { status: 502 })));
+    await expect(resolveStream("https://example.com/live.pls")).resolves.toBeNull();
+
+    vi.stubGlobal("fetch", vi.fn<typeof fetch>().mockRejectedValue(new TypeError("offline")));
+    await expect(resolveStream("https://example.com/live.pls")).resolves.toBeNull();
+  });
+});
+
+describe("stream cache", () => {
+  it("remembers the stream that worked per station", () => {
+    setCachedStream("station-1", "https://example.com/live.mp3", false);
+    setCachedStream("station-2", "https://example.com/live.m3u8", true);
+
+    expect(getCachedStream("station-1")).toEqual({ url: "https://example.com/live.mp3", hls: false });
+    expect(getCachedStream("station-2")).toEqual({ url: "https://example.com/live.m3u8", hls: true });
+    expect(getCachedStream("station-3")).toBeNull();
+  });
+
+  it("forgets a cleared stream", () => {
+    setCachedStream("station-1", "https://example.com/live.mp3", false);
+    clearCachedStream("station-1");
+
+    expect(getCachedStream("station-1")).toBeNull();
+  });
+
+  it("expires streams after a day", () => {
+    vi.useFakeTimers();
+    setCachedStream("station-1", "https://example.com/live.mp3", false);
+
+    vi.advanceTimersByTime(DAY_MS + 1);
+    expect(getCachedStream("station-1")).toBeNull();
+  });
+
+  it("ignores a corrupt cache", () => {
+    localStorage.setItem("eradio_resolved_streams", "{not json");
+    expect(getCachedStream("station-1")).toBeNull();
+  });
+});
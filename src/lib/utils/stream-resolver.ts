@@ -0,0 +1,93 @@
+/**
+ * Stream Resolver Utility
+ *
+ * Finds the playable stream behind a station URL using the
+ * /api/resolve-stream route handler, and remembers per station which
+ * stream worked (24 hours) so playlists aren't resolved on every play.
+ *
+ * SOLID: Single Responsibility - Only handles stream URL resolution
+ */
+
+import type { ResolvedStream } from "~/lib/types/stream.types";
+import { getPlaylistFormatFromUrl } from "./playlist-parser";
+
+const CACHE_KEY = "eradio_resolved_streams";
+const CACHE_EXPIRY_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+interface CachedStream {
+  url: string;
+  hls: boolean;
+  timestamp: number;
+}
+
+type CacheStore = Record<string, CachedStream>;
+
+function readCache(): CacheStore {
+  try {
+    const cached = localStorage.getItem(CACHE_KEY);
+    return cached ? (JSON.parse(cached) as CacheStore) : {};
+  } catch {
+    return {};
+  }
+}
+
+function writeCache(cacheStore: CacheStore): void {
+  try {
+    localStorage.setItem(CACHE_KEY, JSON.stringify(cacheStore));
+  } catch (error) {
+    console.error("Error caching resolved stream:", error);
+  }
+}
+
+/**
+ * Whether the URL is a playlist file by its extension, so it
+ * should be resolved before playing
+ */
+export function isPlaylistUrl(url: string): boolean {
+  return getPlaylistFormatFromUrl(url) !== null;
+}
+
+/**
+ * Resolve a station URL to its candidate streams.
+ * Returns null if the resolver can't be reached or finds nothing.
+ */
+export async function resolveStream(url: string): Promise<ResolvedStream | null> {
+  try {
+    const response = await fetch(`/api/resolve-stream?url=${encodeURIComponent(url)}`);
+    if (!response.ok) return null;
+    return (await response.json()) as ResolvedStream;
+  } catch (error) {
+    console.error("Error resolving stream:", error);
+    return null;
+  }
+}
+
+/**
+ * Get the stream that last worked for a station, if not expired
+ */
+export function getCachedStream(stationUuid: string): Omit<CachedStream, "timestamp"> | null {
+  const cached = readCache()[stationUuid];
+  if (!cached || Date.now() - cached.timestamp > CACHE_EXPIRY_MS) return null;
+  return { url: cached.url, hls: cached.hls };
+}
+
+/**
+ * Remember the stream that worked for a station
+ */
+export function setCachedStream(stationUuid: string, url: string, hls: boolean): void {
+  const now = Date.now();
+  const cacheStore = Object.fromEntries(
+    Object.entries(readCache()).filter(([, cached]) => now - cached.timestamp <= CACHE_EXPIRY_MS),
+  );
+  cacheStore[stationUuid] = { url, hls, timestamp: now };
+  writeCache(cacheStore);
+}
+
+/**
+ * Forget a cached stream, e.g. after it stopped working
+ */
+export function clearCachedStream(stationUuid: string): void {
+  const cacheStore = readCache();
+  delete cacheStore[stationUuid];
+  writeCache(cacheStore);
+}
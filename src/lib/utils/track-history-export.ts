@@ -0,0 +1,68 @@
+/**
+ * Track History Export Utilities
+ *
+ * Formats the "recently heard" log for copying, searching and export.
+ *
+ * SOLID: Single Responsibility - Only handles track history formatting
+ */
+
+import type { TrackHistoryEntry } from "~/lib/store/track-history-store";
+
+/**
+ * "Artist – Title", or the raw StreamTitle when there is no artist
+ */
+export function formatTrack(entry: Pick<TrackHistoryEntry, "artist" | "title">): string {
+  return entry.artist ? `${entry.artist} – ${entry.title}` : entry.title;
+}
+
+/**
+ * Web search URL for a track
+ */
+export function getTrackSearchUrl(entry: TrackHistoryEntry): string {
+  const query = entry.artist ? `${entry.artist} ${entry.title}` : entry.raw;
+  return `https://www.google.com/search?q=${encodeURIComponent(query)}`;
+}
+
+function escapeCsvValue(value: string): string {
+  if (/[",\n\r]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+/**
+ * Export entries as CSV (one row per track, ISO timestamps)
+ */
+export function toTrackHistoryCsv(entries: TrackHistoryEntry[]): string {
+  const header = ["played_at", "station", "artist", "title", "stream_title"];
+  const rows = entries.map((entry) =>
+    [
+      new Date(entry.playedAt).toISOString(),
+      entry.stationName,
+      entry.artist ?? "",
+      entry.title,
+      entry.raw,
+    ]
+      .map(escapeCsvValue)
+      .join(","),
+  );
+  return [header.join(","), ...rows].join("\n");
+}
+
+/**
+ * Export entries as pretty-printed JSON
+ */
+export function toTrackHistoryJson(entries: TrackHistoryEntry[]): string {
+  return JSON.stringify(
+    entries.map((entry) => ({
+      playedAt: new Date(entry.playedAt).toISOString(),
+      stationUuid: entry.stationUuid,
+      station: entry.stationName,
+      artist: entry.artist,
+      title: entry.title,
+      streamTitle: entry.raw,
+    })),
+    null,
+    2,
+  );
+}
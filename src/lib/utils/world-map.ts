@@ -0,0 +1,63 @@
+/**
+ * World Map Utility
+ *
+ * Country shapes for the station map, from the world-atlas geometry
+ * bundled with the app, so the map needs no tile server.
+ *
+ * SOLID: Single Responsibility - Only provides map geometry
+ *
+ * The geometry is loaded on demand, keeping it out of the main bundle,
+ * and projected once into SVG paths for a fixed-size view box.
+ */
+
+import { geoEqualEarth, geoPath } from "d3-geo";
+import { feature } from "topojson-client";
+import { numericToAlpha2 } from "i18n-iso-countries";
+import type { GeometryCollection, Topology } from "topojson-specification";
+
+export const WORLD_MAP_WIDTH = 960;
+export const WORLD_MAP_HEIGHT = 500;
+
+export interface WorldCountry {
+  /**
+   * ISO 3166-1 alpha-2 code, matching `RadioStation.countryCode`;
+   * null for areas without one
+   */
+  countryCode: string | null;
+  name: string;
+  /**
+   * SVG path data in the map's view box
+   */
+  path: string;
+}
+
+let countriesPromise: Promise<WorldCountry[]> | null = null;
+
+async function buildWorldCountries(): Promise<WorldCountry[]> {
+  const topology = (await import("world-atlas/countries-110m.json")).default as unknown as Topology<{
+    countries: GeometryCollection<{ name: string }>;
+  }>;
+  const countries = feature(topology, topology.objects.countries);
+
+  const projection = geoEqualEarth().fitSize([WORLD_MAP_WIDTH, WORLD_MAP_HEIGHT], countries);
+  const toPath = geoPath(projection);
+
+  return countries.features
+    .map((country) => ({
+      countryCode: country.id !== undefined ? (numericToAlpha2(country.id) ?? null) : null,
+      name: country.properties.name,
+      path: toPath(country) ?? "",
+    }))
+    .filter((country) => country.path);
+}
+
+/**
+ * The world's countries as SVG paths; loaded once
+ */
+export function loadWorldCountries(): Promise<WorldCountry[]> {
+  countriesPromise ??= buildWorldCountries().catch((error: unknown) => {
+    countriesPromise = null;
+    throw error;
+  });
+  return countriesPromise;
+}